@@ -0,0 +1,76 @@
+<?php
+/**
+ * Minimal HS256 JSON Web Token helper
+ * Signed with JWT_SECRET; lifetime in seconds from JWT_TTL (default 8 hours)
+ */
+
+class JWT {
+
+    /**
+     * Create a signed token for the given claims
+     */
+    public static function encode($claims) {
+        $now = time();
+        $payload = array_merge($claims, [
+            'iat' => $now,
+            'exp' => $now + self::getTtl()
+        ]);
+
+        $header = self::base64UrlEncode(json_encode(['alg' => 'HS256', 'typ' => 'JWT']));
+        $body = self::base64UrlEncode(json_encode($payload));
+        $signature = self::base64UrlEncode(self::sign("$header.$body"));
+
+        return "$header.$body.$signature";
+    }
+
+    /**
+     * Verify a token and return its claims, or null if invalid or expired
+     */
+    public static function decode($token) {
+        $parts = explode('.', $token);
+        if (count($parts) !== 3) {
+            return null;
+        }
+
+        list($header, $body, $signature) = $parts;
+
+        $expected = self::base64UrlEncode(self::sign("$header.$body"));
+        if (!hash_equals($expected, $signature)) {
+            return null;
+        }
+
+        $headerData = json_decode(self::base64UrlDecode($header), true);
+        if (($headerData['alg'] ?? '') !== 'HS256') {
+            return null;
+        }
+
+        $claims = json_decode(self::base64UrlDecode($body), true);
+        if (!is_array($claims) || !isset($claims['exp']) || $claims['exp'] < time()) {
+            return null;
+        }
+
+        return $claims;
+    }
+
+    private static function sign($data) {
+        $secret = $_ENV['JWT_SECRET'] ?? '';
+        if ($secret === '') {
+            throw new Exception("JWT_SECRET is not configured");
+        }
+
+        return hash_hmac('sha256', $data, $secret, true);
+    }
+
+    private static function getTtl() {
+        return (int) ($_ENV['JWT_TTL'] ?? 8 * 60 * 60);
+    }
+
+    private static function base64UrlEncode($data) {
+        return rtrim(strtr(base64_encode($data), '+/', '-_'), '=');
+    }
+
+    private static function base64UrlDecode($data) {
+        return base64_decode(strtr($data, '-_', '+/'));
+    }
+}
+?>
@@ -0,0 +1,159 @@
+<?php
+require_once __DIR__ . '/../storage/LocalFileStorage.php';
+
+/**
+ * Uploaded files configuration
+ * FILE_STORAGE selects the storage backend (only "local" for now) and
+ * UPLOAD_MAX_MB the size limit per file (default 20).
+ * Download links are signed with JWT_SECRET so they can be used where no
+ * Authorization header can be sent (<img> tags, links in Excel exports).
+ * They expire after DOWNLOAD_LINK_HOURS (default 168, one week): responses are
+ * signed again each time they are read, so stored links are never trusted.
+ */
+class Uploads {
+
+    /**
+     * Storage backend configured for this installation
+     * @return FileStorage
+     */
+    public static function createStorage() {
+        $backend = $_ENV['FILE_STORAGE'] ?? 'local';
+
+        switch ($backend) {
+            case 'local':
+                return new LocalFileStorage();
+            default:
+                throw new Exception("Unknown file storage backend: " . $backend);
+        }
+    }
+
+    /**
+     * Maximum size of a single file in bytes
+     */
+    public static function getMaxBytes() {
+        return (int) ($_ENV['UPLOAD_MAX_MB'] ?? 20) * 1024 * 1024;
+    }
+
+    /**
+     * Signed download path of a file, relative to the API base
+     */
+    public static function downloadPath($fileId) {
+        $expires = time() + (int) ($_ENV['DOWNLOAD_LINK_HOURS'] ?? 168) * 3600;
+
+        return '/files/' . rawurlencode($fileId)
+            . '?expires=' . $expires
+            . '&signature=' . self::sign($fileId, $expires);
+    }
+
+    /**
+     * Check the signature and expiry of a download link
+     */
+    public static function verifySignature($fileId, $expires, $signature) {
+        return is_string($signature)
+            && is_numeric($expires)
+            && (int) $expires >= time()
+            && hash_equals(self::sign($fileId, (int) $expires), $signature);
+    }
+
+    /**
+     * Answers with fresh download links on their attachments (lists of uploaded files)
+     */
+    public static function signAttachments($responses) {
+        foreach ($responses as &$response) {
+            if (!is_array($response['value'] ?? null)) {
+                continue;
+            }
+            foreach ($response['value'] as &$attachment) {
+                if (is_array($attachment) && isset($attachment['id'], $attachment['url']) && is_string($attachment['id'])) {
+                    $attachment['url'] = self::downloadPath($attachment['id']);
+                }
+            }
+            unset($attachment);
+        }
+        unset($response);
+
+        return $responses;
+    }
+
+    /**
+     * Ids of the uploaded files attached to a list of answers
+     */
+    public static function attachmentIds($responses) {
+        $ids = [];
+        foreach ($responses ?? [] as $response) {
+            if (!is_array($response['value'] ?? null)) {
+                continue;
+            }
+            foreach ($response['value'] as $attachment) {
+                if (is_array($attachment) && isset($attachment['id'], $attachment['url']) && is_string($attachment['id'])) {
+                    $ids[] = $attachment['id'];
+                }
+            }
+        }
+        return array_values(array_unique($ids));
+    }
+
+    /**
+     * Storage keys of the files of a form (all of them, or only the given ids)
+     */
+    public static function storageKeys($db, $formId, $ids = null) {
+        if ($ids !== null && empty($ids)) {
+            return [];
+        }
+
+        $query = "SELECT storage_key FROM files WHERE form_id = ?";
+        $params = [$formId];
+        if ($ids !== null) {
+            $query .= " AND id IN (" . implode(',', array_fill(0, count($ids), '?')) . ")";
+            $params = array_merge($params, $ids);
+        }
+
+        $stmt = $db->prepare($query);
+        $stmt->execute($params);
+        return $stmt->fetchAll(PDO::FETCH_COLUMN);
+    }
+
+    /**
+     * Remove stored files; a failure is only logged (the database no longer references them)
+     */
+    public static function deleteStored($storageKeys) {
+        if (empty($storageKeys)) {
+            return;
+        }
+
+        $storage = self::createStorage();
+        foreach ($storageKeys as $key) {
+            try {
+                $storage->delete($key);
+            } catch (Exception $e) {
+                error_log("Error deleting stored file " . $key . ": " . $e->getMessage());
+            }
+        }
+    }
+
+    /**
+     * Delete files of a form that are no longer referenced (rows and stored bytes)
+     */
+    public static function deleteFiles($db, $formId, $ids) {
+        $storageKeys = self::storageKeys($db, $formId, $ids);
+        if (empty($storageKeys)) {
+            return;
+        }
+
+        $placeholders = implode(',', array_fill(0, count($ids), '?'));
+        $stmt = $db->prepare("DELETE FROM files WHERE form_id = ? AND id IN ($placeholders)");
+        $stmt->execute(array_merge([$formId], $ids));
+
+        self::deleteStored($storageKeys);
+    }
+
+    private static function sign($fileId, $expires) {
+        $secret = $_ENV['JWT_SECRET'] ?? '';
+        if ($secret === '') {
+            throw new Exception("JWT_SECRET is not configured");
+        }
+
+        return hash_hmac('sha256', 'file:' . $fileId . ':' . $expires, $secret);
+    }
+}
+?>
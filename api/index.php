@@ -3,9 +3,9 @@ require_once __DIR__ . '/config/cors.php';
 require_once __DIR__ . '/routes/auth.php';
 require_once __DIR__ . '/routes/forms.php';
 require_once __DIR__ . '/routes/responses.php';
-
-// Start session
-session_start();
+require_once __DIR__ . '/routes/users.php';
+require_once __DIR__ . '/routes/audit.php';
+require_once __DIR__ . '/routes/files.php';
 
 // Load environment variables if .env file exists
 if (file_exists(__DIR__ . '/.env')) {
@@ -40,6 +40,21 @@ try {
         $responsesRoutes = new ResponsesRoutes();
         $responsesRoutes->handleRequest($method, '/form-responses', $matches[1]);
         
+    } elseif (preg_match('#^/forms/([^/]+)/versions/(\d+)/restore$#', $uri, $matches)) {
+        // Restore a form version
+        $formsRoutes = new FormsRoutes();
+        $formsRoutes->handleRequest($method, '/form-version-restore', $matches[1], $matches[2]);
+        
+    } elseif (preg_match('#^/forms/([^/]+)/versions(?:/(\d+))?$#', $uri, $matches)) {
+        // Form version history
+        $formsRoutes = new FormsRoutes();
+        $formsRoutes->handleRequest($method, '/form-versions', $matches[1], $matches[2] ?? null);
+        
+    } elseif (preg_match('#^/forms/([^/]+)/permissions$#', $uri, $matches)) {
+        // Form sharing routes
+        $formsRoutes = new FormsRoutes();
+        $formsRoutes->handleRequest($method, '/form-permissions', $matches[1]);
+        
     } elseif (preg_match('#^/forms/([^/]+)$#', $uri, $matches)) {
         // Single form routes
         $formsRoutes = new FormsRoutes();
@@ -50,6 +65,16 @@ try {
         $formsRoutes = new FormsRoutes();
         $formsRoutes->handleRequest($method, '/forms');
         
+    } elseif (preg_match('#^/responses/drafts(?:/([^/]+))?$#', $uri, $matches)) {
+        // Drafts of the current user
+        $responsesRoutes = new ResponsesRoutes();
+        $responsesRoutes->handleRequest($method, '/response-drafts', null, $matches[1] ?? null);
+        
+    } elseif (preg_match('#^/responses/([^/]+)/history$#', $uri, $matches)) {
+        // Response audit history
+        $auditRoutes = new AuditRoutes();
+        $auditRoutes->handleRequest($method, '/response-history', $matches[1]);
+        
     } elseif (preg_match('#^/responses/([^/]+)$#', $uri, $matches)) {
         // Single response routes
         $responsesRoutes = new ResponsesRoutes();
@@ -60,6 +85,21 @@ try {
         $responsesRoutes = new ResponsesRoutes();
         $responsesRoutes->handleRequest($method, $uri);
         
+    } elseif (preg_match('#^/files(?:/([^/]+))?$#', $uri, $matches)) {
+        // Uploaded files (attachments of file questions)
+        $filesRoutes = new FilesRoutes();
+        $filesRoutes->handleRequest($method, $matches[1] ?? null);
+        
+    } elseif (preg_match('#^/users(?:/([^/]+))?$#', $uri, $matches)) {
+        // User management routes (admin only)
+        $usersRoutes = new UsersRoutes();
+        $usersRoutes->handleRequest($method, $matches[1] ?? null);
+        
+    } elseif ($uri === '/audit') {
+        // Audit log (admin only)
+        $auditRoutes = new AuditRoutes();
+        $auditRoutes->handleRequest($method, '/audit');
+        
     } else {
         // Route not found
         http_response_code(404);
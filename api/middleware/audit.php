@@ -0,0 +1,140 @@
+<?php
+/**
+ * Audit trail
+ * Every create/update/delete of a form or response is stored in `audit_log`
+ * with its actor and a field-level diff (`changes`: [{ field, before, after }]).
+ */
+class AuditLog {
+    private $db;
+
+    public function __construct($db) {
+        $this->db = $db;
+    }
+
+    /**
+     * Store an audit event
+     * @param string $entityType 'form' or 'response'
+     * @param string $action 'create', 'update' or 'delete'
+     */
+    public function record($user, $entityType, $entityId, $formId, $action, $changes) {
+        $stmt = $this->db->prepare("
+            INSERT INTO audit_log (id, entity_type, entity_id, form_id, action, user_id, username, changes, created_at)
+            VALUES (UUID(), ?, ?, ?, ?, ?, ?, ?, NOW(3))
+        ");
+        $stmt->execute([
+            $entityType,
+            $entityId,
+            $formId,
+            $action,
+            $user['id'],
+            $user['username'],
+            json_encode(array_values($changes))
+        ]);
+    }
+
+    /**
+     * Diff two lists of QuestionResponse ({ questionId, value }), one entry per changed question
+     */
+    public static function diffResponses($before, $after) {
+        $beforeValues = self::indexValues($before);
+        $afterValues = self::indexValues($after);
+        $changes = [];
+
+        foreach (array_unique(array_merge(array_keys($beforeValues), array_keys($afterValues))) as $questionId) {
+            $old = $beforeValues[$questionId] ?? null;
+            $new = $afterValues[$questionId] ?? null;
+
+            if (!self::sameValue($old, $new)) {
+                $changes[] = ['field' => (string) $questionId, 'before' => $old, 'after' => $new];
+            }
+        }
+
+        return $changes;
+    }
+
+    /**
+     * Diff two form definitions: name, description and each question (by id)
+     * Added and removed questions are recorded whole (`question:<id>`); changed ones
+     * one entry per changed property (`question:<id>:<property>`). Sub-questions
+     * nested in options are diffed as questions of their own, not as part of the parent.
+     */
+    public static function diffForms($before, $after) {
+        $changes = [];
+
+        foreach (['name', 'description'] as $field) {
+            $old = $before[$field] ?? null;
+            $new = $after[$field] ?? null;
+            if ($old !== $new) {
+                $changes[] = ['field' => $field, 'before' => $old, 'after' => $new];
+            }
+        }
+
+        $beforeQuestions = self::indexQuestions($before['questions'] ?? []);
+        $afterQuestions = self::indexQuestions($after['questions'] ?? []);
+
+        foreach (array_unique(array_merge(array_keys($beforeQuestions), array_keys($afterQuestions))) as $questionId) {
+            $old = $beforeQuestions[$questionId] ?? null;
+            $new = $afterQuestions[$questionId] ?? null;
+
+            if (self::sameValue($old, $new)) {
+                continue;
+            }
+
+            if (!$old || !$new) {
+                $changes[] = ['field' => 'question:' . $questionId, 'before' => $old, 'after' => $new];
+                continue;
+            }
+
+            foreach (array_unique(array_merge(array_keys($old), array_keys($new))) as $property) {
+                $oldValue = $old[$property] ?? null;
+                $newValue = $new[$property] ?? null;
+                if (!self::sameValue($oldValue, $newValue)) {
+                    $changes[] = [
+                        'field' => 'question:' . $questionId . ':' . $property,
+                        'before' => $oldValue,
+                        'after' => $newValue
+                    ];
+                }
+            }
+        }
+
+        return $changes;
+    }
+
+    private static function indexValues($responses) {
+        $values = [];
+        foreach ($responses ?: [] as $response) {
+            if (isset($response['questionId'])) {
+                $values[$response['questionId']] = $response['value'] ?? null;
+            }
+        }
+        return $values;
+    }
+
+    /**
+     * Questions by id, with the sub-questions nested in options (older definitions)
+     * taken out of their parent and indexed on their own
+     */
+    private static function indexQuestions($questions, &$indexed = []) {
+        foreach ($questions ?: [] as $question) {
+            $nested = [];
+            foreach ($question['options'] ?? [] as $index => $option) {
+                if (isset($option['subQuestions'])) {
+                    $nested = array_merge($nested, $option['subQuestions'] ?: []);
+                    unset($question['options'][$index]['subQuestions']);
+                }
+            }
+
+            if (isset($question['id'])) {
+                $indexed[$question['id']] = $question;
+            }
+            self::indexQuestions($nested, $indexed);
+        }
+        return $indexed;
+    }
+
+    private static function sameValue($a, $b) {
+        return json_encode($a) === json_encode($b);
+    }
+}
+?>
@@ -1,34 +1,55 @@
 <?php
+require_once __DIR__ . '/../config/database.php';
+require_once __DIR__ . '/../config/jwt.php';
+
 /**
- * Simple authentication middleware without JWT
+ * Bearer token authentication middleware
  */
 class AuthMiddleware {
-    
-    public function __construct() {
-        // Start session if not already started
-        if (session_status() === PHP_SESSION_NONE) {
-            session_start();
-        }
-    }
 
     /**
-     * Simple session-based authentication
+     * Authenticate the request from its JWT and return the current user
+     * The account is re-read so deactivations and role changes apply immediately
      */
     public function authenticate() {
-        if (!isset($_SESSION['user'])) {
+        $header = $_SERVER['HTTP_AUTHORIZATION'] ?? $_SERVER['REDIRECT_HTTP_AUTHORIZATION'] ?? '';
+
+        if (!preg_match('/^Bearer\s+(.+)$/i', $header, $matches)) {
+            http_response_code(401);
+            echo json_encode(['message' => 'No token provided']);
+            exit();
+        }
+
+        $claims = JWT::decode($matches[1]);
+        if (!$claims) {
+            http_response_code(401);
+            echo json_encode(['message' => 'Invalid or expired token']);
+            exit();
+        }
+
+        $database = new Database();
+        $stmt = $database->getConnection()->prepare("SELECT id, username, role, active FROM users WHERE id = ?");
+        $stmt->execute([$claims['sub']]);
+        $user = $stmt->fetch();
+
+        if (!$user || !$user['active']) {
             http_response_code(401);
-            echo json_encode(['message' => 'No session found']);
+            echo json_encode(['message' => 'Account not found or deactivated']);
             exit();
         }
 
-        return $_SESSION['user'];
+        return [
+            'id' => $user['id'],
+            'username' => $user['username'],
+            'role' => $user['role']
+        ];
     }
 
     /**
-     * Check if user has required role
+     * Check if user has the required role (or one of several roles)
      */
     public function requireRole($user, $requiredRole) {
-        if ($user['role'] !== $requiredRole) {
+        if (!in_array($user['role'], (array) $requiredRole, true)) {
             http_response_code(403);
             echo json_encode(['message' => 'Insufficient permissions']);
             exit();
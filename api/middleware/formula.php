@@ -0,0 +1,493 @@
+<?php
+require_once __DIR__ . '/validation.php';
+
+/**
+ * Evaluation of the formulas of `calculated` questions
+ * Mirrors src/utils/formula.ts. The client shows the result as the user types;
+ * the API recomputes it so the stored value can be trusted.
+ * Formulas are parsed into a tree (recursive descent, never eval). Invalid
+ * formulas, cycles and operations on empty answers give an empty value.
+ */
+class FormulaEvaluator {
+    private const DEFAULT_DECIMALS = 2;
+
+    // Multi-character operators first, so `<=` is not read as `<`
+    private const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '=', '+', '-', '*', '/', '%', '^', '!', '(', ')', ','];
+
+    // Binary operators by precedence level (lowest first)
+    private const BINARY_LEVELS = [['||'], ['&&'], ['==', '!=', '<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+    // Accepted number of arguments of each function
+    private const FUNCTIONS = [
+        'sum' => [1, PHP_INT_MAX],
+        'avg' => [1, PHP_INT_MAX],
+        'min' => [1, PHP_INT_MAX],
+        'max' => [1, PHP_INT_MAX],
+        'round' => [1, 2],
+        'floor' => [1, 1],
+        'ceil' => [1, 1],
+        'abs' => [1, 1],
+        'sqrt' => [1, 1],
+        'if' => [3, 3],
+        'coalesce' => [1, PHP_INT_MAX],
+        'days' => [2, 2],
+        'today' => [0, 0]
+    ];
+
+    /**
+     * Answers ([{ questionId, value }]) with the value of every answered calculated
+     * question recomputed from the other answers
+     * @param string $today Date used by today() (yyyy-mm-dd): the capture date of the response
+     */
+    public static function recompute($questions, $responses, $today) {
+        $answers = [];
+        foreach ($responses as $response) {
+            if (isset($response['questionId'])) {
+                $answers[$response['questionId']] = $response['value'] ?? null;
+            }
+        }
+
+        $values = self::computeCalculatedValues($questions, $answers, $today);
+
+        return array_map(function ($response) use ($values) {
+            if (isset($response['questionId']) && array_key_exists($response['questionId'], $values)) {
+                $response['value'] = $values[$response['questionId']];
+            }
+            return $response;
+        }, $responses);
+    }
+
+    /**
+     * Values of all the calculated questions (keyed by question id)
+     */
+    public static function computeCalculatedValues($questions, $answers, $today) {
+        $all = ResponseValidator::flatten($questions);
+
+        $byCode = [];
+        foreach ($all as $question) {
+            $code = strtolower(self::questionCode($question));
+            if ($code !== '') {
+                $byCode[$code] = $question;
+            }
+        }
+
+        $values = [];
+        $state = [];
+
+        $compute = function ($question) use (&$compute, &$values, &$state, $byCode, $answers, $today) {
+            $id = $question['id'];
+            if (($state[$id] ?? null) === 'done') {
+                return $values[$id];
+            }
+            if (($state[$id] ?? null) === 'computing') {
+                return null;
+            }
+            $state[$id] = 'computing';
+
+            $value = null;
+            try {
+                $tree = self::parse((string) ($question['calculation']['expression'] ?? ''));
+                $output = self::evaluate($tree, function ($code) use (&$compute, $byCode, $answers) {
+                    $referenced = $byCode[strtolower($code)] ?? null;
+                    if (!$referenced) {
+                        return null;
+                    }
+                    return ($referenced['type'] ?? '') === 'calculated'
+                        ? $compute($referenced)
+                        : ($answers[$referenced['id']] ?? null);
+                }, $today);
+
+                $number = self::toNumber($output);
+                if ($number !== null) {
+                    $decimals = (int) ($question['calculation']['decimals'] ?? self::DEFAULT_DECIMALS);
+                    $value = round($number, $decimals);
+                }
+            } catch (Exception $e) {
+                $value = null;
+            }
+
+            $values[$id] = $value;
+            $state[$id] = 'done';
+            return $value;
+        };
+
+        foreach ($all as $question) {
+            if (($question['type'] ?? '') === 'calculated') {
+                $compute($question);
+            }
+        }
+
+        return $values;
+    }
+
+    /**
+     * Readable code of a question (mirrors getQuestionCode in src/utils/questionCodes.ts)
+     */
+    private static function questionCode($question) {
+        if (!empty($question['code'])) {
+            return (string) $question['code'];
+        }
+        return preg_match('/^q\d+$/i', $question['id'] ?? '') ? $question['id'] : '';
+    }
+
+    // ======================
+    // Parsing
+    // ======================
+
+    private static function tokenize($expression) {
+        $tokens = [];
+        $length = strlen($expression);
+        $index = 0;
+
+        while ($index < $length) {
+            $char = $expression[$index];
+            $rest = substr($expression, $index);
+
+            if (ctype_space($char)) {
+                $index++;
+                continue;
+            }
+
+            if (preg_match('/^(\d+(\.\d*)?|\.\d+)/', $rest, $match)) {
+                $tokens[] = ['number', $match[0]];
+                $index += strlen($match[0]);
+                continue;
+            }
+
+            if ($char === '"' || $char === "'") {
+                $end = strpos($expression, $char, $index + 1);
+                if ($end === false) {
+                    throw new Exception('Unterminated string');
+                }
+                $tokens[] = ['string', substr($expression, $index + 1, $end - $index - 1)];
+                $index = $end + 1;
+                continue;
+            }
+
+            if ($char === '{') {
+                $end = strpos($expression, '}', $index + 1);
+                $code = $end === false ? '' : trim(substr($expression, $index + 1, $end - $index - 1));
+                if ($code === '') {
+                    throw new Exception('Invalid reference');
+                }
+                $tokens[] = ['reference', $code];
+                $index = $end + 1;
+                continue;
+            }
+
+            if (preg_match('/^[A-Za-z_][A-Za-z0-9_]*/', $rest, $match)) {
+                $tokens[] = ['identifier', $match[0]];
+                $index += strlen($match[0]);
+                continue;
+            }
+
+            $operator = null;
+            foreach (self::OPERATORS as $candidate) {
+                if (strncmp($rest, $candidate, strlen($candidate)) === 0) {
+                    $operator = $candidate;
+                    break;
+                }
+            }
+            if ($operator === null) {
+                throw new Exception('Invalid character');
+            }
+            $tokens[] = ['operator', $operator === '=' ? '==' : $operator];
+            $index += strlen($operator);
+        }
+
+        $tokens[] = ['end', ''];
+        return $tokens;
+    }
+
+    /**
+     * Parse a formula into a tree of nodes
+     * @throws Exception when the formula is not valid
+     */
+    private static function parse($expression) {
+        $tokens = self::tokenize($expression);
+        $index = 0;
+
+        if ($tokens[0][0] === 'end') {
+            throw new Exception('Empty formula');
+        }
+
+        $tree = self::parseBinary($tokens, $index, 0);
+        if ($tokens[$index][0] !== 'end') {
+            throw new Exception('Unexpected token');
+        }
+        return $tree;
+    }
+
+    private static function isOperator($token, $text) {
+        return $token[0] === 'operator' && $token[1] === $text;
+    }
+
+    private static function expect($tokens, &$index, $text) {
+        if (!self::isOperator($tokens[$index], $text)) {
+            throw new Exception('Expected ' . $text);
+        }
+        $index++;
+    }
+
+    private static function parseBinary($tokens, &$index, $level) {
+        if ($level === count(self::BINARY_LEVELS)) {
+            return self::parseUnary($tokens, $index);
+        }
+
+        $left = self::parseBinary($tokens, $index, $level + 1);
+        while ($tokens[$index][0] === 'operator' && in_array($tokens[$index][1], self::BINARY_LEVELS[$level], true)) {
+            $operator = $tokens[$index++][1];
+            $left = ['binary', $operator, $left, self::parseBinary($tokens, $index, $level + 1)];
+        }
+        return $left;
+    }
+
+    private static function parseUnary($tokens, &$index) {
+        $token = $tokens[$index];
+        if ($token[0] === 'operator' && in_array($token[1], ['-', '+', '!'], true)) {
+            $index++;
+            return ['unary', $token[1], self::parseUnary($tokens, $index)];
+        }
+
+        // Power is right-associative: 2^3^2 = 2^(3^2)
+        $base = self::parsePrimary($tokens, $index);
+        if (self::isOperator($tokens[$index], '^')) {
+            $index++;
+            return ['binary', '^', $base, self::parseUnary($tokens, $index)];
+        }
+        return $base;
+    }
+
+    private static function parsePrimary($tokens, &$index) {
+        [$kind, $text] = $tokens[$index++];
+
+        switch ($kind) {
+            case 'number':
+                return ['number', (float) $text];
+            case 'string':
+                return ['string', $text];
+            case 'reference':
+                return ['reference', $text];
+            case 'identifier':
+                $name = strtolower($text);
+                if (!isset(self::FUNCTIONS[$name])) {
+                    throw new Exception('Unknown function ' . $text);
+                }
+
+                self::expect($tokens, $index, '(');
+                $args = [];
+                if (!self::isOperator($tokens[$index], ')')) {
+                    $args[] = self::parseBinary($tokens, $index, 0);
+                    while (self::isOperator($tokens[$index], ',')) {
+                        $index++;
+                        $args[] = self::parseBinary($tokens, $index, 0);
+                    }
+                }
+                self::expect($tokens, $index, ')');
+
+                [$minArgs, $maxArgs] = self::FUNCTIONS[$name];
+                if (count($args) < $minArgs || count($args) > $maxArgs) {
+                    throw new Exception('Invalid number of arguments for ' . $name);
+                }
+                return ['call', $name, $args];
+            case 'operator':
+                if ($text === '(') {
+                    $inner = self::parseBinary($tokens, $index, 0);
+                    self::expect($tokens, $index, ')');
+                    return $inner;
+                }
+                throw new Exception('Unexpected operator ' . $text);
+            default:
+                throw new Exception('Incomplete formula');
+        }
+    }
+
+    // ======================
+    // Evaluation
+    // ======================
+
+    private static function toNumber($value) {
+        if ($value === null || $value === '') {
+            return null;
+        }
+        if (is_int($value) || is_float($value)) {
+            return is_finite($value) ? (float) $value : null;
+        }
+        $text = trim((string) $value);
+        return is_numeric($text) ? (float) $text : ($text === '' ? 0.0 : null);
+    }
+
+    /**
+     * Days since the epoch of a yyyy-mm-dd date (null when it is not a date)
+     */
+    private static function toDay($value) {
+        if ($value === null) {
+            return null;
+        }
+        $date = DateTime::createFromFormat('!Y-m-d', substr((string) $value, 0, 10), new DateTimeZone('UTC'));
+        return $date ? (int) floor($date->getTimestamp() / 86400) : null;
+    }
+
+    private static function isTruthy($value) {
+        return $value !== null && $value !== '' && !((is_int($value) || is_float($value)) && $value == 0);
+    }
+
+    /**
+     * Value of an answer inside a formula: numbers as they are, yes/no as 1/0,
+     * dates as text and multiple choices as the number of chosen options
+     */
+    private static function toFormulaValue($answer) {
+        if (ResponseValidator::isEmpty($answer)) {
+            return null;
+        }
+        if (is_int($answer) || is_float($answer)) {
+            return (float) $answer;
+        }
+        if (is_bool($answer)) {
+            return $answer ? 1.0 : 0.0;
+        }
+        if (is_array($answer)) {
+            return array_values($answer) === $answer ? (float) count($answer) : null;
+        }
+        if (is_string($answer)) {
+            return trim($answer) !== '' && is_numeric(trim($answer)) ? (float) trim($answer) : $answer;
+        }
+        return null;
+    }
+
+    private static function numbersOf($values) {
+        return array_values(array_filter(array_map([self::class, 'toNumber'], $values), function ($value) {
+            return $value !== null;
+        }));
+    }
+
+    private static function call($name, $args, $today) {
+        switch ($name) {
+            case 'sum':
+                $numbers = self::numbersOf($args);
+                return $numbers ? array_sum($numbers) : null;
+            case 'avg':
+                $numbers = self::numbersOf($args);
+                return $numbers ? array_sum($numbers) / count($numbers) : null;
+            case 'min':
+                $numbers = self::numbersOf($args);
+                return $numbers ? min($numbers) : null;
+            case 'max':
+                $numbers = self::numbersOf($args);
+                return $numbers ? max($numbers) : null;
+            case 'round':
+                $number = self::toNumber($args[0]);
+                if ($number === null) {
+                    return null;
+                }
+                $factor = pow(10, self::toNumber($args[1] ?? 0) ?? 0);
+                // Same as Math.round: halves round up, also for negative numbers
+                return floor($number * $factor + 0.5) / $factor;
+            case 'floor':
+            case 'ceil':
+            case 'abs':
+                $number = self::toNumber($args[0]);
+                return $number === null ? null : $name($number);
+            case 'sqrt':
+                $number = self::toNumber($args[0]);
+                return $number === null || $number < 0 ? null : sqrt($number);
+            case 'if':
+                return self::isTruthy($args[0]) ? $args[1] : $args[2];
+            case 'coalesce':
+                foreach ($args as $value) {
+                    if ($value !== null && $value !== '') {
+                        return $value;
+                    }
+                }
+                return null;
+            case 'days':
+                $start = self::toDay($args[0]);
+                $end = self::toDay($args[1]);
+                return $start === null || $end === null ? null : (float) ($end - $start);
+            case 'today':
+                return $today;
+            default:
+                return null;
+        }
+    }
+
+    private static function compare($operator, $left, $right) {
+        if ($left === null || $right === null) {
+            return null;
+        }
+
+        $a = self::toNumber($left);
+        $b = self::toNumber($right);
+        if ($a !== null && $b !== null) {
+            $order = $a <=> $b;
+        } else {
+            $order = strcmp((string) $left, (string) $right) <=> 0;
+        }
+
+        switch ($operator) {
+            case '==': return $order === 0 ? 1.0 : 0.0;
+            case '!=': return $order !== 0 ? 1.0 : 0.0;
+            case '<': return $order < 0 ? 1.0 : 0.0;
+            case '<=': return $order <= 0 ? 1.0 : 0.0;
+            case '>': return $order > 0 ? 1.0 : 0.0;
+            default: return $order >= 0 ? 1.0 : 0.0;
+        }
+    }
+
+    private static function evaluate($node, $resolve, $today) {
+        switch ($node[0]) {
+            case 'number':
+            case 'string':
+                return $node[1];
+
+            case 'reference':
+                return self::toFormulaValue($resolve($node[1]));
+
+            case 'unary':
+                $operand = self::evaluate($node[2], $resolve, $today);
+                if ($node[1] === '!') {
+                    return self::isTruthy($operand) ? 0.0 : 1.0;
+                }
+                $number = self::toNumber($operand);
+                return $number === null ? null : ($node[1] === '-' ? -$number : $number);
+
+            case 'call':
+                $args = array_map(function ($arg) use ($resolve, $today) {
+                    return self::evaluate($arg, $resolve, $today);
+                }, $node[2]);
+                return self::call($node[1], $args, $today);
+
+            default:
+                [, $operator, $leftNode, $rightNode] = $node;
+                $left = self::evaluate($leftNode, $resolve, $today);
+                $right = self::evaluate($rightNode, $resolve, $today);
+
+                if ($operator === '&&') {
+                    return self::isTruthy($left) && self::isTruthy($right) ? 1.0 : 0.0;
+                }
+                if ($operator === '||') {
+                    return self::isTruthy($left) || self::isTruthy($right) ? 1.0 : 0.0;
+                }
+                if (in_array($operator, ['==', '!=', '<', '<=', '>', '>='], true)) {
+                    return self::compare($operator, $left, $right);
+                }
+
+                $a = self::toNumber($left);
+                $b = self::toNumber($right);
+                if ($a === null || $b === null) {
+                    return null;
+                }
+
+                switch ($operator) {
+                    case '+': $result = $a + $b; break;
+                    case '-': $result = $a - $b; break;
+                    case '*': $result = $a * $b; break;
+                    case '/': $result = $b == 0 ? NAN : $a / $b; break;
+                    case '%': $result = $b == 0 ? NAN : fmod($a, $b); break;
+                    default: $result = pow($a, $b);
+                }
+                return is_finite($result) ? $result : null;
+        }
+    }
+}
+?>
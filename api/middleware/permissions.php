@@ -0,0 +1,184 @@
+<?php
+/**
+ * Per-form permission model
+ * Mirrors src/utils/permissions.ts: a user's effective permissions on a form are the
+ * permissions shared with them (or all of them for admins and the form creator),
+ * capped by what their role allows.
+ */
+class FormPermissions {
+    private $db;
+
+    const ALL = ['edit', 'fill', 'view_responses', 'edit_responses'];
+
+    const ROLE_PERMISSIONS = [
+        'admin' => self::ALL,
+        'editor' => self::ALL,
+        'analyst' => ['fill', 'view_responses'],
+        'respondent' => ['fill']
+    ];
+
+    public function __construct($db) {
+        $this->db = $db;
+    }
+
+    /**
+     * Check if the user may create new forms
+     */
+    public static function canCreateForms($user) {
+        return in_array($user['role'], ['admin', 'editor'], true);
+    }
+
+    /**
+     * Check if the user may delete the form and manage who it is shared with
+     */
+    public static function canManage($user, $form) {
+        return $user['role'] === 'admin' || $form['created_by'] === $user['id'];
+    }
+
+    /**
+     * Effective permissions of the user on a form row (null form = no access)
+     * @param array|null $shares Shares of the form already loaded (see getSharesByForm)
+     */
+    public function getPermissions($user, $form, $shares = null) {
+        if (!$form) {
+            return [];
+        }
+
+        $allowed = self::ROLE_PERMISSIONS[$user['role']] ?? [];
+
+        if (self::canManage($user, $form)) {
+            return $allowed;
+        }
+
+        if ($shares !== null) {
+            $granted = [];
+            foreach ($shares as $share) {
+                if ($share['userId'] === $user['id']) {
+                    $granted = $share['permissions'];
+                }
+            }
+        } else {
+            $stmt = $this->db->prepare("SELECT permission FROM form_permissions WHERE form_id = ? AND user_id = ?");
+            $stmt->execute([$form['id'], $user['id']]);
+            $granted = $stmt->fetchAll(PDO::FETCH_COLUMN);
+        }
+
+        return array_values(array_intersect($granted, $allowed));
+    }
+
+    /**
+     * Check a single permission on a form by id
+     */
+    public function can($user, $formId, $permission) {
+        return in_array($permission, $this->getPermissions($user, $this->findForm($formId)), true);
+    }
+
+    /**
+     * Stop the request with 403 (or 404 if the form does not exist) unless the user has the permission
+     */
+    public function requirePermission($user, $formId, $permission) {
+        $form = $this->findForm($formId);
+
+        if (!$form) {
+            http_response_code(404);
+            echo json_encode(['message' => 'Form not found']);
+            exit();
+        }
+
+        if (!in_array($permission, $this->getPermissions($user, $form), true)) {
+            http_response_code(403);
+            echo json_encode(['message' => 'Insufficient permissions']);
+            exit();
+        }
+    }
+
+    /**
+     * Shares of a form, grouped by user
+     */
+    public function getShares($formId) {
+        return $this->getSharesByForm([$formId])[$formId] ?? [];
+    }
+
+    /**
+     * Shares of several forms in a single query, keyed by form id
+     * (forms without shares are missing from the result)
+     */
+    public function getSharesByForm($formIds) {
+        if (empty($formIds)) {
+            return [];
+        }
+
+        $placeholders = implode(',', array_fill(0, count($formIds), '?'));
+        $stmt = $this->db->prepare("
+            SELECT fp.form_id, fp.user_id, u.username, fp.permission
+            FROM form_permissions fp
+            JOIN users u ON fp.user_id = u.id
+            WHERE fp.form_id IN ($placeholders)
+            ORDER BY u.username
+        ");
+        $stmt->execute(array_values($formIds));
+
+        $shares = [];
+        foreach ($stmt->fetchAll() as $row) {
+            $formId = $row['form_id'];
+            if (!isset($shares[$formId][$row['user_id']])) {
+                $shares[$formId][$row['user_id']] = [
+                    'userId' => $row['user_id'],
+                    'username' => $row['username'],
+                    'permissions' => []
+                ];
+            }
+            $shares[$formId][$row['user_id']]['permissions'][] = $row['permission'];
+        }
+
+        return array_map('array_values', $shares);
+    }
+
+    /**
+     * User ids of a list of shares that do not belong to any user
+     */
+    public function unknownUserIds($shares) {
+        $userIds = array_values(array_unique(array_map(function ($share) {
+            return (string) ($share['userId'] ?? '');
+        }, $shares)));
+        if (empty($userIds)) {
+            return [];
+        }
+
+        $placeholders = implode(',', array_fill(0, count($userIds), '?'));
+        $stmt = $this->db->prepare("SELECT id FROM users WHERE id IN ($placeholders)");
+        $stmt->execute($userIds);
+
+        return array_values(array_diff($userIds, $stmt->fetchAll(PDO::FETCH_COLUMN)));
+    }
+
+    /**
+     * Replace all shares of a form
+     * The users must exist (see unknownUserIds); shares of unknown users are skipped.
+     */
+    public function setShares($formId, $shares) {
+        $stmt = $this->db->prepare("DELETE FROM form_permissions WHERE form_id = ?");
+        $stmt->execute([$formId]);
+
+        $unknown = $this->unknownUserIds($shares);
+        $insert = $this->db->prepare("INSERT INTO form_permissions (form_id, user_id, permission) VALUES (?, ?, ?)");
+
+        foreach ($shares as $share) {
+            if (in_array((string) $share['userId'], $unknown, true)) {
+                continue;
+            }
+            foreach (array_unique($share['permissions'] ?? []) as $permission) {
+                if (in_array($permission, self::ALL, true)) {
+                    $insert->execute([$formId, $share['userId'], $permission]);
+                }
+            }
+        }
+    }
+
+    private function findForm($formId) {
+        $stmt = $this->db->prepare("SELECT id, created_by FROM forms WHERE id = ?");
+        $stmt->execute([$formId]);
+        return $stmt->fetch();
+    }
+}
+?>
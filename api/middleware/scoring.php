@@ -0,0 +1,114 @@
+<?php
+require_once __DIR__ . '/validation.php';
+
+/**
+ * Score of a response to a scored form (quiz)
+ * Mirrors src/utils/scoring.ts. The client shows the score as soon as the
+ * response is submitted; the API recomputes it so the stored score can be trusted.
+ */
+class ResponseScorer {
+    private static $scorableTypes = ['select', 'multiselect', 'boolean'];
+
+    /**
+     * Score a list of answers ([{ questionId, value }])
+     * Only answered questions and questions that are always shown
+     * (see ResponseValidator::alwaysShownIds) count towards the maximum.
+     * @return array|null ['score' => float, 'maxScore' => float, 'passed' => bool|null],
+     *                    or null when no question is scored
+     */
+    public static function score($questions, $responses, $passMark = null) {
+        $answers = [];
+        foreach ($responses as $response) {
+            if (isset($response['questionId'])) {
+                $answers[$response['questionId']] = $response['value'] ?? null;
+            }
+        }
+
+        $scored = array_filter(ResponseValidator::flatten($questions), [self::class, 'isScored']);
+        if (empty($scored)) {
+            return null;
+        }
+
+        $alwaysShown = ResponseValidator::alwaysShownIds($questions);
+        $points = 0;
+        $maxPoints = 0;
+        foreach ($scored as $question) {
+            $value = $answers[$question['id']] ?? null;
+            if (ResponseValidator::isEmpty($value) && !isset($alwaysShown[$question['id']])) {
+                continue;
+            }
+
+            $points += self::questionPoints($question, $value);
+            $maxPoints += self::maxPoints($question);
+        }
+
+        $points = round($points, 2);
+        $maxPoints = round($maxPoints, 2);
+        $percentage = $maxPoints > 0 ? $points / $maxPoints * 100 : 0;
+
+        return [
+            'score' => $points,
+            'maxScore' => $maxPoints,
+            'passed' => $passMark === null ? null : $percentage >= $passMark
+        ];
+    }
+
+    private static function isScored($question) {
+        if (!in_array($question['type'] ?? '', self::$scorableTypes, true) || empty($question['scoring'])) {
+            return false;
+        }
+
+        $nonZero = array_filter($question['scoring']['points'] ?? [], function ($points) {
+            return (float) $points != 0;
+        });
+        return !empty($nonZero) || !empty($question['scoring']['correct']);
+    }
+
+    /**
+     * Scoring keys of a question: option ids, or 'true'/'false' for yes/no questions
+     */
+    private static function keys($question) {
+        if ($question['type'] === 'boolean') {
+            return ['true', 'false'];
+        }
+        return array_map(function ($option) {
+            return $option['id'];
+        }, $question['options'] ?? []);
+    }
+
+    /**
+     * Best option, or the sum of the positive options for multiple choice
+     */
+    private static function maxPoints($question) {
+        $points = array_map(function ($key) use ($question) {
+            return (float) ($question['scoring']['points'][$key] ?? 0);
+        }, self::keys($question));
+
+        if ($question['type'] === 'multiselect') {
+            return array_sum(array_filter($points, function ($value) {
+                return $value > 0;
+            }));
+        }
+        return max(array_merge([0], $points));
+    }
+
+    /**
+     * Points of the chosen options (never negative)
+     */
+    private static function questionPoints($question, $value) {
+        if (is_bool($value)) {
+            $chosen = [$value ? 'true' : 'false'];
+        } elseif (is_array($value)) {
+            $chosen = array_map('strval', $value);
+        } else {
+            $chosen = ResponseValidator::isEmpty($value) ? [] : [(string) $value];
+        }
+
+        $points = 0;
+        foreach ($chosen as $key) {
+            $points += (float) ($question['scoring']['points'][$key] ?? 0);
+        }
+        return max(0, $points);
+    }
+}
+?>
@@ -0,0 +1,299 @@
+<?php
+require_once __DIR__ . '/../config/uploads.php';
+require_once __DIR__ . '/visibility.php';
+
+/**
+ * Server-side re-check of per-question validation rules
+ * Mirrors src/utils/questionValidation.ts: the client validates as the user
+ * types, the API re-validates whatever is stored.
+ */
+class ResponseValidator {
+    private $db;
+
+    public function __construct($db) {
+        $this->db = $db;
+    }
+
+    /**
+     * Questions of the form as they were in the given version
+     * (the saved snapshot, or the current definition if there is none)
+     */
+    public function getQuestions($formId, $formVersion) {
+        return $this->getDefinition($formId, $formVersion)['questions'];
+    }
+
+    /**
+     * Questions and pass mark of the form as they were in the given version
+     * @return array ['questions' => array, 'passMark' => float|null]
+     */
+    public function getDefinition($formId, $formVersion) {
+        $stmt = $this->db->prepare("SELECT questions, pass_mark FROM form_versions WHERE form_id = ? AND version = ?");
+        $stmt->execute([$formId, (int) $formVersion]);
+        $snapshot = $stmt->fetch();
+
+        if (!$snapshot) {
+            $stmt = $this->db->prepare("SELECT questions, pass_mark FROM forms WHERE id = ?");
+            $stmt->execute([$formId]);
+            $snapshot = $stmt->fetch();
+        }
+
+        return [
+            'questions' => $snapshot ? (json_decode($snapshot['questions'], true) ?: []) : [],
+            'passMark' => $snapshot && $snapshot['pass_mark'] !== null ? (float) $snapshot['pass_mark'] : null
+        ];
+    }
+
+    /**
+     * Validate a list of answers ([{ questionId, value }]) against the questions
+     * Rules are checked on every non-empty answer. `required` is enforced for the
+     * questions visible with these answers (see QuestionVisibility::visibleIds), since
+     * hidden questions are never asked and their answers are dropped by the client.
+     * @return array Error messages keyed by question id (empty when valid)
+     */
+    public function validate($questions, $responses) {
+        $answers = [];
+        foreach ($responses as $response) {
+            if (isset($response['questionId'])) {
+                $answers[$response['questionId']] = $response['value'] ?? null;
+            }
+        }
+
+        $errors = [];
+        $visible = QuestionVisibility::visibleIds($questions, $answers);
+        foreach (self::flatten($questions) as $question) {
+            $id = $question['id'] ?? null;
+            if (!$id || ($question['type'] ?? '') === 'section') {
+                continue;
+            }
+
+            $value = $answers[$id] ?? null;
+
+            if (self::isEmpty($value)) {
+                if (!empty($question['required']) && isset($visible[$id])) {
+                    $errors[$id] = 'This field is required';
+                }
+                continue;
+            }
+
+            $error = ($question['type'] ?? '') === 'file'
+                ? $this->checkFiles($question, $value)
+                : self::checkRules($question, $value);
+            if ($error) {
+                $errors[$id] = $error;
+            }
+        }
+
+        return $errors;
+    }
+
+    private static function checkRules($question, $value) {
+        $rules = $question['validation'] ?? [];
+        $custom = $rules['message'] ?? null;
+
+        switch ($question['type'] ?? '') {
+            case 'number':
+                if (!is_numeric($value)) {
+                    return 'Invalid number';
+                }
+                if (isset($rules['min']) && $value < $rules['min']) {
+                    return $custom ?: 'Value below ' . $rules['min'];
+                }
+                if (isset($rules['max']) && $value > $rules['max']) {
+                    return $custom ?: 'Value above ' . $rules['max'];
+                }
+                break;
+
+            case 'text':
+            case 'textarea':
+                $length = mb_strlen((string) $value);
+                if (isset($rules['minLength']) && $length < $rules['minLength']) {
+                    return $custom ?: 'Shorter than ' . $rules['minLength'] . ' characters';
+                }
+                if (isset($rules['maxLength']) && $length > $rules['maxLength']) {
+                    return $custom ?: 'Longer than ' . $rules['maxLength'] . ' characters';
+                }
+                if (!empty($rules['pattern'])) {
+                    $regex = '/' . str_replace('/', '\/', $rules['pattern']) . '/u';
+                    // Patterns PCRE cannot compile are ignored, as in the browser
+                    if (@preg_match($regex, (string) $value) === 0) {
+                        return $custom ?: 'Invalid format';
+                    }
+                }
+                break;
+
+            case 'email':
+                if (!preg_match('/^[^\s@]+@[^\s@]+\.[^\s@]+$/', trim((string) $value))) {
+                    return 'Invalid email address';
+                }
+                break;
+
+            case 'phone':
+                $phone = trim((string) $value);
+                $digits = strlen(preg_replace('/\D/', '', $phone));
+                if (!preg_match('/^\+?[\d\s().-]+$/', $phone) || $digits < 7 || $digits > 15) {
+                    return 'Invalid phone number';
+                }
+                break;
+
+            case 'url':
+                $scheme = strtolower((string) parse_url(trim((string) $value), PHP_URL_SCHEME));
+                if (!filter_var(trim((string) $value), FILTER_VALIDATE_URL) || !in_array($scheme, ['http', 'https'], true)) {
+                    return 'Invalid URL';
+                }
+                break;
+
+            case 'rating':
+                $max = (int) ($question['rating']['max'] ?? 5);
+                if (!is_numeric($value) || (float) $value != (int) $value || $value < 1 || $value > $max) {
+                    return 'Rating must be between 1 and ' . $max;
+                }
+                break;
+
+            case 'calculated':
+                // Recomputed by the API before validating (see FormulaEvaluator::recompute)
+                if (!is_numeric($value)) {
+                    return 'Calculated value must be a number';
+                }
+                break;
+
+            case 'signature':
+                // PNG image as a data URL, same size limit as the client
+                $prefix = 'data:image/png;base64,';
+                if (!is_string($value) || strpos($value, $prefix) !== 0 || strlen($value) > 300 * 1024) {
+                    return 'Invalid signature';
+                }
+                $image = base64_decode(substr($value, strlen($prefix)), true);
+                if ($image === false || strncmp($image, "\x89PNG\r\n\x1a\n", 8) !== 0) {
+                    return 'Invalid signature';
+                }
+                break;
+
+            case 'location':
+                $latitude = is_array($value) ? ($value['latitude'] ?? null) : null;
+                $longitude = is_array($value) ? ($value['longitude'] ?? null) : null;
+                if (!is_numeric($latitude) || !is_numeric($longitude)
+                    || abs($latitude) > 90 || abs($longitude) > 180) {
+                    return 'Invalid coordinates';
+                }
+                break;
+
+            case 'matrix':
+                $rowIds = array_column($question['matrix']['rows'] ?? [], 'id');
+                $columnIds = array_column($question['matrix']['columns'] ?? [], 'id');
+                $multiple = !empty($question['matrix']['multiple']);
+                if (!is_array($value)) {
+                    return 'Invalid matrix answer';
+                }
+                foreach ($value as $rowId => $selected) {
+                    $selected = $multiple && is_array($selected) ? $selected : [$selected];
+                    if (!in_array($rowId, $rowIds, true) || array_diff($selected, $columnIds)) {
+                        return 'Invalid matrix answer';
+                    }
+                }
+                // Required matrices need an answer in every row
+                if (!empty($question['required']) && array_diff($rowIds, array_keys(array_filter($value)))) {
+                    return 'Every row must be answered';
+                }
+                break;
+
+            case 'date':
+                if (!empty($rules['minDate']) && (string) $value < $rules['minDate']) {
+                    return $custom ?: 'Date before ' . $rules['minDate'];
+                }
+                if (!empty($rules['maxDate']) && (string) $value > $rules['maxDate']) {
+                    return $custom ?: 'Date after ' . $rules['maxDate'];
+                }
+                break;
+
+            case 'multiselect':
+                $count = is_array($value) ? count($value) : 0;
+                if (isset($rules['minSelections']) && $count < $rules['minSelections']) {
+                    return $custom ?: 'Fewer than ' . $rules['minSelections'] . ' options selected';
+                }
+                if (isset($rules['maxSelections']) && $count > $rules['maxSelections']) {
+                    return $custom ?: 'More than ' . $rules['maxSelections'] . ' options selected';
+                }
+                break;
+        }
+
+        return null;
+    }
+
+    /**
+     * Attachments must have been uploaded for this question (their links are signed
+     * again on every read, so the link sent by the client is not checked)
+     */
+    private function checkFiles($question, $value) {
+        if (!is_array($value) || array_values($value) !== $value) {
+            return 'Invalid file list';
+        }
+
+        $maxFiles = (int) ($question['file']['maxFiles'] ?? 5);
+        if (count($value) > $maxFiles) {
+            return 'More than ' . $maxFiles . ' files attached';
+        }
+
+        $ids = [];
+        foreach ($value as $attachment) {
+            $id = is_array($attachment) ? ($attachment['id'] ?? null) : null;
+            if (!is_string($id) || !empty($attachment['pending']) || empty($attachment['url'])) {
+                return 'Files must be uploaded before saving';
+            }
+            $ids[] = $id;
+        }
+
+        $placeholders = implode(',', array_fill(0, count($ids), '?'));
+        $stmt = $this->db->prepare("SELECT COUNT(*) FROM files WHERE question_id = ? AND id IN ($placeholders)");
+        $stmt->execute(array_merge([$question['id']], $ids));
+
+        return (int) $stmt->fetchColumn() === count(array_unique($ids)) ? null : 'Unknown file';
+    }
+
+    /**
+     * Ids (as keys) of the questions shown whatever the answers: main questions
+     * without a visibility rule, in a section (page) without a visibility rule.
+     * Mirrors getAlwaysShownIds in src/utils/conditionalLogic.ts.
+     */
+    public static function alwaysShownIds($questions) {
+        $ids = [];
+        $sectionHasRule = false;
+
+        foreach (self::flatten($questions) as $question) {
+            if (!empty($question['parentId'])) {
+                continue;
+            }
+            if (($question['type'] ?? '') === 'section') {
+                $sectionHasRule = !empty($question['visibility']);
+            } elseif (empty($question['visibility']) && !$sectionHasRule && isset($question['id'])) {
+                $ids[$question['id']] = true;
+            }
+        }
+
+        return $ids;
+    }
+
+    /**
+     * Questions including the sub-questions nested in options (older definitions)
+     */
+    public static function flatten($questions) {
+        $flat = [];
+        foreach ($questions as $question) {
+            $flat[] = $question;
+            foreach ($question['options'] ?? [] as $option) {
+                foreach (self::flatten($option['subQuestions'] ?? []) as $subQuestion) {
+                    if (empty($subQuestion['parentId'])) {
+                        $subQuestion['parentId'] = $question['id'];
+                        $subQuestion['parentOptionId'] = $option['id'] ?? null;
+                    }
+                    $flat[] = $subQuestion;
+                }
+            }
+        }
+        return $flat;
+    }
+
+    public static function isEmpty($value) {
+        return $value === null || $value === '' || (is_array($value) && count($value) === 0);
+    }
+}
+?>
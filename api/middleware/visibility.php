@@ -0,0 +1,219 @@
+<?php
+require_once __DIR__ . '/validation.php';
+
+/**
+ * Visibility of questions for a set of answers (conditional logic)
+ * Mirrors getVisibleQuestionIds in src/utils/conditionalLogic.ts. The client
+ * only asks the visible questions; the API needs the same set to enforce
+ * `required` on every question the user was shown.
+ */
+class QuestionVisibility {
+    /**
+     * Ids (as keys) of the visible questions
+     * A question is visible when its parent is visible and has the option it depends
+     * on selected, its section (page) is visible and its visibility rule (if any) holds.
+     * Answers to hidden questions count as empty in conditions; circular
+     * dependencies hide the questions involved.
+     * @param array $answers Values keyed by question id
+     */
+    public static function visibleIds($questions, $answers) {
+        $byId = [];
+        foreach (ResponseValidator::flatten($questions) as $question) {
+            if (isset($question['id']) && !isset($byId[$question['id']])) {
+                $byId[$question['id']] = $question;
+            }
+        }
+
+        // Section each main question belongs to (the last section before it)
+        $sectionOf = [];
+        $sectionId = null;
+        foreach ($byId as $id => $question) {
+            if (!empty($question['parentId'])) {
+                continue;
+            }
+            if (($question['type'] ?? '') === 'section') {
+                $sectionId = $id;
+            } elseif ($sectionId !== null) {
+                $sectionOf[$id] = $sectionId;
+            }
+        }
+
+        $memo = [];
+        $evaluating = [];
+
+        $isVisible = function ($id) use (&$isVisible, &$memo, &$evaluating, $byId, $sectionOf, $answers) {
+            if (array_key_exists($id, $memo)) {
+                return $memo[$id];
+            }
+            if (!isset($byId[$id]) || isset($evaluating[$id])) {
+                return false;
+            }
+
+            $getAnswer = function ($questionId) use ($isVisible, $answers) {
+                return $isVisible($questionId) ? ($answers[$questionId] ?? null) : null;
+            };
+
+            $evaluating[$id] = true;
+            $question = $byId[$id];
+            $visible = true;
+
+            $parentId = $question['parentId'] ?? null;
+            if ($parentId && isset($byId[$parentId])) {
+                $optionId = $question['parentOptionId'] ?? null;
+                $parentAnswer = $getAnswer($parentId);
+                if ($optionId) {
+                    $visible = self::isList($parentAnswer)
+                        ? in_array($optionId, $parentAnswer, true)
+                        : $parentAnswer === $optionId;
+                } else {
+                    $visible = $isVisible($parentId);
+                }
+            } elseif (isset($sectionOf[$id])) {
+                // Skipping a page skips all its questions
+                $visible = $isVisible($sectionOf[$id]);
+            }
+
+            $rule = $question['visibility'] ?? null;
+            if ($visible && is_array($rule)) {
+                $matches = self::evaluateGroup($rule['when'] ?? [], $getAnswer);
+                $visible = ($rule['action'] ?? 'show') === 'hide' ? !$matches : $matches;
+            }
+
+            unset($evaluating[$id]);
+            $memo[$id] = $visible;
+            return $visible;
+        };
+
+        $ids = [];
+        foreach (array_keys($byId) as $id) {
+            if ($isVisible($id)) {
+                $ids[$id] = true;
+            }
+        }
+        return $ids;
+    }
+
+    /**
+     * Evaluate a group of conditions (nested to any depth); an empty group is true
+     */
+    private static function evaluateGroup($group, $getAnswer) {
+        $conditions = $group['conditions'] ?? [];
+        if (empty($conditions)) {
+            return true;
+        }
+
+        $results = array_map(function ($item) use ($getAnswer) {
+            return isset($item['combinator'])
+                ? self::evaluateGroup($item, $getAnswer)
+                : self::evaluateCondition($item, $getAnswer($item['questionId'] ?? ''));
+        }, $conditions);
+
+        return ($group['combinator'] ?? 'and') === 'or'
+            ? in_array(true, $results, true)
+            : !in_array(false, $results, true);
+    }
+
+    private static function evaluateCondition($condition, $answer) {
+        $expected = $condition['value'] ?? null;
+
+        switch ($condition['operator'] ?? '') {
+            case 'is_empty':
+                return self::isEmptyAnswer($answer);
+            case 'is_not_empty':
+                return !self::isEmptyAnswer($answer);
+            case 'is_true':
+                return $answer === true;
+            case 'is_false':
+                return $answer === false;
+            case 'equals':
+                if (self::isList($answer)) {
+                    return count($answer) === 1 && $answer[0] === $expected;
+                }
+                if (is_int($answer) || is_float($answer) || is_int($expected) || is_float($expected)) {
+                    return self::compareNumbers($answer, $expected, function ($a, $b) { return $a == $b; });
+                }
+                return !self::isEmptyAnswer($answer) && self::toText($answer) === self::toText($expected);
+            case 'not_equals':
+                return !self::evaluateCondition(['operator' => 'equals'] + $condition, $answer);
+            case 'contains':
+                if (self::isList($answer)) {
+                    return in_array(self::toText($expected), $answer, true);
+                }
+                return !self::isEmptyAnswer($answer)
+                    && mb_strpos(mb_strtolower(self::toText($answer)), mb_strtolower(self::toText($expected))) !== false;
+            case 'not_contains':
+                return !self::evaluateCondition(['operator' => 'contains'] + $condition, $answer);
+            case 'greater_than':
+                return self::compareNumbers($answer, $expected, function ($a, $b) { return $a > $b; });
+            case 'greater_or_equal':
+                return self::compareNumbers($answer, $expected, function ($a, $b) { return $a >= $b; });
+            case 'less_than':
+                return self::compareNumbers($answer, $expected, function ($a, $b) { return $a < $b; });
+            case 'less_or_equal':
+                return self::compareNumbers($answer, $expected, function ($a, $b) { return $a <= $b; });
+            case 'before':
+                return self::compareDates($answer, $expected, function ($a, $b) { return $a < $b; });
+            case 'after':
+                return self::compareDates($answer, $expected, function ($a, $b) { return $a > $b; });
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Empty answer, including matrices and locations with no field answered
+     */
+    private static function isEmptyAnswer($value) {
+        if ($value === null || $value === '' || $value === []) {
+            return true;
+        }
+        if (is_array($value) && !self::isList($value)) {
+            foreach ($value as $field) {
+                if (!self::isEmptyAnswer($field)) {
+                    return false;
+                }
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * JSON array (as opposed to an object such as a matrix or location answer)
+     */
+    private static function isList($value) {
+        return is_array($value) && array_values($value) === $value;
+    }
+
+    // Same text as String() in JavaScript for scalar answers
+    private static function toText($value) {
+        if (is_bool($value)) {
+            return $value ? 'true' : 'false';
+        }
+        return $value === null ? '' : (string) $value;
+    }
+
+    // Leading number of the value, as parseFloat() does; null when there is none
+    private static function toNumber($value) {
+        if (is_int($value) || is_float($value)) {
+            return (float) $value;
+        }
+        if (is_string($value) && preg_match('/^\s*[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i', $value, $match)) {
+            return (float) $match[0];
+        }
+        return null;
+    }
+
+    private static function compareNumbers($answer, $expected, $test) {
+        $a = self::toNumber($answer);
+        $b = self::toNumber($expected);
+        return $a !== null && $b !== null && $test($a, $b);
+    }
+
+    private static function compareDates($answer, $expected, $test) {
+        $a = is_string($answer) ? strtotime($answer) : false;
+        $b = is_string($expected) ? strtotime($expected) : false;
+        return $a !== false && $b !== false && $test($a, $b);
+    }
+}
+?>
@@ -0,0 +1,144 @@
+<?php
+require_once __DIR__ . '/../config/database.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../middleware/permissions.php';
+
+/**
+ * Audit log routes
+ */
+class AuditRoutes {
+    private $db;
+    private $auth;
+    private $permissions;
+
+    private const MAX_EVENTS = 1000;
+
+    public function __construct() {
+        $database = new Database();
+        $this->db = $database->getConnection();
+        $this->auth = new AuthMiddleware();
+        $this->permissions = new FormPermissions($this->db);
+    }
+
+    /**
+     * Handle audit routes
+     */
+    public function handleRequest($method, $path, $responseId = null) {
+        $user = $this->auth->authenticate();
+
+        if ($method !== 'GET') {
+            http_response_code(405);
+            echo json_encode(['message' => 'Method not allowed']);
+            return;
+        }
+
+        if ($path === '/response-history' && $responseId) {
+            $this->getResponseHistory($responseId, $user);
+        } else {
+            $this->auth->requireRole($user, 'admin');
+            $this->getEvents();
+        }
+    }
+
+    /**
+     * Get audit events (admin only)
+     * Filters: ?userId=, ?formId=, ?entityType=form|response, ?from= and ?to= (ms timestamps), ?limit=
+     */
+    private function getEvents() {
+        $where = [];
+        $params = [];
+
+        if (!empty($_GET['userId'])) {
+            $where[] = "user_id = ?";
+            $params[] = $_GET['userId'];
+        }
+
+        if (!empty($_GET['formId'])) {
+            $where[] = "form_id = ?";
+            $params[] = $_GET['formId'];
+        }
+
+        if (!empty($_GET['entityType']) && in_array($_GET['entityType'], ['form', 'response'], true)) {
+            $where[] = "entity_type = ?";
+            $params[] = $_GET['entityType'];
+        }
+
+        if (!empty($_GET['from']) && is_numeric($_GET['from'])) {
+            $where[] = "created_at >= ?";
+            $params[] = date('Y-m-d H:i:s', (int) ($_GET['from'] / 1000));
+        }
+
+        if (!empty($_GET['to']) && is_numeric($_GET['to'])) {
+            $where[] = "created_at <= ?";
+            $params[] = date('Y-m-d H:i:s', (int) ($_GET['to'] / 1000));
+        }
+
+        $limit = min((int) ($_GET['limit'] ?? 200), self::MAX_EVENTS);
+        if ($limit <= 0) {
+            $limit = 200;
+        }
+
+        try {
+            $query = "SELECT * FROM audit_log";
+            if (!empty($where)) {
+                $query .= " WHERE " . implode(' AND ', $where);
+            }
+            $query .= " ORDER BY created_at DESC LIMIT " . $limit;
+
+            $stmt = $this->db->prepare($query);
+            $stmt->execute($params);
+            $events = $stmt->fetchAll();
+
+            foreach ($events as &$event) {
+                $event = $this->formatEvent($event);
+            }
+
+            echo json_encode($events);
+
+        } catch (Exception $e) {
+            error_log("Error fetching audit log: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Get the history of a single response (requires view_responses on its form)
+     */
+    private function getResponseHistory($responseId, $user) {
+        try {
+            $stmt = $this->db->prepare("
+                SELECT * FROM audit_log
+                WHERE entity_type = 'response' AND entity_id = ?
+                ORDER BY created_at DESC
+            ");
+            $stmt->execute([$responseId]);
+            $events = $stmt->fetchAll();
+
+            if (empty($events)) {
+                echo json_encode([]);
+                return;
+            }
+
+            $this->permissions->requirePermission($user, $events[0]['form_id'], 'view_responses');
+
+            foreach ($events as &$event) {
+                $event = $this->formatEvent($event);
+            }
+
+            echo json_encode($events);
+
+        } catch (Exception $e) {
+            error_log("Error fetching response history: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    private function formatEvent($event) {
+        $event['changes'] = json_decode($event['changes'], true) ?: [];
+        $event['created_at'] = strtotime($event['created_at']) * 1000;
+        return $event;
+    }
+}
+?>
@@ -1,8 +1,9 @@
 <?php
 require_once __DIR__ . '/../config/database.php';
+require_once __DIR__ . '/../config/jwt.php';
 
 /**
- * Authentication routes without JWT
+ * Authentication routes (stateless, JWT based)
  */
 class AuthRoutes {
     private $db;
@@ -10,11 +11,6 @@ class AuthRoutes {
     public function __construct() {
         $database = new Database();
         $this->db = $database->getConnection();
-        
-        // Start session if not already started
-        if (session_status() === PHP_SESSION_NONE) {
-            session_start();
-        }
     }
 
     /**
@@ -51,7 +47,8 @@ class AuthRoutes {
         
         $username = $input['username'] ?? '';
         $password = $input['password'] ?? '';
-        $role = $input['role'] ?? 'user';
+        // Self-registration always creates a respondent; other roles are assigned by an admin
+        $role = 'respondent';
 
         if (empty($username) || empty($password)) {
             http_response_code(400);
@@ -85,17 +82,7 @@ class AuthRoutes {
             $stmt->execute([$username]);
             $user = $stmt->fetch();
 
-            // Store user in session
-            $_SESSION['user'] = [
-                'id' => $user['id'],
-                'username' => $user['username'],
-                'role' => $user['role']
-            ];
-
-            echo json_encode([
-                'success' => true,
-                'user' => $_SESSION['user']
-            ]);
+            echo json_encode($this->issueSession($user));
 
         } catch (Exception $e) {
             error_log("Registration error: " . $e->getMessage());
@@ -121,7 +108,7 @@ class AuthRoutes {
 
         try {
             // Get user from database
-            $stmt = $this->db->prepare("SELECT id, username, password, role FROM users WHERE username = ?");
+            $stmt = $this->db->prepare("SELECT id, username, password, role, active FROM users WHERE username = ?");
             $stmt->execute([$username]);
             $user = $stmt->fetch();
 
@@ -131,17 +118,13 @@ class AuthRoutes {
                 return;
             }
 
-            // Store user in session
-            $_SESSION['user'] = [
-                'id' => $user['id'],
-                'username' => $user['username'],
-                'role' => $user['role']
-            ];
+            if (!$user['active']) {
+                http_response_code(403);
+                echo json_encode(['message' => 'Account deactivated']);
+                return;
+            }
 
-            echo json_encode([
-                'success' => true,
-                'user' => $_SESSION['user']
-            ]);
+            echo json_encode($this->issueSession($user));
 
         } catch (Exception $e) {
             error_log("Login error: " . $e->getMessage());
@@ -150,13 +133,32 @@ class AuthRoutes {
         }
     }
 
+    /**
+     * Build the login payload: public user data plus a signed token
+     */
+    private function issueSession($user) {
+        $publicUser = [
+            'id' => $user['id'],
+            'username' => $user['username'],
+            'role' => $user['role']
+        ];
+
+        return [
+            'success' => true,
+            'user' => $publicUser,
+            'token' => JWT::encode([
+                'sub' => $publicUser['id'],
+                'username' => $publicUser['username'],
+                'role' => $publicUser['role']
+            ])
+        ];
+    }
+
     /**
      * Logout user
+     * Tokens are stateless: the client discards its token
      */
     private function logout() {
-        // Destroy session
-        session_destroy();
-        
         echo json_encode([
             'success' => true,
             'message' => 'Logged out successfully'
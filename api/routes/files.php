@@ -0,0 +1,228 @@
+<?php
+require_once __DIR__ . '/../config/database.php';
+require_once __DIR__ . '/../config/uploads.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../middleware/permissions.php';
+
+/**
+ * Uploaded files routes (attachments of `file` questions)
+ */
+class FilesRoutes {
+    private $db;
+    private $auth;
+    private $permissions;
+    private $storage;
+
+    public function __construct() {
+        $database = new Database();
+        $this->db = $database->getConnection();
+        $this->auth = new AuthMiddleware();
+        $this->permissions = new FormPermissions($this->db);
+        $this->storage = Uploads::createStorage();
+    }
+
+    /**
+     * Handle files routes
+     * Downloads are authorized by the signed link instead of the session token.
+     */
+    public function handleRequest($method, $fileId = null) {
+        if ($method === 'GET' && $fileId) {
+            $this->downloadFile($fileId);
+            return;
+        }
+
+        $user = $this->auth->authenticate();
+
+        if ($method === 'POST' && !$fileId) {
+            $this->uploadFile($user);
+        } else {
+            http_response_code(404);
+            echo json_encode(['message' => 'Route not found']);
+        }
+    }
+
+    /**
+     * Upload a file for a question (multipart: file, formId, questionId)
+     * Requires fill or edit_responses on the form; the type and size limits of
+     * the question are enforced on the detected MIME type, not the declared one.
+     */
+    private function uploadFile($user) {
+        $formId = $_POST['formId'] ?? '';
+        $questionId = $_POST['questionId'] ?? '';
+        $file = $_FILES['file'] ?? null;
+
+        if (empty($formId) || empty($questionId) || !$file) {
+            http_response_code(400);
+            echo json_encode(['message' => 'Form ID, question ID and file are required']);
+            return;
+        }
+
+        if (in_array($file['error'], [UPLOAD_ERR_INI_SIZE, UPLOAD_ERR_FORM_SIZE], true)) {
+            http_response_code(413);
+            echo json_encode(['message' => 'File too large']);
+            return;
+        }
+
+        if ($file['error'] !== UPLOAD_ERR_OK || !is_uploaded_file($file['tmp_name'])) {
+            http_response_code(400);
+            echo json_encode(['message' => 'File upload failed']);
+            return;
+        }
+
+        if (!$this->permissions->can($user, $formId, 'edit_responses')) {
+            $this->permissions->requirePermission($user, $formId, 'fill');
+        }
+
+        try {
+            $question = $this->findFileQuestion($formId, $questionId);
+            if (!$question) {
+                http_response_code(400);
+                echo json_encode(['message' => 'Question does not accept files']);
+                return;
+            }
+
+            $config = $question['file'] ?? [];
+            $mimeType = (new finfo(FILEINFO_MIME_TYPE))->file($file['tmp_name']) ?: 'application/octet-stream';
+            if (!self::matchesAccept($mimeType, $config['accept'] ?? [])) {
+                http_response_code(415);
+                echo json_encode(['message' => 'File type not allowed']);
+                return;
+            }
+
+            $maxBytes = min((int) ($config['maxSizeMb'] ?? 10) * 1024 * 1024, Uploads::getMaxBytes());
+            if ($file['size'] > $maxBytes) {
+                http_response_code(413);
+                echo json_encode(['message' => 'File too large']);
+                return;
+            }
+
+            $id = $this->db->query("SELECT UUID()")->fetchColumn();
+            $storageKey = $formId . '/' . $id;
+            $name = mb_substr(basename($file['name']), 0, 255);
+
+            if (!$this->storage->put($storageKey, $file['tmp_name'])) {
+                throw new Exception("Could not store file " . $storageKey);
+            }
+
+            $stmt = $this->db->prepare("
+                INSERT INTO files (id, form_id, question_id, name, mime_type, size, storage_key, uploaded_by, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())
+            ");
+            $stmt->execute([$id, $formId, $questionId, $name, $mimeType, $file['size'], $storageKey, $user['id']]);
+
+            http_response_code(201);
+            echo json_encode($this->formatFile([
+                'id' => $id,
+                'name' => $name,
+                'mime_type' => $mimeType,
+                'size' => $file['size']
+            ]));
+
+        } catch (Exception $e) {
+            error_log("Error uploading file: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Stream a file (?expires= and ?signature= must match an unexpired signed download link)
+     * Images and PDFs are shown inline; anything else is sent as a download.
+     */
+    private function downloadFile($fileId) {
+        if (!Uploads::verifySignature($fileId, $_GET['expires'] ?? null, $_GET['signature'] ?? null)) {
+            http_response_code(403);
+            echo json_encode(['message' => 'Invalid or expired signature']);
+            return;
+        }
+
+        try {
+            $stmt = $this->db->prepare("SELECT * FROM files WHERE id = ?");
+            $stmt->execute([$fileId]);
+            $file = $stmt->fetch();
+
+            if (!$file) {
+                http_response_code(404);
+                echo json_encode(['message' => 'File not found']);
+                return;
+            }
+
+            $inline = $file['mime_type'] === 'application/pdf'
+                || (strpos($file['mime_type'], 'image/') === 0 && $file['mime_type'] !== 'image/svg+xml');
+
+            header('Content-Type: ' . $file['mime_type']);
+            header('Content-Length: ' . $file['size']);
+            header('Content-Disposition: ' . ($inline ? 'inline' : 'attachment')
+                . '; filename*=UTF-8\'\'' . rawurlencode($file['name']));
+            header('X-Content-Type-Options: nosniff');
+            header('Cache-Control: private, max-age=' . max(0, (int) $_GET['expires'] - time()) . ', immutable');
+
+            if (!$this->storage->stream($file['storage_key'])) {
+                header('Content-Type: application/json');
+                header_remove('Content-Length');
+                header_remove('Content-Disposition');
+                http_response_code(404);
+                echo json_encode(['message' => 'File not found']);
+            }
+
+        } catch (Exception $e) {
+            error_log("Error downloading file: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Find a `file` question in the current definition of a form (including sub-questions)
+     */
+    private function findFileQuestion($formId, $questionId) {
+        $stmt = $this->db->prepare("SELECT questions FROM forms WHERE id = ?");
+        $stmt->execute([$formId]);
+        $form = $stmt->fetch();
+        if (!$form) {
+            return null;
+        }
+
+        $pending = json_decode($form['questions'], true) ?: [];
+        while ($pending) {
+            $question = array_shift($pending);
+            if (($question['id'] ?? null) === $questionId) {
+                return ($question['type'] ?? '') === 'file' ? $question : null;
+            }
+            foreach ($question['options'] ?? [] as $option) {
+                array_push($pending, ...($option['subQuestions'] ?? []));
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Mirrors matchesAccept in src/utils/fileUploads.ts ("image/*" accepts any image)
+     */
+    private static function matchesAccept($mimeType, $accept) {
+        if (empty($accept)) {
+            return true;
+        }
+
+        foreach ($accept as $pattern) {
+            if (substr($pattern, -2) === '/*'
+                ? strpos($mimeType, substr($pattern, 0, -1)) === 0
+                : $mimeType === $pattern) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private function formatFile($file) {
+        return [
+            'id' => $file['id'],
+            'name' => $file['name'],
+            'type' => $file['mime_type'],
+            'size' => (int) $file['size'],
+            'url' => Uploads::downloadPath($file['id'])
+        ];
+    }
+}
+?>
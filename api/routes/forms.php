@@ -1,6 +1,9 @@
 <?php
 require_once __DIR__ . '/../config/database.php';
+require_once __DIR__ . '/../config/uploads.php';
 require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../middleware/permissions.php';
+require_once __DIR__ . '/../middleware/audit.php';
 
 /**
  * Forms routes
@@ -8,19 +11,55 @@ require_once __DIR__ . '/../middleware/auth.php';
 class FormsRoutes {
     private $db;
     private $auth;
+    private $permissions;
+    private $audit;
 
     public function __construct() {
         $database = new Database();
         $this->db = $database->getConnection();
         $this->auth = new AuthMiddleware();
+        $this->permissions = new FormPermissions($this->db);
+        $this->audit = new AuditLog($this->db);
     }
 
     /**
      * Handle forms routes
      */
-    public function handleRequest($method, $path, $id = null) {
+    public function handleRequest($method, $path, $id = null, $version = null) {
         $user = $this->auth->authenticate();
 
+        if ($path === '/form-versions') {
+            if ($method === 'GET' && $version) {
+                $this->getVersion($id, $version, $user);
+            } elseif ($method === 'GET') {
+                $this->getVersions($id, $user);
+            } else {
+                http_response_code(405);
+                echo json_encode(['message' => 'Method not allowed']);
+            }
+            return;
+        }
+
+        if ($path === '/form-version-restore') {
+            if ($method === 'POST') {
+                $this->restoreVersion($id, $version, $user);
+            } else {
+                http_response_code(405);
+                echo json_encode(['message' => 'Method not allowed']);
+            }
+            return;
+        }
+
+        if ($path === '/form-permissions') {
+            if ($method === 'PUT' && $id) {
+                $this->updatePermissions($id, $user);
+            } else {
+                http_response_code(405);
+                echo json_encode(['message' => 'Method not allowed']);
+            }
+            return;
+        }
+
         switch ($method) {
             case 'GET':
                 if ($id) {
@@ -49,16 +88,17 @@ class FormsRoutes {
     }
 
     /**
-     * Get all forms
+     * Get all forms the user has access to
      */
     private function getForms($user) {
         try {
             $query = "SELECT * FROM forms";
             $params = [];
 
-            // If not admin, only show forms created by user
+            // If not admin, only show forms created by or shared with the user
             if ($user['role'] !== 'admin') {
-                $query .= " WHERE created_by = ?";
+                $query .= " WHERE created_by = ? OR id IN (SELECT form_id FROM form_permissions WHERE user_id = ?)";
+                $params[] = $user['id'];
                 $params[] = $user['id'];
             }
 
@@ -66,13 +106,19 @@ class FormsRoutes {
 
             $stmt = $this->db->prepare($query);
             $stmt->execute($params);
-            $forms = $stmt->fetchAll();
-
-            // Parse JSON fields
-            foreach ($forms as &$form) {
-                $form['questions'] = json_decode($form['questions'], true);
-                $form['created_at'] = strtotime($form['created_at']) * 1000; // Convert to milliseconds
-                $form['updated_at'] = strtotime($form['updated_at']) * 1000;
+            $rows = $stmt->fetchAll();
+            $forms = [];
+
+            // Shares of all the listed forms in one query
+            $sharesByForm = $this->permissions->getSharesByForm(array_column($rows, 'id'));
+
+            foreach ($rows as $form) {
+                // Shared forms are only listed if the user's role allows something on them
+                $shares = $sharesByForm[$form['id']] ?? [];
+                $permissions = $this->permissions->getPermissions($user, $form, $shares);
+                if (!empty($permissions)) {
+                    $forms[] = $this->formatForm($form, $user, $permissions, $shares);
+                }
             }
 
             echo json_encode($forms);
@@ -85,35 +131,21 @@ class FormsRoutes {
     }
 
     /**
-     * Get single form
+     * Get single form (any permission on it is enough)
      */
     private function getForm($id, $user) {
         try {
-            $query = "SELECT * FROM forms WHERE id = ?";
-            $params = [$id];
-
-            // If not admin, verify ownership
-            if ($user['role'] !== 'admin') {
-                $query .= " AND created_by = ?";
-                $params[] = $user['id'];
-            }
-
-            $stmt = $this->db->prepare($query);
-            $stmt->execute($params);
+            $stmt = $this->db->prepare("SELECT * FROM forms WHERE id = ?");
+            $stmt->execute([$id]);
             $form = $stmt->fetch();
 
-            if (!$form) {
+            if (empty($this->permissions->getPermissions($user, $form))) {
                 http_response_code(404);
                 echo json_encode(['message' => 'Form not found']);
                 return;
             }
 
-            // Parse JSON fields
-            $form['questions'] = json_decode($form['questions'], true);
-            $form['created_at'] = strtotime($form['created_at']) * 1000;
-            $form['updated_at'] = strtotime($form['updated_at']) * 1000;
-
-            echo json_encode($form);
+            echo json_encode($this->formatForm($form, $user));
 
         } catch (Exception $e) {
             error_log("Error fetching form: " . $e->getMessage());
@@ -123,16 +155,21 @@ class FormsRoutes {
     }
 
     /**
-     * Create new form (admin only)
+     * Create new form (admins and editors)
      */
     private function createForm($user) {
-        $this->auth->requireRole($user, 'admin');
+        if (!FormPermissions::canCreateForms($user)) {
+            http_response_code(403);
+            echo json_encode(['message' => 'Insufficient permissions']);
+            return;
+        }
 
         $input = json_decode(file_get_contents('php://input'), true);
         
         $name = $input['name'] ?? '';
         $description = $input['description'] ?? '';
         $questions = $input['questions'] ?? [];
+        $passMark = self::passMark($input);
 
         if (empty($name) || empty($questions)) {
             http_response_code(400);
@@ -142,14 +179,15 @@ class FormsRoutes {
 
         try {
             $stmt = $this->db->prepare("
-                INSERT INTO forms (id, name, description, questions, created_by, created_at, updated_at, version) 
-                VALUES (UUID(), ?, ?, ?, ?, NOW(), NOW(), 1)
+                INSERT INTO forms (id, name, description, questions, pass_mark, created_by, created_at, updated_at, version) 
+                VALUES (UUID(), ?, ?, ?, ?, ?, NOW(), NOW(), 1)
             ");
             
             $stmt->execute([
                 $name,
                 $description,
                 json_encode($questions),
+                $passMark,
                 $user['id']
             ]);
 
@@ -158,12 +196,11 @@ class FormsRoutes {
             $stmt->execute([$user['id']]);
             $form = $stmt->fetch();
 
-            $form['questions'] = json_decode($form['questions'], true);
-            $form['created_at'] = strtotime($form['created_at']) * 1000;
-            $form['updated_at'] = strtotime($form['updated_at']) * 1000;
+            $this->saveSnapshot($form['id'], $user);
+            $this->audit->record($user, 'form', $form['id'], $form['id'], 'create', AuditLog::diffForms([], $input));
 
             http_response_code(201);
-            echo json_encode($form);
+            echo json_encode($this->formatForm($form, $user));
 
         } catch (Exception $e) {
             error_log("Error creating form: " . $e->getMessage());
@@ -173,16 +210,17 @@ class FormsRoutes {
     }
 
     /**
-     * Update form (admin only)
+     * Update form (requires the edit permission)
      */
     private function updateForm($id, $user) {
-        $this->auth->requireRole($user, 'admin');
+        $this->permissions->requirePermission($user, $id, 'edit');
 
         $input = json_decode(file_get_contents('php://input'), true);
         
         $name = $input['name'] ?? '';
         $description = $input['description'] ?? '';
         $questions = $input['questions'] ?? [];
+        $passMark = self::passMark($input);
 
         if (empty($name) || empty($questions)) {
             http_response_code(400);
@@ -191,9 +229,17 @@ class FormsRoutes {
         }
 
         try {
+            // Previous definition, for the audit diff
+            $stmt = $this->db->prepare("SELECT name, description, questions FROM forms WHERE id = ?");
+            $stmt->execute([$id]);
+            $previous = $stmt->fetch();
+            $previous['questions'] = json_decode($previous['questions'], true);
+
+            $this->db->beginTransaction();
+
             $stmt = $this->db->prepare("
                 UPDATE forms 
-                SET name = ?, description = ?, questions = ?, updated_at = NOW(), version = version + 1 
+                SET name = ?, description = ?, questions = ?, pass_mark = ?, updated_at = NOW(), version = version + 1 
                 WHERE id = ?
             ");
             
@@ -201,27 +247,32 @@ class FormsRoutes {
                 $name,
                 $description,
                 json_encode($questions),
+                $passMark,
                 $id
             ]);
 
             if ($stmt->rowCount() === 0) {
+                $this->db->rollBack();
                 http_response_code(404);
                 echo json_encode(['message' => 'Form not found']);
                 return;
             }
 
+            $this->saveSnapshot($id, $user);
+            $this->db->commit();
+
+            $this->audit->record($user, 'form', $id, $id, 'update', AuditLog::diffForms($previous, $input));
+
             // Get the updated form
             $stmt = $this->db->prepare("SELECT * FROM forms WHERE id = ?");
             $stmt->execute([$id]);
-            $form = $stmt->fetch();
-
-            $form['questions'] = json_decode($form['questions'], true);
-            $form['created_at'] = strtotime($form['created_at']) * 1000;
-            $form['updated_at'] = strtotime($form['updated_at']) * 1000;
 
-            echo json_encode($form);
+            echo json_encode($this->formatForm($stmt->fetch(), $user));
 
         } catch (Exception $e) {
+            if ($this->db->inTransaction()) {
+                $this->db->rollBack();
+            }
             error_log("Error updating form: " . $e->getMessage());
             http_response_code(500);
             echo json_encode(['message' => 'Server error']);
@@ -229,25 +280,33 @@ class FormsRoutes {
     }
 
     /**
-     * Delete form (admin only)
+     * Delete form with its responses and uploaded files (admins and the form creator)
      */
     private function deleteForm($id, $user) {
-        $this->auth->requireRole($user, 'admin');
-
         try {
             // Check if form exists
-            $stmt = $this->db->prepare("SELECT id FROM forms WHERE id = ?");
+            $stmt = $this->db->prepare("SELECT id, name, description, questions, created_by FROM forms WHERE id = ?");
             $stmt->execute([$id]);
+            $form = $stmt->fetch();
             
-            if (!$stmt->fetch()) {
+            if (!$form) {
                 http_response_code(404);
                 echo json_encode(['message' => 'Form not found']);
                 return;
             }
 
+            if (!FormPermissions::canManage($user, $form)) {
+                http_response_code(403);
+                echo json_encode(['message' => 'Insufficient permissions']);
+                return;
+            }
+
             // Start transaction
             $this->db->beginTransaction();
 
+            // Stored attachments are removed once the deletion is committed (their rows cascade)
+            $storageKeys = Uploads::storageKeys($this->db, $id);
+
             // Delete responses first (foreign key constraint)
             $stmt = $this->db->prepare("DELETE FROM responses WHERE form_id = ?");
             $stmt->execute([$id]);
@@ -256,8 +315,13 @@ class FormsRoutes {
             $stmt = $this->db->prepare("DELETE FROM forms WHERE id = ?");
             $stmt->execute([$id]);
 
+            $form['questions'] = json_decode($form['questions'], true);
+            $this->audit->record($user, 'form', $id, $id, 'delete', AuditLog::diffForms($form, []));
+
             $this->db->commit();
 
+            Uploads::deleteStored($storageKeys);
+
             echo json_encode(['message' => 'Form deleted']);
 
         } catch (Exception $e) {
@@ -267,5 +331,274 @@ class FormsRoutes {
             echo json_encode(['message' => 'Server error']);
         }
     }
+
+    /**
+     * Replace who the form is shared with (admins and the form creator)
+     * Body: [{ userId, permissions: ['edit' | 'fill' | 'view_responses' | 'edit_responses'] }]
+     */
+    private function updatePermissions($id, $user) {
+        $input = json_decode(file_get_contents('php://input'), true);
+
+        if (!is_array($input)) {
+            http_response_code(400);
+            echo json_encode(['message' => 'Invalid input format']);
+            return;
+        }
+
+        try {
+            $stmt = $this->db->prepare("SELECT * FROM forms WHERE id = ?");
+            $stmt->execute([$id]);
+            $form = $stmt->fetch();
+
+            if (!$form) {
+                http_response_code(404);
+                echo json_encode(['message' => 'Form not found']);
+                return;
+            }
+
+            if (!FormPermissions::canManage($user, $form)) {
+                http_response_code(403);
+                echo json_encode(['message' => 'Insufficient permissions']);
+                return;
+            }
+
+            // The creator always has full access, so they are never stored as a share
+            $shares = array_filter($input, function ($share) use ($form) {
+                return !empty($share['userId']) && $share['userId'] !== $form['created_by'];
+            });
+
+            $unknown = $this->permissions->unknownUserIds($shares);
+            if (!empty($unknown)) {
+                http_response_code(400);
+                echo json_encode(['message' => 'Unknown user', 'userIds' => $unknown]);
+                return;
+            }
+
+            $this->db->beginTransaction();
+            $this->permissions->setShares($id, $shares);
+            $this->db->commit();
+
+            echo json_encode($this->formatForm($form, $user));
+
+        } catch (Exception $e) {
+            if ($this->db->inTransaction()) {
+                $this->db->rollBack();
+            }
+            error_log("Error updating form permissions: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Get all saved versions of a form, newest first (any permission on the form)
+     */
+    private function getVersions($id, $user) {
+        if (!$this->canAccess($id, $user)) {
+            http_response_code(404);
+            echo json_encode(['message' => 'Form not found']);
+            return;
+        }
+
+        try {
+            $stmt = $this->db->prepare("
+                SELECT v.*, u.username AS created_by_username
+                FROM form_versions v
+                LEFT JOIN users u ON v.created_by = u.id
+                WHERE v.form_id = ?
+                ORDER BY v.version DESC
+            ");
+            $stmt->execute([$id]);
+            $versions = $stmt->fetchAll();
+
+            $canEdit = $this->permissions->can($user, $id, 'edit');
+            foreach ($versions as &$version) {
+                $version = $this->formatVersion($version, $canEdit);
+            }
+
+            echo json_encode($versions);
+
+        } catch (Exception $e) {
+            error_log("Error fetching form versions: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Get a single version of a form (any permission on the form)
+     */
+    private function getVersion($id, $versionNumber, $user) {
+        if (!$this->canAccess($id, $user)) {
+            http_response_code(404);
+            echo json_encode(['message' => 'Form not found']);
+            return;
+        }
+
+        try {
+            $version = $this->findVersion($id, $versionNumber);
+
+            if (!$version) {
+                http_response_code(404);
+                echo json_encode(['message' => 'Version not found']);
+                return;
+            }
+
+            echo json_encode($this->formatVersion($version, $this->permissions->can($user, $id, 'edit')));
+
+        } catch (Exception $e) {
+            error_log("Error fetching form version: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Restore an old version (requires the edit permission)
+     * The snapshot's definition becomes a new version; history is never rewritten.
+     */
+    private function restoreVersion($id, $versionNumber, $user) {
+        $this->permissions->requirePermission($user, $id, 'edit');
+
+        try {
+            $version = $this->findVersion($id, $versionNumber);
+
+            if (!$version) {
+                http_response_code(404);
+                echo json_encode(['message' => 'Version not found']);
+                return;
+            }
+
+            $stmt = $this->db->prepare("SELECT name, description, questions FROM forms WHERE id = ?");
+            $stmt->execute([$id]);
+            $previous = $stmt->fetch();
+            $previous['questions'] = json_decode($previous['questions'], true);
+
+            $this->db->beginTransaction();
+
+            $stmt = $this->db->prepare("
+                UPDATE forms 
+                SET name = ?, description = ?, questions = ?, pass_mark = ?, updated_at = NOW(), version = version + 1 
+                WHERE id = ?
+            ");
+            $stmt->execute([$version['name'], $version['description'], $version['questions'], $version['pass_mark'], $id]);
+
+            $this->saveSnapshot($id, $user);
+            $this->db->commit();
+
+            $restored = [
+                'name' => $version['name'],
+                'description' => $version['description'],
+                'questions' => json_decode($version['questions'], true)
+            ];
+            $this->audit->record($user, 'form', $id, $id, 'update', AuditLog::diffForms($previous, $restored));
+
+            $stmt = $this->db->prepare("SELECT * FROM forms WHERE id = ?");
+            $stmt->execute([$id]);
+
+            echo json_encode($this->formatForm($stmt->fetch(), $user));
+
+        } catch (Exception $e) {
+            if ($this->db->inTransaction()) {
+                $this->db->rollBack();
+            }
+            error_log("Error restoring form version: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Store the current definition of a form as an immutable version snapshot
+     */
+    private function saveSnapshot($formId, $user) {
+        $stmt = $this->db->prepare("
+            INSERT INTO form_versions (form_id, version, name, description, questions, pass_mark, created_by, created_at)
+            SELECT id, version, name, description, questions, pass_mark, ?, NOW() FROM forms WHERE id = ?
+        ");
+        $stmt->execute([$user['id'], $formId]);
+    }
+
+    private function findVersion($formId, $versionNumber) {
+        $stmt = $this->db->prepare("
+            SELECT v.*, u.username AS created_by_username
+            FROM form_versions v
+            LEFT JOIN users u ON v.created_by = u.id
+            WHERE v.form_id = ? AND v.version = ?
+        ");
+        $stmt->execute([$formId, (int) $versionNumber]);
+        return $stmt->fetch();
+    }
+
+    private function canAccess($formId, $user) {
+        $stmt = $this->db->prepare("SELECT id, created_by FROM forms WHERE id = ?");
+        $stmt->execute([$formId]);
+        return !empty($this->permissions->getPermissions($user, $stmt->fetch()));
+    }
+
+    /**
+     * Pass mark of a scored form: a percentage between 0 and 100, or null
+     */
+    private static function passMark($input) {
+        $passMark = $input['passMark'] ?? null;
+        return is_numeric($passMark) ? max(0, min(100, (float) $passMark)) : null;
+    }
+
+    /**
+     * Questions without their scoring (points and correct options), recursively
+     * through sub-questions: only users who may edit the form get the answer key
+     */
+    private static function withoutScoring($questions) {
+        return array_map(function ($question) {
+            unset($question['scoring']);
+            if (isset($question['options']) && is_array($question['options'])) {
+                foreach ($question['options'] as &$option) {
+                    if (!empty($option['subQuestions'])) {
+                        $option['subQuestions'] = self::withoutScoring($option['subQuestions']);
+                    }
+                }
+                unset($option);
+            }
+            return $question;
+        }, $questions ?? []);
+    }
+
+    private function formatVersion($version, $canEdit) {
+        $version['questions'] = json_decode($version['questions'], true);
+        if (!$canEdit) {
+            $version['questions'] = self::withoutScoring($version['questions']);
+        }
+        $version['pass_mark'] = $version['pass_mark'] !== null ? (float) $version['pass_mark'] : null;
+        $version['created_at'] = strtotime($version['created_at']) * 1000;
+        return $version;
+    }
+
+    /**
+     * Parse JSON fields, convert timestamps and attach the shares the user may see
+     * (all of them for admins and the creator, only their own otherwise).
+     * Scoring is stripped for users without the edit permission.
+     * @param array|null $shares Shares of the form already loaded (see FormPermissions::getSharesByForm)
+     */
+    private function formatForm($form, $user, $permissions = null, $shares = null) {
+        $permissions = $permissions ?? $this->permissions->getPermissions($user, $form);
+
+        $form['questions'] = json_decode($form['questions'], true);
+        if (!in_array('edit', $permissions, true)) {
+            $form['questions'] = self::withoutScoring($form['questions']);
+        }
+        $form['pass_mark'] = $form['pass_mark'] !== null ? (float) $form['pass_mark'] : null;
+        $form['created_at'] = strtotime($form['created_at']) * 1000; // Convert to milliseconds
+        $form['updated_at'] = strtotime($form['updated_at']) * 1000;
+
+        $shares = $shares ?? $this->permissions->getShares($form['id']);
+        if (!FormPermissions::canManage($user, $form)) {
+            $shares = array_values(array_filter($shares, function ($share) use ($user) {
+                return $share['userId'] === $user['id'];
+            }));
+        }
+        $form['permissions'] = $shares;
+
+        return $form;
+    }
 }
 ?>
\ No newline at end of file
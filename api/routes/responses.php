@@ -1,6 +1,12 @@
 <?php
 require_once __DIR__ . '/../config/database.php';
+require_once __DIR__ . '/../config/uploads.php';
 require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../middleware/permissions.php';
+require_once __DIR__ . '/../middleware/audit.php';
+require_once __DIR__ . '/../middleware/validation.php';
+require_once __DIR__ . '/../middleware/scoring.php';
+require_once __DIR__ . '/../middleware/formula.php';
 
 /**
  * Responses routes
@@ -8,11 +14,20 @@ require_once __DIR__ . '/../middleware/auth.php';
 class ResponsesRoutes {
     private $db;
     private $auth;
+    private $permissions;
+    private $audit;
+    private $validator;
+
+    // Oldest capture time accepted from a client replaying responses queued offline
+    private const MAX_CAPTURE_AGE_DAYS = 30;
 
     public function __construct() {
         $database = new Database();
         $this->db = $database->getConnection();
         $this->auth = new AuthMiddleware();
+        $this->permissions = new FormPermissions($this->db);
+        $this->audit = new AuditLog($this->db);
+        $this->validator = new ResponseValidator($this->db);
     }
 
     /**
@@ -23,10 +38,16 @@ class ResponsesRoutes {
 
         if ($formId && $method === 'GET') {
             $this->getFormResponses($formId, $user);
+        } elseif ($method === 'GET' && $path === '/response-drafts' && !$responseId) {
+            $this->getDrafts($user);
+        } elseif ($method === 'PUT' && $path === '/response-drafts' && $responseId) {
+            $this->saveDraft($responseId, $user);
         } elseif ($method === 'POST' && $path === '/responses') {
             $this->createResponse($user);
         } elseif ($method === 'POST' && $path === '/responses/import') {
             $this->importResponses($user);
+        } elseif ($method === 'PUT' && $responseId) {
+            $this->updateResponse($responseId, $user);
         } elseif ($method === 'DELETE' && $responseId) {
             $this->deleteResponse($responseId, $user);
         } else {
@@ -36,25 +57,25 @@ class ResponsesRoutes {
     }
 
     /**
-     * Get responses for a specific form
+     * Get the submitted responses for a specific form (requires view_responses)
      */
     private function getFormResponses($formId, $user) {
+        $this->permissions->requirePermission($user, $formId, 'view_responses');
+
         try {
             $stmt = $this->db->prepare("
-                SELECT r.*, u.username 
+                SELECT r.*, u.username, e.username AS updated_by_username 
                 FROM responses r 
                 LEFT JOIN users u ON r.user_id = u.id 
-                WHERE r.form_id = ? 
+                LEFT JOIN users e ON r.updated_by = e.id 
+                WHERE r.form_id = ? AND r.status = 'submitted' 
                 ORDER BY r.created_at DESC
             ");
             $stmt->execute([$formId]);
             $responses = $stmt->fetchAll();
 
-            // Parse JSON fields and convert timestamps
             foreach ($responses as &$response) {
-                $response['responses'] = json_decode($response['responses'], true);
-                $response['created_at'] = strtotime($response['created_at']) * 1000;
-                $response['updated_offline'] = (bool) $response['updated_offline'];
+                $response = $this->formatResponse($response);
             }
 
             echo json_encode($responses);
@@ -66,16 +87,118 @@ class ResponsesRoutes {
         }
     }
 
+    /**
+     * Get the drafts of the current user, newest first, with the name of their form
+     */
+    private function getDrafts($user) {
+        try {
+            $stmt = $this->db->prepare("
+                SELECT r.*, u.username, f.name AS form_name 
+                FROM responses r 
+                JOIN forms f ON r.form_id = f.id 
+                LEFT JOIN users u ON r.user_id = u.id 
+                WHERE r.user_id = ? AND r.status = 'draft' 
+                ORDER BY COALESCE(r.updated_at, r.created_at) DESC
+            ");
+            $stmt->execute([$user['id']]);
+            $drafts = $stmt->fetchAll();
+
+            foreach ($drafts as &$draft) {
+                $draft = $this->formatResponse($draft);
+            }
+
+            echo json_encode($drafts);
+
+        } catch (Exception $e) {
+            error_log("Error fetching drafts: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Create or update a draft of the current user (requires fill)
+     * Drafts may be incomplete, so they are not validated, scored or audited;
+     * that happens when they are submitted through createResponse.
+     */
+    private function saveDraft($draftId, $user) {
+        $input = json_decode(file_get_contents('php://input'), true);
+
+        $formId = $input['formId'] ?? '';
+        $formVersion = $input['formVersion'] ?? 1;
+        $responses = $input['responses'] ?? null;
+
+        if (empty($formId) || !is_array($responses)) {
+            http_response_code(400);
+            echo json_encode(['message' => 'Form ID and responses are required']);
+            return;
+        }
+
+        $this->permissions->requirePermission($user, $formId, 'fill');
+
+        try {
+            $stmt = $this->db->prepare("SELECT user_id, form_id, status FROM responses WHERE id = ?");
+            $stmt->execute([$draftId]);
+            $existing = $stmt->fetch();
+
+            if ($existing && ($existing['user_id'] !== $user['id'] || $existing['form_id'] !== $formId)) {
+                http_response_code(404);
+                echo json_encode(['message' => 'Draft not found or not authorized']);
+                return;
+            }
+
+            if ($existing && $existing['status'] !== 'draft') {
+                http_response_code(409);
+                echo json_encode(['message' => 'Response already submitted']);
+                return;
+            }
+
+            if ($existing) {
+                $stmt = $this->db->prepare("
+                    UPDATE responses SET form_version = ?, responses = ?, updated_at = NOW() WHERE id = ?
+                ");
+                $stmt->execute([$formVersion, json_encode($responses), $draftId]);
+            } else {
+                $stmt = $this->db->prepare("
+                    INSERT INTO responses (id, form_id, form_version, status, responses, user_id, created_at) 
+                    VALUES (?, ?, ?, 'draft', ?, ?, NOW())
+                ");
+                $stmt->execute([$draftId, $formId, $formVersion, json_encode($responses), $user['id']]);
+            }
+
+            $stmt = $this->db->prepare("
+                SELECT r.*, u.username, f.name AS form_name 
+                FROM responses r 
+                JOIN forms f ON r.form_id = f.id 
+                LEFT JOIN users u ON r.user_id = u.id 
+                WHERE r.id = ?
+            ");
+            $stmt->execute([$draftId]);
+
+            echo json_encode($this->formatResponse($stmt->fetch()));
+
+        } catch (Exception $e) {
+            error_log("Error saving draft: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
     /**
      * Create new response
+     * Responses captured offline are replayed with their client id and capture
+     * time (clamped, see captureTime), so a replay of an already stored response is acknowledged, not duplicated.
+     * A response with the id of one of the user's drafts submits that draft.
      */
     private function createResponse($user) {
         $input = json_decode(file_get_contents('php://input'), true);
         
+        $id = $input['id'] ?? null;
         $formId = $input['formId'] ?? '';
         $formVersion = $input['formVersion'] ?? 1;
         $responses = $input['responses'] ?? [];
         $updatedOffline = $input['updatedOffline'] ?? false;
+        $createdAt = $this->captureTime($input['createdAt'] ?? null);
 
         if (empty($formId) || empty($responses)) {
             http_response_code(400);
@@ -83,31 +206,77 @@ class ResponsesRoutes {
             return;
         }
 
+        $this->permissions->requirePermission($user, $formId, 'fill');
+
         try {
-            $stmt = $this->db->prepare("
-                INSERT INTO responses (id, form_id, form_version, responses, user_id, created_at, updated_offline) 
-                VALUES (UUID(), ?, ?, ?, ?, NOW(), ?)
-            ");
-            
-            $stmt->execute([
-                $formId,
-                $formVersion,
-                json_encode($responses),
-                $user['id'],
-                $updatedOffline ? 1 : 0
-            ]);
+            $draft = null;
+            if ($id) {
+                $stmt = $this->db->prepare("SELECT id, user_id, form_id, status FROM responses WHERE id = ?");
+                $stmt->execute([$id]);
+                $existing = $stmt->fetch();
+
+                // Only the author's own response to this form is acknowledged as a replay
+                if ($existing && ($existing['user_id'] !== $user['id'] || $existing['form_id'] !== $formId)) {
+                    http_response_code(409);
+                    echo json_encode(['message' => 'Response id already in use']);
+                    return;
+                }
+
+                if ($existing && $existing['status'] !== 'draft') {
+                    echo json_encode(['id' => $id]);
+                    return;
+                }
+                $draft = $existing;
+            }
 
-            // Get the created response ID
-            $responseId = $this->db->lastInsertId();
-            if (!$responseId) {
-                // For UUID, we need to get the last inserted record differently
-                $stmt = $this->db->prepare("SELECT id FROM responses WHERE user_id = ? ORDER BY created_at DESC LIMIT 1");
-                $stmt->execute([$user['id']]);
-                $result = $stmt->fetch();
-                $responseId = $result['id'];
+            $responses = $this->withCalculatedValues($formId, $formVersion, $responses, $createdAt);
+            if (!$this->passesValidation($formId, $formVersion, $responses)) {
+                return;
+            }
+
+            $scoreColumns = $this->scoreColumns($formId, $formVersion, $responses);
+
+            if ($draft) {
+                $stmt = $this->db->prepare("
+                    UPDATE responses 
+                    SET form_version = ?, status = 'submitted', responses = ?, score = ?, max_score = ?, passed = ?, 
+                        created_at = COALESCE(?, NOW()), updated_at = NULL, updated_offline = ? 
+                    WHERE id = ?
+                ");
+
+                $stmt->execute(array_merge(
+                    [$formVersion, json_encode($responses)],
+                    $scoreColumns,
+                    [$createdAt, $updatedOffline ? 1 : 0, $id]
+                ));
+            } else {
+                // Responses sent without an id get one here, so it is known without looking the row up
+                $id = $id ?: $this->db->query("SELECT UUID()")->fetchColumn();
+
+                $stmt = $this->db->prepare("
+                    INSERT INTO responses (id, form_id, form_version, responses, score, max_score, passed, user_id, created_at, updated_offline) 
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, NOW()), ?)
+                ");
+                
+                $stmt->execute(array_merge(
+                    [$id, $formId, $formVersion, json_encode($responses)],
+                    $scoreColumns,
+                    [$user['id'], $createdAt, $updatedOffline ? 1 : 0]
+                ));
             }
 
-            echo json_encode(['id' => $responseId]);
+            $responseId = $id;
+
+            $this->audit->record($user, 'response', $responseId, $formId, 'create', AuditLog::diffResponses([], $responses));
+
+            // The score is returned because users who only fill the form do not get the scoring
+            [$score, $maxScore, $passed] = $scoreColumns;
+            echo json_encode([
+                'id' => $responseId,
+                'score' => $score,
+                'max_score' => $maxScore,
+                'passed' => $passed === null ? null : (bool) $passed
+            ]);
 
         } catch (Exception $e) {
             error_log("Error creating response: " . $e->getMessage());
@@ -117,28 +286,118 @@ class ResponsesRoutes {
     }
 
     /**
-     * Delete response
+     * Update the answers of an existing response (requires edit_responses)
+     * The id, creation time and author are kept; the editor and edit time are recorded.
      */
-    private function deleteResponse($responseId, $user) {
+    private function updateResponse($responseId, $user) {
+        $input = json_decode(file_get_contents('php://input'), true);
+        $responses = $input['responses'] ?? null;
+
+        if (!is_array($responses)) {
+            http_response_code(400);
+            echo json_encode(['message' => 'Responses are required']);
+            return;
+        }
+
         try {
-            // Check permissions - users can delete their own responses, admins can delete any
-            $query = "DELETE FROM responses WHERE id = ?";
-            $params = [$responseId];
+            $stmt = $this->db->prepare("SELECT form_id, form_version, responses, created_at FROM responses WHERE id = ?");
+            $stmt->execute([$responseId]);
+            $existing = $stmt->fetch();
 
-            if ($user['role'] !== 'admin') {
-                $query .= " AND user_id = ?";
-                $params[] = $user['id'];
+            if (!$existing) {
+                http_response_code(404);
+                echo json_encode(['message' => 'Response not found']);
+                return;
             }
 
-            $stmt = $this->db->prepare($query);
-            $stmt->execute($params);
+            $this->permissions->requirePermission($user, $existing['form_id'], 'edit_responses');
+
+            $formVersion = $input['formVersion'] ?? $existing['form_version'];
+            $responses = $this->withCalculatedValues($existing['form_id'], $formVersion, $responses, $existing['created_at']);
+            if (!$this->passesValidation($existing['form_id'], $formVersion, $responses)) {
+                return;
+            }
+
+            $stmt = $this->db->prepare("
+                UPDATE responses 
+                SET responses = ?, form_version = ?, score = ?, max_score = ?, passed = ?, updated_at = NOW(), updated_by = ? 
+                WHERE id = ?
+            ");
+            $stmt->execute(array_merge(
+                [json_encode($responses), $formVersion],
+                $this->scoreColumns($existing['form_id'], $formVersion, $responses),
+                [$user['id'], $responseId]
+            ));
+
+            $previous = json_decode($existing['responses'], true) ?: [];
+            $this->audit->record(
+                $user,
+                'response',
+                $responseId,
+                $existing['form_id'],
+                'update',
+                AuditLog::diffResponses($previous, $responses)
+            );
+
+            // Attachments removed while editing are deleted
+            $removedFiles = array_values(array_diff(Uploads::attachmentIds($previous), Uploads::attachmentIds($responses)));
+            Uploads::deleteFiles($this->db, $existing['form_id'], $removedFiles);
+
+            $stmt = $this->db->prepare("
+                SELECT r.*, u.username, e.username AS updated_by_username 
+                FROM responses r 
+                LEFT JOIN users u ON r.user_id = u.id 
+                LEFT JOIN users e ON r.updated_by = e.id 
+                WHERE r.id = ?
+            ");
+            $stmt->execute([$responseId]);
+
+            echo json_encode($this->formatResponse($stmt->fetch()));
 
-            if ($stmt->rowCount() === 0) {
+        } catch (Exception $e) {
+            error_log("Error updating response: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Delete response (also used to discard drafts, which are not audited) and its attachments
+     */
+    private function deleteResponse($responseId, $user) {
+        try {
+            $stmt = $this->db->prepare("SELECT form_id, user_id, status, responses FROM responses WHERE id = ?");
+            $stmt->execute([$responseId]);
+            $response = $stmt->fetch();
+
+            // Check permissions - users can delete their own responses,
+            // users with edit_responses on the form can delete any
+            if (!$response || (
+                $response['user_id'] !== $user['id'] &&
+                !$this->permissions->can($user, $response['form_id'], 'edit_responses')
+            )) {
                 http_response_code(404);
                 echo json_encode(['message' => 'Response not found or not authorized']);
                 return;
             }
 
+            $stmt = $this->db->prepare("DELETE FROM responses WHERE id = ?");
+            $stmt->execute([$responseId]);
+
+            $previous = json_decode($response['responses'], true) ?: [];
+            Uploads::deleteFiles($this->db, $response['form_id'], Uploads::attachmentIds($previous));
+
+            if ($response['status'] !== 'draft') {
+                $this->audit->record(
+                    $user,
+                    'response',
+                    $responseId,
+                    $response['form_id'],
+                    'delete',
+                    AuditLog::diffResponses($previous, [])
+                );
+            }
+
             echo json_encode(['message' => 'Response deleted']);
 
         } catch (Exception $e) {
@@ -160,22 +419,35 @@ class ResponsesRoutes {
             return;
         }
 
+        foreach (array_unique(array_column($input, 'formId')) as $formId) {
+            $this->permissions->requirePermission($user, $formId, 'fill');
+        }
+
         try {
             $this->db->beginTransaction();
 
             foreach ($input as $responseData) {
+                $responseId = $this->db->query("SELECT UUID()")->fetchColumn();
+
                 $stmt = $this->db->prepare("
-                    INSERT INTO responses (id, form_id, form_version, responses, user_id, created_at, updated_offline) 
-                    VALUES (UUID(), ?, ?, ?, ?, ?, 1)
+                    INSERT INTO responses (id, form_id, form_version, responses, score, max_score, passed, user_id, created_at, updated_offline) 
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
                 ");
                 
-                $stmt->execute([
+                $stmt->execute(array_merge(
+                    [$responseId, $responseData['formId'], $responseData['formVersion'], json_encode($responseData['responses'])],
+                    $this->scoreColumns($responseData['formId'], $responseData['formVersion'], $responseData['responses']),
+                    [$user['id'], $responseData['createdAt']]
+                ));
+
+                $this->audit->record(
+                    $user,
+                    'response',
+                    $responseId,
                     $responseData['formId'],
-                    $responseData['formVersion'],
-                    json_encode($responseData['responses']),
-                    $user['id'],
-                    $responseData['createdAt']
-                ]);
+                    'create',
+                    AuditLog::diffResponses([], $responseData['responses'])
+                );
             }
 
             $this->db->commit();
@@ -188,5 +460,72 @@ class ResponsesRoutes {
             echo json_encode(['message' => 'Server error']);
         }
     }
+
+    /**
+     * Capture time sent by the client (ms timestamp), clamped so it can be neither in the
+     * future nor older than MAX_CAPTURE_AGE_DAYS; null (the server time) when missing
+     */
+    private function captureTime($createdAt) {
+        if (!is_numeric($createdAt)) {
+            return null;
+        }
+
+        $now = time();
+        $oldest = $now - self::MAX_CAPTURE_AGE_DAYS * 86400;
+        $timestamp = max($oldest, min($now, (int) ($createdAt / 1000)));
+
+        return date('Y-m-d H:i:s', $timestamp);
+    }
+
+    /**
+     * Answers with the calculated fields recomputed from the other answers (the values
+     * sent by the client are replaced); today() is the date the response was captured
+     */
+    private function withCalculatedValues($formId, $formVersion, $responses, $capturedAt) {
+        $today = $capturedAt ? substr($capturedAt, 0, 10) : date('Y-m-d');
+        return FormulaEvaluator::recompute($this->validator->getQuestions($formId, $formVersion), $responses, $today);
+    }
+
+    /**
+     * Re-check the question validation rules; responds 422 with the errors when they fail
+     */
+    private function passesValidation($formId, $formVersion, $responses) {
+        $errors = $this->validator->validate($this->validator->getQuestions($formId, $formVersion), $responses);
+
+        if (!empty($errors)) {
+            http_response_code(422);
+            echo json_encode(['message' => 'Validation failed', 'errors' => $errors]);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Values of the score, max_score and passed columns (all null for forms without scoring)
+     */
+    private function scoreColumns($formId, $formVersion, $responses) {
+        $definition = $this->validator->getDefinition($formId, $formVersion);
+        $score = ResponseScorer::score($definition['questions'], $responses, $definition['passMark']);
+
+        if (!$score) {
+            return [null, null, null];
+        }
+        return [$score['score'], $score['maxScore'], $score['passed'] === null ? null : (int) $score['passed']];
+    }
+
+    /**
+     * Parse JSON fields and convert timestamps
+     */
+    private function formatResponse($response) {
+        $response['responses'] = Uploads::signAttachments(json_decode($response['responses'], true) ?: []);
+        $response['created_at'] = strtotime($response['created_at']) * 1000;
+        $response['updated_at'] = $response['updated_at'] ? strtotime($response['updated_at']) * 1000 : null;
+        $response['updated_offline'] = (bool) $response['updated_offline'];
+        $response['score'] = $response['score'] !== null ? (float) $response['score'] : null;
+        $response['max_score'] = $response['max_score'] !== null ? (float) $response['max_score'] : null;
+        $response['passed'] = $response['passed'] !== null ? (bool) $response['passed'] : null;
+        return $response;
+    }
 }
 ?>
\ No newline at end of file
@@ -0,0 +1,273 @@
+<?php
+require_once __DIR__ . '/../config/database.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../config/uploads.php';
+
+/**
+ * Users routes (admin only; editors may list users to share forms with them)
+ */
+class UsersRoutes {
+    private $db;
+    private $auth;
+
+    private const ROLES = ['admin', 'editor', 'analyst', 'respondent'];
+
+    public function __construct() {
+        $database = new Database();
+        $this->db = $database->getConnection();
+        $this->auth = new AuthMiddleware();
+    }
+
+    /**
+     * Handle users routes
+     */
+    public function handleRequest($method, $id = null) {
+        $user = $this->auth->authenticate();
+        $this->auth->requireRole($user, $method === 'GET' ? ['admin', 'editor'] : 'admin');
+
+        switch ($method) {
+            case 'GET':
+                $this->getUsers();
+                break;
+            case 'POST':
+                $this->createUser();
+                break;
+            case 'PUT':
+                if ($id) {
+                    $this->updateUser($id, $user);
+                }
+                break;
+            case 'DELETE':
+                if ($id) {
+                    $this->deleteUser($id, $user);
+                }
+                break;
+            default:
+                http_response_code(405);
+                echo json_encode(['message' => 'Method not allowed']);
+        }
+    }
+
+    /**
+     * Get all users, optionally filtered by ?search=
+     */
+    private function getUsers() {
+        try {
+            $query = "SELECT id, username, role, active, created_at FROM users";
+            $params = [];
+
+            if (!empty($_GET['search'])) {
+                $query .= " WHERE username LIKE ?";
+                $params[] = '%' . $_GET['search'] . '%';
+            }
+
+            $query .= " ORDER BY username";
+
+            $stmt = $this->db->prepare($query);
+            $stmt->execute($params);
+            $users = $stmt->fetchAll();
+
+            foreach ($users as &$row) {
+                $row = $this->formatUser($row);
+            }
+
+            echo json_encode($users);
+
+        } catch (Exception $e) {
+            error_log("Error fetching users: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Create a user with any role
+     */
+    private function createUser() {
+        $input = json_decode(file_get_contents('php://input'), true);
+
+        $username = trim($input['username'] ?? '');
+        $password = $input['password'] ?? '';
+        $role = $input['role'] ?? 'respondent';
+
+        if (empty($username) || empty($password)) {
+            http_response_code(400);
+            echo json_encode(['message' => 'Username and password are required']);
+            return;
+        }
+
+        if (!in_array($role, self::ROLES, true)) {
+            http_response_code(400);
+            echo json_encode(['message' => 'Invalid role']);
+            return;
+        }
+
+        try {
+            $stmt = $this->db->prepare("SELECT id FROM users WHERE username = ?");
+            $stmt->execute([$username]);
+
+            if ($stmt->fetch()) {
+                http_response_code(400);
+                echo json_encode(['message' => 'Username already exists']);
+                return;
+            }
+
+            $stmt = $this->db->prepare("
+                INSERT INTO users (id, username, password, role, active, created_at)
+                VALUES (UUID(), ?, ?, ?, 1, NOW())
+            ");
+            $stmt->execute([$username, password_hash($password, PASSWORD_DEFAULT), $role]);
+
+            http_response_code(201);
+            echo json_encode($this->findUser('username', $username));
+
+        } catch (Exception $e) {
+            error_log("Error creating user: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Update role, password or active flag
+     * Admins cannot demote or deactivate themselves, so there is always one admin left
+     */
+    private function updateUser($id, $currentUser) {
+        $input = json_decode(file_get_contents('php://input'), true);
+
+        $fields = [];
+        $params = [];
+
+        if (isset($input['role'])) {
+            if (!in_array($input['role'], self::ROLES, true)) {
+                http_response_code(400);
+                echo json_encode(['message' => 'Invalid role']);
+                return;
+            }
+            if ($id === $currentUser['id'] && $input['role'] !== 'admin') {
+                http_response_code(400);
+                echo json_encode(['message' => 'You cannot remove your own admin role']);
+                return;
+            }
+            $fields[] = "role = ?";
+            $params[] = $input['role'];
+        }
+
+        if (!empty($input['password'])) {
+            $fields[] = "password = ?";
+            $params[] = password_hash($input['password'], PASSWORD_DEFAULT);
+        }
+
+        if (isset($input['active'])) {
+            if ($id === $currentUser['id'] && !$input['active']) {
+                http_response_code(400);
+                echo json_encode(['message' => 'You cannot deactivate your own account']);
+                return;
+            }
+            $fields[] = "active = ?";
+            $params[] = $input['active'] ? 1 : 0;
+        }
+
+        if (empty($fields)) {
+            http_response_code(400);
+            echo json_encode(['message' => 'Nothing to update']);
+            return;
+        }
+
+        try {
+            $user = $this->findUser('id', $id);
+            if (!$user) {
+                http_response_code(404);
+                echo json_encode(['message' => 'User not found']);
+                return;
+            }
+
+            $params[] = $id;
+            $stmt = $this->db->prepare("UPDATE users SET " . implode(', ', $fields) . " WHERE id = ?");
+            $stmt->execute($params);
+
+            echo json_encode($this->findUser('id', $id));
+
+        } catch (Exception $e) {
+            error_log("Error updating user: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    /**
+     * Delete a user without forms or responses (drafts included)
+     * Deleting an owner would cascade to their forms, every response to them and
+     * their own responses, bypassing the audit trail: those users get a 409 and
+     * must be deactivated instead. Files they uploaded but never attached to a
+     * response are deleted with them.
+     */
+    private function deleteUser($id, $currentUser) {
+        if ($id === $currentUser['id']) {
+            http_response_code(400);
+            echo json_encode(['message' => 'You cannot delete your own account']);
+            return;
+        }
+
+        try {
+            if (!$this->findUser('id', $id)) {
+                http_response_code(404);
+                echo json_encode(['message' => 'User not found']);
+                return;
+            }
+
+            $stmt = $this->db->prepare("
+                SELECT (SELECT COUNT(*) FROM forms WHERE created_by = ?)
+                     + (SELECT COUNT(*) FROM responses WHERE user_id = ?)
+            ");
+            $stmt->execute([$id, $id]);
+            if ((int) $stmt->fetchColumn() > 0) {
+                http_response_code(409);
+                echo json_encode(['message' => 'User has forms or responses; deactivate the account instead']);
+                return;
+            }
+
+            $this->db->beginTransaction();
+
+            $stmt = $this->db->prepare("SELECT storage_key FROM files WHERE uploaded_by = ?");
+            $stmt->execute([$id]);
+            $storageKeys = $stmt->fetchAll(PDO::FETCH_COLUMN);
+
+            $stmt = $this->db->prepare("DELETE FROM files WHERE uploaded_by = ?");
+            $stmt->execute([$id]);
+
+            $stmt = $this->db->prepare("DELETE FROM users WHERE id = ?");
+            $stmt->execute([$id]);
+
+            $this->db->commit();
+
+            // Stored bytes go once nothing references them any more
+            Uploads::deleteStored($storageKeys);
+
+            echo json_encode(['message' => 'User deleted']);
+
+        } catch (Exception $e) {
+            if ($this->db->inTransaction()) {
+                $this->db->rollBack();
+            }
+            error_log("Error deleting user: " . $e->getMessage());
+            http_response_code(500);
+            echo json_encode(['message' => 'Server error']);
+        }
+    }
+
+    private function findUser($column, $value) {
+        $stmt = $this->db->prepare("SELECT id, username, role, active, created_at FROM users WHERE $column = ?");
+        $stmt->execute([$value]);
+        $user = $stmt->fetch();
+
+        return $user ? $this->formatUser($user) : null;
+    }
+
+    private function formatUser($user) {
+        $user['active'] = (bool) $user['active'];
+        $user['created_at'] = strtotime($user['created_at']) * 1000;
+        return $user;
+    }
+}
+?>
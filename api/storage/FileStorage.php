@@ -0,0 +1,25 @@
+<?php
+/**
+ * Storage backend for uploaded files
+ * Files are addressed by an opaque key; each backend decides where the bytes live.
+ */
+interface FileStorage {
+
+    /**
+     * Store the file at $sourcePath (an uploaded temp file) under $key
+     * @return bool True when the file was stored
+     */
+    public function put($key, $sourcePath);
+
+    /**
+     * Write the stored file to the output
+     * @return bool False when the file does not exist
+     */
+    public function stream($key);
+
+    /**
+     * Remove a stored file (missing files are ignored)
+     */
+    public function delete($key);
+}
+?>
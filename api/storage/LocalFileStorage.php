@@ -0,0 +1,65 @@
+<?php
+require_once __DIR__ . '/FileStorage.php';
+
+/**
+ * File storage on the local filesystem
+ * Files live under UPLOAD_DIR (default api/uploads), one folder per form.
+ */
+class LocalFileStorage implements FileStorage {
+    private $baseDir;
+
+    public function __construct($baseDir = null) {
+        $this->baseDir = rtrim($baseDir ?? ($_ENV['UPLOAD_DIR'] ?? __DIR__ . '/../uploads'), '/');
+    }
+
+    public function put($key, $sourcePath) {
+        $path = $this->pathFor($key);
+        $dir = dirname($path);
+
+        if (!is_dir($dir) && !mkdir($dir, 0750, true)) {
+            return false;
+        }
+        $this->protectBaseDir();
+
+        return move_uploaded_file($sourcePath, $path);
+    }
+
+    public function stream($key) {
+        $path = $this->pathFor($key);
+        if (!is_file($path)) {
+            return false;
+        }
+
+        readfile($path);
+        return true;
+    }
+
+    public function delete($key) {
+        $path = $this->pathFor($key);
+        if (is_file($path)) {
+            unlink($path);
+        }
+    }
+
+    /**
+     * Absolute path of a key (keys may only contain safe characters and "/")
+     */
+    private function pathFor($key) {
+        if (!preg_match('#^[A-Za-z0-9_-]+(/[A-Za-z0-9_-]+)*$#', $key)) {
+            throw new Exception("Invalid storage key");
+        }
+        return $this->baseDir . '/' . $key;
+    }
+
+    /**
+     * Files are only served through the API: deny direct access when the
+     * upload folder sits inside the web root (Apache)
+     */
+    private function protectBaseDir() {
+        $htaccess = $this->baseDir . '/.htaccess';
+        if (!file_exists($htaccess)) {
+            file_put_contents($htaccess, "Require all denied\n");
+        }
+    }
+}
+?>
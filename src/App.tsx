@@ -1,5 +1,5 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { createBrowserRouter, RouterProvider, Routes, Route } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { FormProvider } from './contexts/FormContext';
 import { DatabaseProvider } from './contexts/DatabaseContext';
@@ -12,65 +12,123 @@ import FormsList from './components/forms/FormsList';
 import FormBuilder from './components/forms/FormBuilder';
 import FormPreview from './components/forms/FormPreview';
 import FormResponses from './components/responses/FormResponses';
+import ResponsePrintView from './components/responses/ResponsePrintView';
+import DraftsList from './components/responses/DraftsList';
 import ImportExport from './components/import-export/ImportExport';
+import UsersList from './components/users/UsersList';
+import AuditLog from './components/audit/AuditLog';
 import "./i18n";
 
+/**
+ * Rutas de la aplicación con el diseño común
+ */
+const AppRoutes: React.FC = () => (
+  <div className="min-h-screen bg-gray-50 text-gray-900 flex flex-col">
+    <Routes>
+      <Route path="/login" element={<LoginPage />} />
+      <Route path="/register" element={<RegisterPage />} />
+      <Route
+        path="/*"
+        element={
+          <PrivateRoute>
+            <>
+              <Navbar />
+              <main className="flex-grow p-4 md:p-6 print:p-0">
+                <Routes>
+                  <Route path="/\" element={<FormsList />} />
+                  <Route
+                    path="/crear"
+                    element={
+                      <PrivateRoute requiredRole={['admin', 'editor']}>
+                        <FormBuilder />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route
+                    path="/editar/:id"
+                    element={
+                      <PrivateRoute formPermission="edit">
+                        <FormBuilder />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route
+                    path="/vista-previa/:id"
+                    element={
+                      <PrivateRoute formPermission="fill">
+                        <FormPreview />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route
+                    path="/vista-previa/:id/:responseId"
+                    element={
+                      <PrivateRoute formPermission="edit_responses">
+                        <FormPreview />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route
+                    path="/respuestas/:id"
+                    element={
+                      <PrivateRoute formPermission="view_responses">
+                        <FormResponses />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route
+                    path="/respuestas/:id/:responseId/imprimir"
+                    element={
+                      <PrivateRoute formPermission="view_responses">
+                        <ResponsePrintView />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route path="/borradores" element={<DraftsList />} />
+                  <Route
+                    path="/importar-exportar"
+                    element={
+                      <PrivateRoute requiredRole="admin">
+                        <ImportExport />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route
+                    path="/usuarios"
+                    element={
+                      <PrivateRoute requiredRole="admin">
+                        <UsersList />
+                      </PrivateRoute>
+                    }
+                  />
+                  <Route
+                    path="/auditoria"
+                    element={
+                      <PrivateRoute requiredRole="admin">
+                        <AuditLog />
+                      </PrivateRoute>
+                    }
+                  />
+                </Routes>
+              </main>
+            </>
+          </PrivateRoute>
+        }
+      />
+    </Routes>
+    <Toaster position="bottom-right" />
+  </div>
+);
+
+// Enrutador de datos: permite retener la navegación con cambios sin guardar (useBlocker)
+const router = createBrowserRouter([{ path: '*', element: <AppRoutes /> }]);
+
 function App() {
   return (
     <AuthProvider>
       <DatabaseProvider>
         <FormProvider>
-          <Router>
-            <div className="min-h-screen bg-gray-50 text-gray-900 flex flex-col">
-              <Routes>
-                <Route path="/login" element={<LoginPage />} />
-                <Route path="/register" element={<RegisterPage />} />
-                <Route
-                  path="/*"
-                  element={
-                    <PrivateRoute>
-                      <>
-                        <Navbar />
-                        <main className="flex-grow p-4 md:p-6">
-                          <Routes>
-                            <Route path="/\" element={<FormsList />} />
-                            <Route
-                              path="/crear"
-                              element={
-                                <PrivateRoute requiredRole="admin">
-                                  <FormBuilder />
-                                </PrivateRoute>
-                              }
-                            />
-                            <Route
-                              path="/editar/:id"
-                              element={
-                                <PrivateRoute requiredRole="admin">
-                                  <FormBuilder />
-                                </PrivateRoute>
-                              }
-                            />
-                            <Route path="/vista-previa/:id" element={<FormPreview />} />
-                            <Route path="/vista-previa/:id/:responseId" element={<FormPreview />} />
-                            <Route path="/respuestas/:id" element={<FormResponses />} />
-                            <Route
-                              path="/importar-exportar"
-                              element={
-                                <PrivateRoute requiredRole="admin">
-                                  <ImportExport />
-                                </PrivateRoute>
-                              }
-                            />
-                          </Routes>
-                        </main>
-                      </>
-                    </PrivateRoute>
-                  }
-                />
-              </Routes>
-              <Toaster position="bottom-right" />
-            </div>
-          </Router>
+          <RouterProvider router={router} />
         </FormProvider>
       </DatabaseProvider>
     </AuthProvider>
@@ -0,0 +1,97 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { AuditEvent, Form, Question } from '../../types';
+import { findQuestion, formatResponseValue } from '../../utils/responseFormat';
+
+// Etiquetas (claves de traducción) de cada acción auditada
+export const AUDIT_ACTION_LABELS: Record<AuditEvent['action'], string> = {
+  create: 'Creación',
+  update: 'Edición',
+  delete: 'Eliminación'
+};
+
+// Etiquetas (claves de traducción) de las propiedades de una pregunta que cambian con más frecuencia
+const QUESTION_PROPERTY_LABELS: Record<string, string> = {
+  text: 'Texto',
+  type: 'Tipo',
+  code: 'Código',
+  required: 'Obligatoria',
+  options: 'Opciones',
+  validation: 'Validación',
+  visibility: 'Visibilidad',
+  formula: 'Fórmula',
+  scoring: 'Puntuación'
+};
+
+interface AuditChangesProps {
+  event: AuditEvent; // Evento cuyos cambios se muestran
+  form?: Form | null; // Formulario para mostrar textos de preguntas y opciones
+}
+
+/**
+ * Componente AuditChanges - Lista de cambios campo a campo de un evento de auditoría
+ * (valor anterior tachado y valor nuevo)
+ */
+const AuditChanges: React.FC<AuditChangesProps> = ({ event, form }) => {
+  const { t } = useTranslation();
+
+  /**
+   * Nombre legible del campo modificado
+   */
+  const getFieldLabel = (field: string) => {
+    if (event.entityType === 'response') {
+      return (form && findQuestion(form.questions, field)?.text) || field;
+    }
+
+    if (field === 'name') return t('Nombre');
+    if (field === 'description') return t('Descripción');
+
+    // `question:<id>` (pregunta añadida o eliminada) o `question:<id>:<propiedad>`
+    const [, questionId, property] = field.split(':');
+    const question = form ? findQuestion(form.questions, questionId) : undefined;
+    const label = `${t('Pregunta')}: ${question?.text ?? questionId}`;
+    if (!property) return label;
+    return `${label} (${QUESTION_PROPERTY_LABELS[property] ? t(QUESTION_PROPERTY_LABELS[property]) : property})`;
+  };
+
+  /**
+   * Valor legible (los de respuestas se formatean según el tipo de pregunta)
+   */
+  const formatValue = (field: string, value: unknown) => {
+    if (event.entityType === 'response') {
+      return formatResponseValue(form ? findQuestion(form.questions, field) : undefined, value);
+    }
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean') return value ? t('Sí') : t('No');
+    if (typeof value !== 'object') return String(value);
+
+    // Pregunta añadida o eliminada: su texto; otras propiedades: su JSON
+    const isQuestion = !field.split(':')[2] && 'text' in value;
+    return isQuestion ? String((value as Question).text) : JSON.stringify(value);
+  };
+
+  if (event.changes.length === 0) {
+    return <p className="text-xs text-gray-400 italic">{t('Sin cambios en los valores')}</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {event.changes.map(change => {
+        const before = formatValue(change.field, change.before);
+        const after = formatValue(change.field, change.after);
+
+        return (
+          <li key={change.field} className="text-xs">
+            <span className="font-medium text-gray-700">{getFieldLabel(change.field)}: </span>
+            {before && <span className="line-through text-red-600 mr-1">{before}</span>}
+            {before && after && <span className="text-gray-400 mr-1">→</span>}
+            {after && <span className="text-green-700">{after}</span>}
+            {!before && !after && <span className="text-gray-400">—</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default AuditChanges;
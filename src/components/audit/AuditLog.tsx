@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { ChevronDown, ChevronRight } from 'lucide-react'; // Íconos
+import { useDatabase } from '../../contexts/DatabaseContext'; // Usuarios y auditoría
+import { useForm } from '../../contexts/FormContext'; // Formularios
+import { AuditEvent } from '../../types';
+import { formatDateDisplay } from '../../utils/dateUtils';
+import AuditChanges, { AUDIT_ACTION_LABELS } from './AuditChanges';
+import Spinner from '../ui/Spinner'; // Componente de carga
+
+// Filtros del formulario de búsqueda (fechas en formato yyyy-mm-dd)
+interface Filters {
+  userId: string;
+  formId: string;
+  entityType: '' | AuditEvent['entityType'];
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { userId: '', formId: '', entityType: '', from: '', to: '' };
+
+/**
+ * Componente AuditLog - Registro de auditoría de formularios y respuestas (solo admin)
+ *
+ * Permite filtrar por usuario, formulario, tipo de entidad y rango de fechas,
+ * y desplegar el detalle de cambios de cada evento.
+ */
+const AuditLog: React.FC = () => {
+  // ======================
+  // HOOKS Y ESTADO
+  // ======================
+  const { t } = useTranslation();
+  const { users, fetchUsers, fetchAuditLog } = useDatabase();
+  const { forms, loadForms } = useForm();
+
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+
+  // ======================
+  // EFECTOS SECUNDARIOS
+  // ======================
+
+  // Carga usuarios y formularios para los filtros
+  useEffect(() => {
+    fetchUsers().catch(() => {});
+    if (forms.length === 0) {
+      loadForms();
+    }
+  }, []);
+
+  // Vuelve a consultar el registro cuando cambian los filtros
+  useEffect(() => {
+    setIsLoading(true);
+    fetchAuditLog({
+      userId: filters.userId || undefined,
+      formId: filters.formId || undefined,
+      entityType: filters.entityType || undefined,
+      from: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined,
+      to: filters.to ? new Date(`${filters.to}T23:59:59`).getTime() : undefined
+    })
+      .then(setEvents)
+      .catch(() => setEvents([]))
+      .finally(() => setIsLoading(false));
+  }, [filters]);
+
+  // ======================
+  // FUNCIONES UTILITARIAS
+  // ======================
+
+  /**
+   * Nombre del formulario del evento (de los eventos de eliminación si ya no existe)
+   */
+  const getFormName = (event: AuditEvent) => {
+    const form = forms.find(f => f.id === event.formId);
+    if (form) return form.name;
+
+    const nameChange = event.changes.find(change => change.field === 'name');
+    return nameChange?.before ? String(nameChange.before) : t('Formulario eliminado');
+  };
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  // ======================
+  // RENDERIZADO
+  // ======================
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="container mx-auto">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-6">{t('Auditoría')}</h1>
+
+        {/* Filtros */}
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-6">
+          <select value={filters.userId} onChange={(e) => updateFilter('userId', e.target.value)} className={inputClass}>
+            <option value="">{t('Todos los usuarios')}</option>
+            {users.map(u => (
+              <option key={u.id} value={u.id}>{u.username}</option>
+            ))}
+          </select>
+
+          <select value={filters.formId} onChange={(e) => updateFilter('formId', e.target.value)} className={inputClass}>
+            <option value="">{t('Todos los formularios')}</option>
+            {forms.map(f => (
+              <option key={f.id} value={f.id}>{f.name}</option>
+            ))}
+          </select>
+
+          <select value={filters.entityType} onChange={(e) => updateFilter('entityType', e.target.value)} className={inputClass}>
+            <option value="">{t('Formularios y respuestas')}</option>
+            <option value="form">{t('Formularios')}</option>
+            <option value="response">{t('Respuestas')}</option>
+          </select>
+
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={inputClass}
+            title={t('Desde')}
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={inputClass}
+            title={t('Hasta')}
+          />
+
+          <button
+            type="button"
+            onClick={() => setFilters(EMPTY_FILTERS)}
+            className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            {t('Limpiar filtros')}
+          </button>
+        </div>
+
+        {/* Eventos */}
+        {isLoading ? (
+          <div className="flex justify-center my-12">
+            <Spinner />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">{t('No hay eventos para estos filtros')}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr className="bg-gray-100 text-gray-600 uppercase text-sm leading-normal">
+                  <th className="py-3 px-4 text-left">{t('Fecha')}</th>
+                  <th className="py-3 px-4 text-left">{t('Usuario')}</th>
+                  <th className="py-3 px-4 text-left">{t('Acción')}</th>
+                  <th className="py-3 px-4 text-left">{t('Formulario')}</th>
+                  <th className="py-3 px-4 text-center">{t('Cambios')}</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-600 text-sm">
+                {events.map(event => {
+                  const isExpanded = expandedEventId === event.id;
+
+                  return (
+                    <React.Fragment key={event.id}>
+                      <tr
+                        className="border-b border-gray-200 hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setExpandedEventId(isExpanded ? null : event.id)}
+                      >
+                        <td className="py-3 px-4 whitespace-nowrap">{formatDateDisplay(event.createdAt)}</td>
+                        <td className="py-3 px-4">{event.username}</td>
+                        <td className="py-3 px-4">
+                          {t(AUDIT_ACTION_LABELS[event.action])}{' '}
+                          <span className="text-gray-400">
+                            ({event.entityType === 'form' ? t('formulario') : t('respuesta')})
+                          </span>
+                        </td>
+                        <td className="py-3 px-4">{getFormName(event)}</td>
+                        <td className="py-3 px-4 text-center">
+                          <span className="inline-flex items-center">
+                            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                            <span className="ml-1">{event.changes.length}</span>
+                          </span>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50 border-b border-gray-200">
+                          <td colSpan={5} className="py-3 px-8">
+                            <AuditChanges event={event} form={forms.find(f => f.id === event.formId)} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { History, X } from 'lucide-react'; // Íconos
+import { useDatabase } from '../../contexts/DatabaseContext'; // Consulta del historial
+import { AuditEvent, Form, FormResponse } from '../../types';
+import { formatDateDisplay } from '../../utils/dateUtils';
+import AuditChanges, { AUDIT_ACTION_LABELS } from './AuditChanges';
+import Spinner from '../ui/Spinner'; // Componente de carga
+
+interface ResponseHistoryDrawerProps {
+  response: FormResponse; // Respuesta cuyo historial se muestra
+  form: Form; // Formulario de la respuesta
+  onClose: () => void; // Cierra el panel
+}
+
+/**
+ * Componente ResponseHistoryDrawer - Panel lateral con el historial de cambios de una respuesta
+ */
+const ResponseHistoryDrawer: React.FC<ResponseHistoryDrawerProps> = ({ response, form, onClose }) => {
+  const { t } = useTranslation();
+  const { fetchResponseHistory } = useDatabase();
+
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Carga el historial cada vez que cambia la respuesta
+  useEffect(() => {
+    setIsLoading(true);
+    fetchResponseHistory(response.id)
+      .then(setEvents)
+      .catch(() => setEvents([]))
+      .finally(() => setIsLoading(false));
+  }, [response.id, response.updatedAt]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-md h-full shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Encabezado */}
+        <div className="p-4 border-b flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <History size={18} className="mr-2" /> {t('Historial de cambios')}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {formatDateDisplay(response.createdAt)} · {response.username || t('Usuario Anónimo')}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Eventos (más reciente primero) */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading ? (
+            <div className="flex justify-center my-8">
+              <Spinner />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">{t('No hay cambios registrados')}</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2">
+              {events.map(event => (
+                <li key={event.id} className="mb-6 ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-green-500" />
+                  <div className="text-sm font-medium text-gray-800">
+                    {t(AUDIT_ACTION_LABELS[event.action])} · {event.username}
+                  </div>
+                  <div className="text-xs text-gray-500 mb-2">{formatDateDisplay(event.createdAt)}</div>
+                  <AuditChanges event={event} form={form} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResponseHistoryDrawer;
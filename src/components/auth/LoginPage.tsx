@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link, Location } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext'; // Contexto de autenticación
 import { LogIn } from 'lucide-react'; // Ícono
 import toast from 'react-hot-toast'; // Notificaciones
@@ -12,6 +12,11 @@ const LoginPage: React.FC = () => {
   // Hook del contexto de autenticación
   const { login, isLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Ubicación guardada por PrivateRoute antes de redirigir al login
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
 
   // Maneja el envío del formulario
   const handleSubmit = async (e: React.FormEvent) => {
@@ -20,7 +25,7 @@ const LoginPage: React.FC = () => {
     try {
       await login(username, password); // Llama a la función login del contexto
       toast.success('Login successful');
-      navigate('/'); // Redirige al home
+      navigate(redirectTo, { replace: true }); // Vuelve a donde estaba el usuario
     } catch (error) {
       toast.error('Invalid credentials'); // Muestra error si falla
     }
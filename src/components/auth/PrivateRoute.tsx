@@ -1,26 +1,48 @@
-import React from 'react';
-import { Navigate, useLocation } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Navigate, useLocation, useParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext'; // Contexto de autenticación
-import { UserRole } from '../../types'; // Tipos de roles de usuario
+import { useForm } from '../../contexts/FormContext'; // Contexto de formularios
+import { FormPermission, UserRole } from '../../types'; // Tipos de roles y permisos
+import { hasFormPermission } from '../../utils/permissions'; // Modelo de permisos
+import Spinner from '../ui/Spinner'; // Componente de carga
 
 // Definición de props del componente
 interface PrivateRouteProps {
   children: React.ReactNode; // Componentes hijos a renderizar
-  requiredRole?: UserRole; // Rol requerido para acceder (opcional)
+  requiredRole?: UserRole | UserRole[]; // Rol (o roles) requerido para acceder (opcional)
+  formPermission?: FormPermission; // Permiso requerido sobre el formulario `:id` de la ruta (opcional)
 }
 
 /**
- * Componente PrivateRoute - Protege rutas basado en autenticación y roles
- * 
+ * Componente PrivateRoute - Protege rutas basado en autenticación, roles y permisos por formulario
+ *
  * Funcionalidades:
  * 1. Verifica si el usuario está autenticado
  * 2. Comprueba si el usuario tiene el rol necesario (si se especifica)
- * 3. Redirige a login o a home según corresponda
+ * 3. Comprueba si el usuario tiene el permiso necesario sobre el formulario (si se especifica)
+ * 4. Redirige a login o a home según corresponda
  */
-const PrivateRoute: React.FC<PrivateRouteProps> = ({ children, requiredRole }) => {
+const PrivateRoute: React.FC<PrivateRouteProps> = ({ children, requiredRole, formPermission }) => {
   // Obtiene estado de autenticación y datos del usuario del contexto
   const { isAuthenticated, user } = useAuth();
+  const { forms, currentForm, loadForm, isLoading } = useForm();
   const location = useLocation(); // Hook para obtener la ubicación actual
+  const { id } = useParams<{ id: string }>();
+  const [requestedFormId, setRequestedFormId] = useState<string | null>(null);
+  const formRequested = !!id && requestedFormId === id;
+
+  // Formulario de la ruta, si ya está cargado
+  const form = formPermission && id
+    ? (currentForm?.id === id ? currentForm : forms.find(f => f.id === id))
+    : undefined;
+
+  // Carga el formulario de la ruta si aún no se conoce para poder comprobar el permiso
+  useEffect(() => {
+    if (isAuthenticated && formPermission && id && !form && !formRequested) {
+      setRequestedFormId(id);
+      loadForm(id);
+    }
+  }, [isAuthenticated, formPermission, id, form, formRequested]);
 
   // 1. Redirige a login si no está autenticado
   if (!isAuthenticated) {
@@ -29,12 +51,31 @@ const PrivateRoute: React.FC<PrivateRouteProps> = ({ children, requiredRole }) =
   }
 
   // 2. Redirige a home si no tiene el rol requerido
-  if (requiredRole && user?.role !== requiredRole) {
+  const roles = requiredRole ? ([] as UserRole[]).concat(requiredRole) : [];
+  if (roles.length > 0 && (!user || !roles.includes(user.role))) {
     return <Navigate to="/" replace />;
   }
 
-  // 3. Renderiza los hijos si pasa las validaciones
+  // 3. Redirige a home si no tiene el permiso requerido sobre el formulario
+  if (formPermission && id) {
+    if (!form) {
+      if (!formRequested || isLoading) {
+        return (
+          <div className="flex justify-center my-12">
+            <Spinner />
+          </div>
+        );
+      }
+      return <Navigate to="/" replace />;
+    }
+
+    if (!hasFormPermission(user, form, formPermission)) {
+      return <Navigate to="/" replace />;
+    }
+  }
+
+  // 4. Renderiza los hijos si pasa las validaciones
   return <>{children}</>;
 };
 
-export default PrivateRoute;
\ No newline at end of file
+export default PrivateRoute;
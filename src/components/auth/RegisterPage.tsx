@@ -21,7 +21,7 @@ const RegisterPage: React.FC = () => {
     e.preventDefault();
     
     try {
-      await register(username, password, 'user'); // Llama a la función register del contexto
+      await register(username, password, 'respondent'); // Llama a la función register del contexto
       toast.success('Registration successful');
       navigate('/'); // Redirige al home después del registro
     } catch (error) {
@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react'; // Iconos
+import { Question } from '../../types';
+import { orderQuestions } from '../../utils/conditionalLogic';
+import { DependencyEdge, findCyclicQuestions, getDependencyEdges } from '../../utils/ruleValidation';
+import { getQuestionCode } from '../../utils/questionCodes';
+
+interface DependencyGraphProps {
+  questions: Question[]; // Preguntas del formulario (en edición)
+  onClose: () => void; // Cierra el diálogo
+}
+
+// Medidas del diagrama
+const ROW_HEIGHT = 32;
+const INDENT = 16;
+const MIN_ARC = 24;
+const ARC_STEP = 14;
+const MAX_ARC = 220;
+
+// Clases de cada color de arco (trazo y punta de flecha)
+const EDGE_COLORS = {
+  gray: { stroke: 'stroke-gray-400', fill: 'fill-gray-400' },
+  purple: { stroke: 'stroke-purple-500', fill: 'fill-purple-500' },
+  blue: { stroke: 'stroke-blue-500', fill: 'fill-blue-500' },
+  red: { stroke: 'stroke-red-500', fill: 'fill-red-500' }
+};
+
+// Color de los arcos según el tipo de dependencia
+const KIND_COLORS: Record<DependencyEdge['kind'], keyof typeof EDGE_COLORS> = {
+  parent: 'gray',
+  rule: 'purple',
+  formula: 'blue'
+};
+
+/**
+ * Componente DependencyGraph - Diagrama de arcos con las dependencias entre preguntas
+ *
+ * Cada pregunta es un nodo en orden de presentación; los arcos van de la pregunta
+ * de la que se depende a la dependiente. Las dependencias circulares se marcan en rojo.
+ */
+const DependencyGraph: React.FC<DependencyGraphProps> = ({ questions, onClose }) => {
+  const { nodes, edges, cyclic, arcWidth } = useMemo(() => {
+    const ordered = orderQuestions(questions);
+    const index = new Map(ordered.map((question, i) => [question.id, i]));
+    const depthOf = new Map<string, number>();
+    ordered.forEach(question => {
+      depthOf.set(question.id, question.parentId ? (depthOf.get(question.parentId) ?? 0) + 1 : 0);
+    });
+
+    const allEdges = getDependencyEdges(questions).filter(edge => index.has(edge.from) && index.has(edge.to));
+    const widest = allEdges.reduce(
+      (max, edge) => Math.max(max, Math.abs(index.get(edge.to)! - index.get(edge.from)!)),
+      0
+    );
+
+    return {
+      nodes: ordered.map((question, i) => ({ question, index: i, depth: depthOf.get(question.id) ?? 0 })),
+      edges: allEdges.map(edge => ({ ...edge, fromIndex: index.get(edge.from)!, toIndex: index.get(edge.to)! })),
+      cyclic: findCyclicQuestions(questions),
+      arcWidth: Math.min(MIN_ARC + ARC_STEP * widest, MAX_ARC)
+    };
+  }, [questions]);
+
+  const x0 = arcWidth + 8;
+  const height = Math.max(nodes.length, 1) * ROW_HEIGHT;
+  const rowY = (i: number) => i * ROW_HEIGHT + ROW_HEIGHT / 2;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Encabezado */}
+        <div className="p-4 border-b flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Dependencias entre preguntas</h3>
+            <div className="flex items-center gap-4 text-xs text-gray-500 mt-1">
+              <span className="flex items-center"><span className="inline-block w-4 border-t-2 border-dashed border-gray-400 mr-1" /> Subpregunta</span>
+              <span className="flex items-center"><span className="inline-block w-4 border-t-2 border-purple-500 mr-1" /> Regla de visibilidad</span>
+              <span className="flex items-center"><span className="inline-block w-4 border-t-2 border-blue-500 mr-1" /> Fórmula</span>
+              <span className="flex items-center"><span className="inline-block w-4 border-t-2 border-red-500 mr-1" /> Dependencia circular</span>
+            </div>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          {nodes.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No hay preguntas en este formulario</p>
+          ) : (
+            <svg width="100%" height={height} className="min-w-[480px]">
+              <defs>
+                {Object.entries(EDGE_COLORS).map(([color, classes]) => (
+                  <marker key={color} id={`arrow-${color}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M0,0 L10,5 L0,10 z" className={classes.fill} />
+                  </marker>
+                ))}
+              </defs>
+
+              {/* Arcos */}
+              {edges.map(edge => {
+                const y1 = rowY(edge.fromIndex);
+                const y2 = rowY(edge.toIndex);
+                const width = Math.min(MIN_ARC + ARC_STEP * Math.abs(edge.toIndex - edge.fromIndex), MAX_ARC);
+                const isCyclic = cyclic.has(edge.from) && cyclic.has(edge.to);
+                const color = isCyclic ? 'red' : KIND_COLORS[edge.kind];
+
+                return (
+                  <path
+                    key={`${edge.kind}-${edge.from}-${edge.to}`}
+                    d={`M ${x0} ${y1} C ${x0 - width} ${y1}, ${x0 - width} ${y2}, ${x0} ${y2}`}
+                    fill="none"
+                    strokeWidth={isCyclic ? 2 : 1.5}
+                    strokeDasharray={edge.kind === 'parent' ? '4 3' : undefined}
+                    markerEnd={`url(#arrow-${color})`}
+                    className={EDGE_COLORS[color].stroke}
+                  />
+                );
+              })}
+
+              {/* Nodos */}
+              {nodes.map(({ question, index, depth }) => (
+                <g key={question.id}>
+                  <circle
+                    cx={x0}
+                    cy={rowY(index)}
+                    r={4}
+                    className={
+                      cyclic.has(question.id) ? 'fill-red-500'
+                        : question.visibility ? 'fill-purple-500'
+                          : question.type === 'calculated' ? 'fill-blue-500' : 'fill-gray-500'
+                    }
+                  />
+                  <text x={x0 + 12 + depth * INDENT} y={rowY(index) + 4} className="text-xs fill-gray-800">
+                    {getQuestionCode(question) && <tspan className="fill-gray-400 font-mono">{getQuestionCode(question)} </tspan>}
+                    {question.text || 'Sin texto'}
+                  </text>
+                </g>
+              ))}
+            </svg>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DependencyGraph;
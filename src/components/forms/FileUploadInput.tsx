@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid'; // Generador de IDs únicos
+import toast from 'react-hot-toast'; // Notificaciones
+import { Camera, Paperclip, Trash2 } from 'lucide-react'; // Íconos
+import { FileAttachment, Question } from '../../types';
+import { getPendingFile, removePendingFiles, savePendingFile } from '../../utils/offlineDb';
+import {
+  formatFileSize,
+  getFileConfig,
+  isImageAttachment,
+  matchesAccept,
+  validateFileSelection
+} from '../../utils/fileUploads';
+import AttachmentList from '../responses/AttachmentList';
+
+interface FileUploadInputProps {
+  question: Question; // Pregunta de tipo `file`
+  formId: string; // Formulario de la respuesta
+  value: FileAttachment[]; // Archivos ya adjuntos
+  onChange: (value: FileAttachment[]) => void; // Callback con la lista modificada
+}
+
+/**
+ * Componente FileUploadInput - Adjunta archivos o fotos a una respuesta.
+ * Los archivos se guardan en el dispositivo y se suben al guardar la respuesta,
+ * de modo que también se pueden adjuntar sin conexión.
+ */
+const FileUploadInput: React.FC<FileUploadInputProps> = ({ question, formId, value, onChange }) => {
+  const config = getFileConfig(question);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  // URLs locales de las imágenes pendientes de subir
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+
+  // Recupera las miniaturas de los archivos pendientes (p. ej. al retomar un borrador)
+  useEffect(() => {
+    const missing = value.filter(a => a.pending && isImageAttachment(a) && !previewsRef.current[a.id]);
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(attachment => getPendingFile(attachment.id))).then(files => {
+      const loaded: Record<string, string> = {};
+      files.forEach(file => {
+        if (file) loaded[file.id] = URL.createObjectURL(file.blob);
+      });
+      setPreviews(prev => ({ ...prev, ...loaded }));
+    });
+  }, [value]);
+
+  // Libera las URLs locales al desmontar
+  useEffect(() => () => {
+    Object.values(previewsRef.current).forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  /**
+   * Guarda en el dispositivo los archivos elegidos y los agrega a la respuesta
+   */
+  const handleFilesSelected = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+
+    const error = validateFileSelection(question, files, value.length);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const added: FileAttachment[] = [];
+    const addedPreviews: Record<string, string> = {};
+    for (const file of files) {
+      const id = uuidv4();
+      await savePendingFile({ id, formId, questionId: question.id, blob: file, name: file.name, createdAt: Date.now() });
+      added.push({ id, name: file.name, type: file.type, size: file.size, pending: true });
+      if (file.type.startsWith('image/')) {
+        addedPreviews[id] = URL.createObjectURL(file);
+      }
+    }
+
+    setPreviews(prev => ({ ...prev, ...addedPreviews }));
+    onChange([...value, ...added]);
+  };
+
+  /**
+   * Quita un archivo de la respuesta (y del dispositivo si aún no se había subido)
+   */
+  const handleRemove = async (attachment: FileAttachment) => {
+    if (attachment.pending) {
+      await removePendingFiles([attachment.id]);
+    }
+    onChange(value.filter(a => a.id !== attachment.id));
+  };
+
+  const canAddMore = value.length < config.maxFiles;
+  const acceptsImages = matchesAccept('image/jpeg', config.accept);
+
+  return (
+    <div className="space-y-3">
+      <AttachmentList attachments={value} previews={previews} />
+
+      {value.length > 0 && (
+        <ul className="space-y-1">
+          {value.map(attachment => (
+            <li key={attachment.id} className="flex items-center text-sm text-gray-700">
+              <span className="truncate">{attachment.name}</span>
+              <span className="ml-2 text-xs text-gray-400">{formatFileSize(attachment.size)}</span>
+              {attachment.pending && <span className="ml-2 text-xs text-yellow-700">Pendiente de subir</span>}
+              <button
+                type="button"
+                onClick={() => handleRemove(attachment)}
+                className="ml-2 p-1 text-red-500 hover:text-red-700"
+                title="Quitar archivo"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAddMore && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center px-3 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Paperclip size={16} className="mr-2" /> Adjuntar archivo
+          </button>
+          {acceptsImages && (
+            <button
+              type="button"
+              onClick={() => cameraInputRef.current?.click()}
+              className="inline-flex items-center px-3 py-2 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Camera size={16} className="mr-2" /> Tomar foto
+            </button>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Máximo {config.maxFiles} archivo(s) de hasta {config.maxSizeMb} MB
+      </p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple={config.maxFiles > 1}
+        accept={config.accept.join(',') || undefined}
+        onChange={(e) => {
+          handleFilesSelected(e.target.files);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={(e) => {
+          handleFilesSelected(e.target.files);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default FileUploadInput;
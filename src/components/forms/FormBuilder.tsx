@@ -1,10 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useParams, useNavigate, useBlocker } from 'react-router-dom';
 import { useForm } from '../../contexts/FormContext';
 import { useTranslation } from 'react-i18next';
+import { GitBranch, History, Redo2, SeparatorHorizontal, Undo2 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { Question, QuestionType, Form } from '../../types';
+import { Question, QuestionType, Form, Option } from '../../types';
 import QuestionEditor from './QuestionEditor';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import DependencyGraph from './DependencyGraph';
+import FormVersionDiff from './FormVersionDiff';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import { assignQuestionCodes, findDuplicateCodes } from '../../utils/questionCodes';
+import { validateFormulas, validateVisibilityRules } from '../../utils/ruleValidation';
+import { hasScoring } from '../../utils/scoring';
+import { isSection } from '../../utils/questionTypes';
+import { diffForms, isEmptyDiff } from '../../utils/formDiff';
+import { createHistory, pushHistory, redoHistory, undoHistory } from '../../utils/undoHistory';
 import Spinner from '../ui/Spinner';
 import toast from 'react-hot-toast';
 
@@ -20,35 +31,151 @@ const FormBuilder: React.FC = () => {
   const initialFormState = {
     name: '',
     description: '',
-    questions: []
+    questions: [] as Question[],
+    passMark: undefined as number | undefined
   };
   
-  const [formData, setFormData] = useState(initialFormState);
+  type FormState = typeof initialFormState;
+  
+  // Historial de cambios del formulario (el estado actual es `present`) para deshacer y rehacer
+  const [history, setHistory] = useState(() => createHistory(initialFormState));
+  const formData = history.present;
+  // Último estado guardado (o cargado): base para detectar y resumir los cambios pendientes
+  const [savedData, setSavedData] = useState(initialFormState);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showDependencies, setShowDependencies] = useState(false);
+  const [showChangeSummary, setShowChangeSummary] = useState(false);
+  // Guardado en curso: el atajo Ctrl/⌘+S y los botones no lanzan otro (la referencia evita
+  // una segunda pulsación antes de volver a renderizar)
+  const [isSaving, setIsSaving] = useState(false);
+  const savingRef = useRef(false);
+  // Permite navegar sin aviso tras guardar (el estado aún no refleja el guardado al navegar)
+  const skipGuardRef = useRef(false);
+  // Versión del formulario cargada en el editor (para detectar una más reciente mientras se edita)
+  const loadedVersionRef = useRef<number | null>(null);
+  // Versión más reciente que llegó con cambios sin guardar: se pregunta antes de sustituirlos
+  const [newerForm, setNewerForm] = useState<Form | null>(null);
+
+  const hasUnsavedChanges = useMemo(
+    () => JSON.stringify(formData) !== JSON.stringify(savedData),
+    [formData, savedData]
+  );
+
+  // Retiene la navegación dentro de la aplicación (menú, enlaces, Cancelar, atrás/adelante)
+  // con cambios sin guardar; el cierre de sesión y las redirecciones a /login no se retienen
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    hasUnsavedChanges &&
+    !skipGuardRef.current &&
+    nextLocation.pathname !== '/login' &&
+    nextLocation.pathname !== currentLocation.pathname
+  );
+
+  // Errores de lógica condicional (referencias a preguntas posteriores o eliminadas, ciclos…)
+  const ruleErrors = useMemo(() => validateVisibilityRules(formData.questions), [formData.questions]);
+  // Errores de las fórmulas de los campos calculados (sintaxis, códigos inexistentes, ciclos…)
+  const formulaErrors = useMemo(() => validateFormulas(formData.questions), [formData.questions]);
 
   // ======================
   // EFECTOS SECUNDARIOS
   // ======================
 
-  // Carga el formulario cuando el ID cambia
+  // Carga el formulario cuando el ID cambia (olvidando la versión cargada del anterior)
   useEffect(() => {
+    loadedVersionRef.current = null;
+    setNewerForm(null);
     if (id) {
       loadForm(id);
     } else {
-      setFormData(initialFormState);
+      resetFormData(initialFormState);
     }
   }, [id]);
 
-  // Sincroniza el estado local con el formulario cargado
+  // Sincroniza el estado local con el formulario cargado. La carga llega dos veces (copia local
+  // y después la de la API): tras la primera, los cambios sin guardar no se sustituyen, y si
+  // llega una versión más reciente se pregunta antes de descartarlos
   useEffect(() => {
-    if (currentForm && id) {
-      setFormData({
-        name: currentForm.name,
-        description: currentForm.description,
-        questions: currentForm.questions
-      });
+    if (!currentForm || !id || currentForm.id !== id) return;
+
+    if (loadedVersionRef.current === null || !hasUnsavedChanges) {
+      loadFormIntoEditor(currentForm);
+    } else if (currentForm.version > loadedVersionRef.current) {
+      setNewerForm(currentForm);
     }
   }, [currentForm, id]);
 
+  // Avisa antes de cerrar o recargar la pestaña con cambios sin guardar
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  // Atajos de teclado: Ctrl/⌘+Z deshace, Ctrl/⌘+Mayús+Z o Ctrl/⌘+Y rehace, Ctrl/⌘+S guarda.
+  // Se vuelve a registrar en cada renderizado para guardar siempre el estado actual.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      } else if (key === 's') {
+        event.preventDefault();
+        handleSaveForm();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // ======================
+  // HISTORIAL DE CAMBIOS
+  // ======================
+
+  /**
+   * Aplica un cambio al formulario y lo registra en el historial
+   * @param update - Nuevo estado a partir del actual
+   * @param groupKey - Los cambios seguidos con la misma clave se deshacen juntos (p. ej. al escribir)
+   */
+  const updateFormData = (update: (prev: FormState) => FormState, groupKey?: string) => {
+    setHistory(prev => pushHistory(prev, update(prev.present), groupKey));
+  };
+
+  /**
+   * Sustituye el formulario sin historial (al cargarlo o empezar uno nuevo)
+   */
+  function resetFormData(data: FormState) {
+    setHistory(createHistory(data));
+    setSavedData(data);
+  }
+
+  /**
+   * Carga en el editor un formulario guardado (descarta el historial)
+   */
+  function loadFormIntoEditor(form: Form) {
+    loadedVersionRef.current = form.version;
+    resetFormData({
+      name: form.name,
+      description: form.description,
+      questions: form.questions,
+      passMark: form.passMark
+    });
+  }
+
+  const handleUndo = () => setHistory(undoHistory);
+
+  const handleRedo = () => setHistory(redoHistory);
+
   // ======================
   // MANEJO DE PREGUNTAS
   // ======================
@@ -65,37 +192,52 @@ const FormBuilder: React.FC = () => {
       includeInPowerBI: false
     };
     
-    setFormData(prev => ({
+    updateFormData(prev => ({
       ...prev,
       questions: [...prev.questions, newQuestion]
     }));
   };
 
+  /**
+   * Agrega una sección: las preguntas que la siguen forman una nueva página
+   */
+  const handleAddSection = () => {
+    const newSection: Question = {
+      id: uuidv4(),
+      text: '',
+      type: 'section',
+      required: false,
+      includeInPowerBI: false
+    };
+    
+    updateFormData(prev => ({
+      ...prev,
+      questions: [...prev.questions, newSection]
+    }));
+  };
+
+  /**
+   * Agrega una subpregunta creada desde el editor de una opción
+   * @param subQuestion - Subpregunta con `parentId` y `parentOptionId`
+   */
+  const handleAddSubQuestion = (subQuestion: Question) => {
+    updateFormData(prev => ({
+      ...prev,
+      questions: [...prev.questions, { ...subQuestion, id: subQuestion.id || uuidv4() }]
+    }));
+  };
+
   /**
    * Actualiza una pregunta existente
    * @param updatedQuestion - Pregunta con los cambios
    */
   const handleUpdateQuestion = (updatedQuestion: Question) => {
-    const questionWithValidId = {
-      ...updatedQuestion,
-      id: updatedQuestion.id || uuidv4()
-    };
-    
-    setFormData(prev => {
-      if (!prev.questions.find(q => q.id === questionWithValidId.id)) {
-        return {
-          ...prev,
-          questions: [...prev.questions, questionWithValidId]
-        };
-      }
-      
-      return {
-        ...prev,
-        questions: prev.questions.map(q => 
-          q.id === questionWithValidId.id ? questionWithValidId : q
-        )
-      };
-    });
+    updateFormData(prev => ({
+      ...prev,
+      questions: prev.questions.map(q => 
+        q.id === updatedQuestion.id ? updatedQuestion : q
+      )
+    }), `question:${updatedQuestion.id}`);
   };
 
   /**
@@ -103,7 +245,7 @@ const FormBuilder: React.FC = () => {
    * @param questionId - ID de la pregunta a eliminar
    */
   const handleDeleteQuestion = (questionId: string) => {
-    setFormData(prev => {
+    updateFormData(prev => {
       const questionsToDelete = new Set<string>();
       
       const findQuestionsToDelete = (qId: string) => {
@@ -129,66 +271,37 @@ const FormBuilder: React.FC = () => {
   // ======================
 
   /**
-   * Reorganiza preguntas con IDs secuenciales manteniendo jerarquías
-   * @param questions - Array de preguntas a reorganizar
-   * @returns Array de preguntas reorganizadas
+   * Intercambia la posición de dos preguntas principales.
+   * Los IDs no cambian, así que las respuestas existentes siguen apuntando a su pregunta.
    */
-  const reorganizeQuestions = (questions: Question[]): Question[] => {
-    const mainQuestions = questions.filter(q => !q.parentId);
-    const subQuestions = questions.filter(q => q.parentId);
-    
-    const questionsByParent = new Map<string, Question[]>();
-    subQuestions.forEach(q => {
-      if (!questionsByParent.has(q.parentId!)) {
-        questionsByParent.set(q.parentId!, []);
-      }
-      questionsByParent.get(q.parentId!)!.push(q);
-    });
-    
-    const processQuestionHierarchy = (question: Question): Question[] => {
-      const result: Question[] = [question];
-      
-      if (question.options) {
-        question.options.forEach(option => {
-          const optionSubQuestions = questionsByParent.get(question.id)?.filter(
-            q => q.parentOptionId === option.id
-          ) || [];
-          
-          optionSubQuestions.forEach(subQ => {
-            result.push(...processQuestionHierarchy(subQ));
-          });
-        });
-      }
-      
-      return result;
-    };
-    
-    const organizedQuestions = mainQuestions.flatMap(q => processQuestionHierarchy(q));
-    
-    const idMap = new Map<string, string>();
-    
-    return organizedQuestions.map((q, index) => {
-      const oldId = q.id;
-      const newId = `q${(index + 1).toString().padStart(3, '0')}`;
-      idMap.set(oldId, newId);
-      
-      return {
-        ...q,
-        id: newId,
-        parentId: q.parentId ? idMap.get(q.parentId) : undefined,
-        parentOptionId: q.parentOptionId
-      };
+  const swapMainQuestions = (index: number, otherIndex: number) => {
+    updateFormData(prev => {
+      const mains = prev.questions.filter(q => !q.parentId);
+      const first = prev.questions.indexOf(mains[index]);
+      const second = prev.questions.indexOf(mains[otherIndex]);
+      if (first < 0 || second < 0) return prev;
+
+      const questions = [...prev.questions];
+      [questions[first], questions[second]] = [questions[second], questions[first]];
+      return { ...prev, questions };
     });
   };
 
+  const handleMoveQuestionUp = (index: number) => swapMainQuestions(index, index - 1);
+
+  const handleMoveQuestionDown = (index: number) => swapMainQuestions(index, index + 1);
+
   // ======================
   // GUARDADO DEL FORMULARIO (CORRECCIÓN PRINCIPAL)
   // ======================
 
   /**
    * Maneja el guardado del formulario con validaciones y estructura correcta
+   * @param confirmed - Ya se revisó el resumen de cambios (solo al editar un formulario existente)
    */
-  const handleSaveForm = async () => {
+  const handleSaveForm = async (confirmed = false) => {
+    if (savingRef.current) return;
+
     if (!formData.name.trim()) {
       toast.error(t('El nombre del formulario es obligatorio'));
       return;
@@ -200,18 +313,69 @@ const FormBuilder: React.FC = () => {
       return;
     }
     
+    const duplicateCodes = findDuplicateCodes(formData.questions);
+    if (duplicateCodes.length > 0) {
+      toast.error(t('Hay códigos de pregunta repetidos: ') + duplicateCodes.join(', '));
+      return;
+    }
+    
+    // Las preguntas sin texto no se guardan: las reglas no pueden depender de ellas.
+    // Las secciones sí (el título es opcional): marcan dónde empieza cada página.
+    const questionsToSave = formData.questions.filter(q => q.text.trim() !== '' || isSection(q));
+    if (Object.keys(validateVisibilityRules(questionsToSave)).length > 0) {
+      toast.error(t('Revisa la lógica condicional: hay reglas con errores o que usan preguntas sin texto'));
+      return;
+    }
+    
+    if (Object.keys(validateFormulas(questionsToSave)).length > 0) {
+      toast.error(t('Revisa las fórmulas: hay campos calculados con errores o que usan preguntas sin texto'));
+      return;
+    }
+    
+    // Las matrices necesitan al menos una fila y una columna con texto
+    const hasText = (items: Option[] = []) => items.some(item => item.text.trim() !== '');
+    const incompleteMatrix = questionsToSave.find(
+      q => q.type === 'matrix' && (!hasText(q.matrix?.rows) || !hasText(q.matrix?.columns))
+    );
+    if (incompleteMatrix) {
+      toast.error(t('La matriz necesita al menos una fila y una columna: ') + incompleteMatrix.text.trim());
+      return;
+    }
+    
+    // Al editar, se muestra antes el resumen de los cambios pendientes
+    if (id && !confirmed) {
+      setShowChangeSummary(true);
+      return;
+    }
+    setShowChangeSummary(false);
+    
+    savingRef.current = true;
+    setIsSaving(true);
     try {
-      // Prepara los datos para enviar al backend
+      // Prepara los datos para enviar al backend (los IDs existentes se conservan)
       const formToSave = {
         name: formData.name.trim(),
         description: formData.description.trim(),
-        questions: formData.questions
-          .filter(q => q.text.trim() !== '') // Filtra preguntas vacías
-          .map(q => ({
-            ...q,
-            id: q.id || uuidv4(), // Asegura IDs válidos
-            text: q.text.trim() // Limpia texto de preguntas
-          }))
+        // La nota mínima solo tiene sentido si alguna pregunta puntúa
+        passMark: hasScoring(questionsToSave) ? formData.passMark : undefined,
+        questions: assignQuestionCodes(
+          questionsToSave
+            .map(q => ({
+              ...q,
+              id: q.id || uuidv4(), // Asegura IDs válidos
+              text: q.text.trim(), // Limpia texto de preguntas
+              description: q.description?.trim() || undefined,
+              code: q.code?.trim() || undefined,
+              // Filas y columnas vacías de las matrices se descartan
+              ...(q.matrix && {
+                matrix: {
+                  ...q.matrix,
+                  rows: q.matrix.rows.filter(row => row.text.trim() !== ''),
+                  columns: q.matrix.columns.filter(column => column.text.trim() !== '')
+                }
+              })
+            }))
+        )
       };
 
       // Depuración: muestra datos que se enviarán
@@ -223,21 +387,26 @@ const FormBuilder: React.FC = () => {
       // Feedback al usuario
       toast.success(t('Formulario guardado correctamente'));
       
-      // Resetea estado si es nuevo formulario
-      if (!id) {
-        setFormData(initialFormState);
-      }
+      // Los cambios ya están guardados: se sale sin aviso
+      setSavedData(formData);
+      skipGuardRef.current = true;
       
       // Navega a vista previa
       navigate(`/vista-previa/${savedId}`);
     } catch (error) {
       console.error('Error al guardar el formulario:', error);
       toast.error(t('Error al guardar el formulario: ') + (error instanceof Error ? error.message : 'Error desconocido'));
+    } finally {
+      savingRef.current = false;
+      setIsSaving(false);
     }
   };
 
   // Filtra solo preguntas principales para mostrar
   const mainQuestions = formData.questions.filter(q => !q.parentId);
+  
+  // Cambios respecto a lo guardado (solo se calculan para el resumen)
+  const pendingDiff = showChangeSummary ? diffForms(savedData, formData) : null;
 
   // ======================
   // RENDERIZADO
@@ -255,9 +424,20 @@ const FormBuilder: React.FC = () => {
     <div className="container mx-auto">
       <div className="bg-white rounded-lg shadow-md p-6">
         {/* Encabezado */}
-        <h1 className="text-2xl font-bold text-gray-800 mb-6">
-          {id ? `Editar: ${formData.name}` : t('Crear Formulario')}
-        </h1>
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">
+            {id ? `Editar: ${formData.name}` : t('Crear Formulario')}
+          </h1>
+          {id && currentForm && (
+            <button
+              type="button"
+              onClick={() => setShowVersions(true)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+            >
+              <History size={16} className="mr-2" /> {t('Versiones')} (v{currentForm.version})
+            </button>
+          )}
+        </div>
         
         <div className="space-y-6">
           {/* Información básica del formulario */}
@@ -269,7 +449,7 @@ const FormBuilder: React.FC = () => {
               <input
                 type="text"
                 value={formData.name}
-                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                onChange={(e) => updateFormData(prev => ({ ...prev, name: e.target.value }), 'name')}
                 className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                 placeholder={t('Nombre del formulario')}
                 required
@@ -282,7 +462,7 @@ const FormBuilder: React.FC = () => {
               </label>
               <textarea
                 value={formData.description}
-                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                onChange={(e) => updateFormData(prev => ({ ...prev, description: e.target.value }), 'description')}
                 className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                 placeholder={t('Descripción del formulario')}
                 rows={3}
@@ -290,17 +470,72 @@ const FormBuilder: React.FC = () => {
             </div>
           </div>
           
+          {/* Nota mínima de las evaluaciones */}
+          {hasScoring(formData.questions) && (
+            <div className="md:w-1/3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('Nota mínima para aprobar (%)')}
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={formData.passMark ?? ''}
+                onChange={(e) => updateFormData(prev => ({
+                  ...prev,
+                  passMark: e.target.value === '' ? undefined : Math.min(Math.max(Number(e.target.value), 0), 100)
+                }), 'passMark')}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                placeholder={t('Sin nota mínima')}
+              />
+            </div>
+          )}
+          
           {/* Sección de preguntas */}
           <div className="mt-8">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-lg font-semibold text-gray-700">{t('Preguntas')}</h2>
-              <button
-                type="button"
-                onClick={handleAddQuestion}
-                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center"
-              >
-                <span className="mr-1">+</span> {t('Agregar Pregunta')}
-              </button>
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={handleUndo}
+                  disabled={history.past.length === 0}
+                  className="p-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors disabled:text-gray-300 disabled:cursor-not-allowed"
+                  title={t('Deshacer (Ctrl+Z)')}
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRedo}
+                  disabled={history.future.length === 0}
+                  className="p-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors disabled:text-gray-300 disabled:cursor-not-allowed"
+                  title={t('Rehacer (Ctrl+Y)')}
+                >
+                  <Redo2 size={16} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowDependencies(true)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+                >
+                  <GitBranch size={16} className="mr-2" /> {t('Dependencias')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleAddSection}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+                >
+                  <SeparatorHorizontal size={16} className="mr-2" /> {t('Agregar sección')}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleAddQuestion}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center"
+                >
+                  <span className="mr-1">+</span> {t('Agregar Pregunta')}
+                </button>
+              </div>
             </div>
             
             {mainQuestions.length === 0 ? (
@@ -316,11 +551,15 @@ const FormBuilder: React.FC = () => {
                     question={question}
                     allQuestions={formData.questions}
                     onUpdate={handleUpdateQuestion}
+                    onAddQuestion={handleAddSubQuestion}
+                    onDeleteQuestion={handleDeleteQuestion}
                     onDelete={() => handleDeleteQuestion(question.id)}
                     onMoveUp={() => handleMoveQuestionUp(index)}
                     onMoveDown={() => handleMoveQuestionDown(index)}
                     canMoveUp={index > 0}
                     canMoveDown={index < mainQuestions.length - 1}
+                    ruleErrors={ruleErrors}
+                    formulaErrors={formulaErrors}
                   />
                 ))}
               </div>
@@ -328,7 +567,10 @@ const FormBuilder: React.FC = () => {
           </div>
           
           {/* Botones de acción */}
-          <div className="flex justify-end space-x-4 mt-8">
+          <div className="flex justify-end items-center space-x-4 mt-8">
+            {hasUnsavedChanges && (
+              <span className="text-sm text-yellow-700">{t('Cambios sin guardar')}</span>
+            )}
             <button
               type="button"
               onClick={() => navigate('/')}
@@ -338,15 +580,96 @@ const FormBuilder: React.FC = () => {
             </button>
             <button
               type="button"
-              onClick={handleSaveForm}
+              onClick={() => handleSaveForm()}
               className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
-              disabled={isLoading}
+              disabled={isLoading || isSaving}
             >
-              {isLoading ? <Spinner size="sm" /> : t('Guardar')}
+              {isLoading || isSaving ? <Spinner size="sm" /> : t('Guardar')}
             </button>
           </div>
         </div>
       </div>
+
+      {/* Grafo de dependencias */}
+      {showDependencies && (
+        <DependencyGraph questions={formData.questions} onClose={() => setShowDependencies(false)} />
+      )}
+
+      {/* Historial de versiones */}
+      {showVersions && currentForm && (
+        <VersionHistoryPanel form={currentForm} onClose={() => setShowVersions(false)} />
+      )}
+
+      {/* Resumen de los cambios pendientes antes de guardar */}
+      {showChangeSummary && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+            <div className="p-6 border-b">
+              <h3 className="text-lg font-medium text-gray-900">{t('Cambios pendientes')}</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                {t('Al guardar se creará la versión')} {(currentForm?.version ?? 0) + 1}
+              </p>
+            </div>
+            <div className="p-6 overflow-y-auto">
+              {!hasUnsavedChanges ? (
+                <p className="text-sm text-gray-400 italic">{t('No hay cambios pendientes')}</p>
+              ) : !pendingDiff || isEmptyDiff(pendingDiff) ? (
+                <p className="text-sm text-gray-600">
+                  {t('Cambió el orden, la lógica condicional, la validación o la puntuación de las preguntas.')}
+                </p>
+              ) : (
+                <FormVersionDiff diff={pendingDiff} />
+              )}
+            </div>
+            <div className="bg-gray-50 px-6 py-4 flex justify-end space-x-3 rounded-b-lg">
+              <button
+                type="button"
+                onClick={() => setShowChangeSummary(false)}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                {t('Seguir editando')}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSaveForm(true)}
+                disabled={isLoading || isSaving}
+                className="px-4 py-2 bg-green-600 text-white rounded-md text-sm font-medium hover:bg-green-700"
+              >
+                {t('Guardar')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Aviso al salir con cambios sin guardar */}
+      <ConfirmDialog
+        isOpen={blocker.state === 'blocked'}
+        title={t('Cambios sin guardar')}
+        message={t('Si sales ahora, se perderán los cambios que no has guardado.')}
+        confirmLabel={t('Salir sin guardar')}
+        cancelLabel={t('Seguir editando')}
+        onConfirm={() => blocker.proceed?.()}
+        onCancel={() => blocker.reset?.()}
+        danger
+      />
+
+      <ConfirmDialog
+        isOpen={newerForm !== null}
+        title={t('Hay una versión más reciente')}
+        message={`${t('El formulario se ha guardado como versión')} ${newerForm?.version ?? ''} ${t('mientras lo editabas. Si la cargas, se perderán los cambios que no has guardado; si sigues editando, al guardar sustituirás esa versión.')}`}
+        confirmLabel={t('Cargar la versión más reciente')}
+        cancelLabel={t('Seguir editando')}
+        onConfirm={() => {
+          if (newerForm) loadFormIntoEditor(newerForm);
+          setNewerForm(null);
+        }}
+        onCancel={() => {
+          if (newerForm) loadedVersionRef.current = newerForm.version;
+          setNewerForm(null);
+        }}
+        danger
+      />
     </div>
   );
 };
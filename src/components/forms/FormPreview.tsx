@@ -1,12 +1,34 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useEffect, useRef, useState } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next'; // Internacionalización
+import { v4 as uuidv4 } from 'uuid'; // IDs de los borradores
 import { useForm } from '../../contexts/FormContext'; // Contexto para manejar formularios
-import { FormResponse, QuestionResponse, Question } from '../../types'; // Tipos de datos
+import { useAuth } from '../../contexts/AuthContext'; // Usuario de la sesión
+import { NewFormResponse, QuestionResponse, Question, ResponseDraft } from '../../types'; // Tipos de datos
 import Spinner from '../ui/Spinner'; // Componente de carga
+import ConfirmDialog from '../ui/ConfirmDialog'; // Aviso para continuar un borrador
+import MatrixInput from './MatrixInput'; // Cuadrícula de las preguntas en matriz
+import FileUploadInput from './FileUploadInput'; // Archivos y fotos adjuntos
+import LocationInput from './LocationInput'; // Captura de coordenadas
+import SignaturePad from './SignaturePad'; // Lienzo de firma
 import toast from 'react-hot-toast'; // Notificaciones
-import { ArrowLeft, Save, Download } from 'lucide-react'; // Íconos
+import { ArrowLeft, ArrowRight, Save, Download, UploadCloud } from 'lucide-react'; // Íconos
 import { exportToExcel } from '../../utils/excelUtils'; // Utilidad para exportar a Excel
+import { pruneHiddenAnswers, toAnswerMap } from '../../utils/conditionalLogic'; // Lógica condicional
+import { validateAnswer, validateAnswers } from '../../utils/questionValidation'; // Reglas de validación por pregunta
+import { getFormPages } from '../../utils/formPages'; // Páginas (secciones) del formulario
+import { INPUT_PLACEHOLDERS, getRatingMax } from '../../utils/questionTypes'; // Tipos de pregunta
+import { getAttachments } from '../../utils/fileUploads'; // Archivos adjuntos
+import { computeCalculatedValues } from '../../utils/formula'; // Campos calculados
+import { computeScore, formatScore } from '../../utils/scoring'; // Puntuación de las evaluaciones
+import { formatDateDisplay } from '../../utils/dateUtils'; // Fechas legibles
+import { isNetworkError } from '../../utils/apiClient'; // Errores de conexión
+import { removeDraft, saveDraft } from '../../utils/offlineDb'; // Borradores en el dispositivo
+import { discardDraft, hasDraftAnswers, listDrafts, saveDraftToServer } from '../../utils/responseDrafts'; // Borradores
+
+// Espera tras el último cambio antes de autoguardar el borrador (ms)
+const DRAFT_SAVE_DELAY = 1000;
+
 console.log("Forms peviu");
 const FormPreview: React.FC = () => {
   // ======================
@@ -14,22 +36,40 @@ const FormPreview: React.FC = () => {
   // ======================
   const { id, responseId } = useParams<{ id: string; responseId?: string }>(); // IDs de URL
   const navigate = useNavigate(); // Navegación programática
+  const location = useLocation(); // Estado de navegación (borrador elegido en "Mis borradores")
   const { t } = useTranslation(); // Función de traducción
+  const { user } = useAuth(); // Autor de los borradores
   const { 
     loadForm, 
     currentForm, 
     saveResponse, 
+    updateResponse,
     responses, 
     loadResponses, 
     isLoading 
   } = useForm(); // Funciones del contexto
   
+  // Clave para conservar los cambios a una respuesta existente si se interrumpe la sesión (p. ej. un 401).
+  // Las respuestas nuevas se conservan como borradores en el dispositivo.
+  // Incluye el usuario: otro usuario que inicie sesión en la misma pestaña no recupera esos cambios.
+  const editSessionKey = `form_preview:${user?.id}:${id}:${responseId}`;
+
   // Estado para las respuestas del formulario
   const [formResponses, setResponses] = useState<Record<string, any>>({});
   // Estado para errores de validación
   const [errors, setErrors] = useState<Record<string, string>>({});
   // Estado para controlar envío
   const [submitting, setSubmitting] = useState(false);
+  // Página actual de los formularios con secciones
+  const [pageIndex, setPageIndex] = useState(0);
+  // Borrador que se autoguarda mientras se completa una respuesta nueva
+  const draftRef = useRef<ResponseDraft | null>(null);
+  // Borrador anterior pendiente de continuar o descartar
+  const [draftToResume, setDraftToResume] = useState<ResponseDraft | null>(null);
+  // No se autoguarda hasta saber si hay un borrador anterior
+  const [draftChecked, setDraftChecked] = useState(false);
+  // Estado para controlar el guardado del borrador en el servidor
+  const [savingDraft, setSavingDraft] = useState(false);
 
   // ======================
   // EFECTOS SECUNDARIOS
@@ -55,8 +95,83 @@ const FormPreview: React.FC = () => {
   loadFormData();
 }, [id, responseId]);
 
+  // Restaura los cambios en curso a una respuesta existente guardados en la sesión del navegador
+  useEffect(() => {
+    const savedAnswers = responseId && user ? sessionStorage.getItem(editSessionKey) : null;
+    let restored: Record<string, any> = {};
+    if (savedAnswers) {
+      try {
+        const parsed = JSON.parse(savedAnswers);
+        if (!parsed || typeof parsed !== 'object') throw new Error('Invalid edited answers');
+        restored = parsed;
+      } catch (error) {
+        // Copia dañada: se descarta y se parte de la respuesta guardada
+        console.error('Error restoring edited answers:', error);
+        sessionStorage.removeItem(editSessionKey);
+      }
+    }
+    setResponses(restored);
+    setPageIndex(0);
+  }, [editSessionKey]);
+
+  // Conserva los cambios en curso mientras el usuario edita una respuesta existente
+  useEffect(() => {
+    if (responseId && user && Object.keys(formResponses).length > 0) {
+      sessionStorage.setItem(editSessionKey, JSON.stringify(formResponses));
+    }
+  }, [formResponses]);
+
+  // Busca un borrador anterior de este formulario (solo en respuestas nuevas)
+  useEffect(() => {
+    draftRef.current = null;
+    setDraftToResume(null);
+    setDraftChecked(false);
+    if (!id || responseId || !user) return;
+
+    let cancelled = false;
+    listDrafts(user.id)
+      .catch(error => {
+        console.error('Error loading drafts:', error);
+        return [] as ResponseDraft[];
+      })
+      .then(drafts => {
+        if (cancelled) return;
+        const draft = drafts.find(d => d.formId === id && hasDraftAnswers(d));
+        // Desde "Mis borradores" se continúa sin preguntar
+        const chosenDraftId = (location.state as { draftId?: string } | null)?.draftId;
+        if (draft && draft.id === chosenDraftId) {
+          handleResumeDraft(draft);
+        } else if (draft) {
+          setDraftToResume(draft);
+        }
+        setDraftChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, responseId, user?.id]);
+
+  // Autoguarda el borrador en el dispositivo poco después de cada cambio (solo en respuestas nuevas)
+  useEffect(() => {
+    if (responseId || !draftChecked || draftToResume || savingDraft) return;
+    if (!hasDraftAnswers({ answers: formResponses })) return;
+
+    const timer = window.setTimeout(() => {
+      const draft = buildDraft();
+      if (!draft) return;
+      draftRef.current = draft;
+      saveDraft(draft).catch(error => console.error('Error saving draft:', error));
+    }, DRAFT_SAVE_DELAY);
+
+    return () => window.clearTimeout(timer);
+  }, [formResponses, pageIndex, draftChecked, draftToResume, savingDraft, currentForm]);
+
   // Sincroniza respuestas cuando cambian los datos cargados
   useEffect(() => {
+    // Los cambios en curso tienen prioridad sobre la respuesta guardada
+    if (sessionStorage.getItem(editSessionKey)) return;
+
     if (responseId && responses[id!]) {
       // Busca la respuesta existente
       const existingResponse = responses[id!].find(r => r.id === responseId);
@@ -69,70 +184,31 @@ const FormPreview: React.FC = () => {
         setResponses(responseMap);
       }
     }
-  }, [responseId, responses, id]);
+  }, [responseId, responses, id, editSessionKey]);
 
   // ======================
   // LÓGICA DE PREGUNTAS
   // ======================
 
   /**
-   * Obtiene preguntas visibles basadas en respuestas condicionales
-   * @returns Array de preguntas visibles
+   * Páginas con las preguntas visibles según las condiciones y las respuestas actuales
+   * (subpreguntas a cualquier profundidad, reglas de visibilidad y secciones omitidas).
+   * Un formulario sin secciones es una sola página.
    */
-  const getVisibleQuestions = () => {
-  if (!currentForm?.questions) return [];
-  
-  const visibleQuestions: Question[] = [];
-  const processedQuestions = new Set<string>();
-  
-  currentForm.questions.forEach(question => {
-    if (!question.parentId && !processedQuestions.has(question.id)) {
-      visibleQuestions.push(question);
-      processedQuestions.add(question.id);
-      
-      // Procesar subpreguntas si la pregunta padre tiene respuesta
-      if (question.type === 'select' || question.type === 'multiselect') {
-        const parentResponse = formResponses[question.id];
-        if (parentResponse) {
-          currentForm.questions.forEach(subQuestion => {
-            if (subQuestion.parentId === question.id && 
-                ((question.type === 'select' && subQuestion.parentOptionId === parentResponse) ||
-                 (question.type === 'multiselect' && Array.isArray(parentResponse) && 
-                  parentResponse.includes(subQuestion.parentOptionId)))) {
-              visibleQuestions.push(subQuestion);
-              processedQuestions.add(subQuestion.id);
-            }
-          });
-        }
-      }
-    }
-  });
-  
-  return visibleQuestions;
-};
+  const pages = getFormPages(currentForm?.questions ?? [], formResponses);
+  // Las respuestas pueden omitir páginas: la actual nunca queda fuera del rango
+  const currentPage = Math.min(pageIndex, pages.length - 1);
+  const isLastPage = currentPage === pages.length - 1;
 
   /**
-   * Maneja cambios en las respuestas
+   * Maneja cambios en las respuestas.
+   * Las respuestas de preguntas que quedan ocultas se conservan mientras se completa
+   * el formulario y se descartan al enviarlo. Los campos calculados se recalculan con cada cambio.
    * @param questionId - ID de la pregunta
    * @param value - Nuevo valor
    */
   const handleInputChange = (questionId: string, value: any) => {
-    setResponses(prev => {
-      const newResponses = { ...prev, [questionId]: value };
-      
-      // Limpia respuestas de subpreguntas cuando cambia la padre
-      const question = currentForm?.questions?.find(q => q.id === questionId);
-      if (question && ['select', 'multiselect'].includes(question.type)) {
-        const subQuestions = currentForm?.questions?.filter(q => q.parentId === questionId);
-        subQuestions?.forEach(subQ => {
-          if (newResponses[subQ.id]) {
-            delete newResponses[subQ.id];
-          }
-        });
-      }
-      
-      return newResponses;
-    });
+    setResponses(prev => computeCalculatedValues(currentForm?.questions ?? [], { ...prev, [questionId]: value }));
     
     // Limpia error si existía
     if (errors[questionId]) {
@@ -150,68 +226,116 @@ const FormPreview: React.FC = () => {
 
   /**
    * Valida el formulario
+   * @param questionIds - Solo estas preguntas (p. ej. las de la página actual); todas si se omite
    * @returns true si es válido, false si hay errores
    */
-  const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-    const visibleQuestions = getVisibleQuestions();
-    
-    visibleQuestions.forEach(question => {
-      if (question.required) {
-        const value = formResponses[question.id];
-        
-        // Validación para diferentes tipos
-        if (value === undefined || value === null || value === '') {
-          newErrors[question.id] = t('Este campo es obligatorio');
-        }
-        
-        if (Array.isArray(value) && value.length === 0) {
-          newErrors[question.id] = t('Selecciona al menos una opción');
-        }
-      }
-    });
+  const validateForm = (questionIds?: string[]) => {
+    if (!currentForm) return false;
+
+    // Obligatoriedad y reglas de cada pregunta visible
+    const allErrors = validateAnswers(currentForm.questions, formResponses);
+    const newErrors = questionIds
+      ? Object.fromEntries(Object.entries(allErrors).filter(([questionId]) => questionIds.includes(questionId)))
+      : allErrors;
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  /**
+   * Cambia de página y vuelve al principio del formulario
+   */
+  const goToPage = (index: number) => {
+    setPageIndex(index);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  /**
+   * Avanza a la página siguiente si la actual es válida
+   */
+  const handleNextPage = () => {
+    if (!validateForm(pages[currentPage].questions.map(question => question.id))) {
+      toast.error(t('Por favor, revisa los campos marcados'));
+      return;
+    }
+    goToPage(currentPage + 1);
+  };
+
   /**
    * Maneja el envío del formulario
    */
   const handleSubmit = async () => {
     if (!currentForm || !id) return;
     
-    // Validación
+    // Validación (se muestra la primera página con errores)
     if (!validateForm()) {
-      toast.error(t('Por favor, completa todos los campos obligatorios'));
+      const invalidPage = pages.findIndex(page =>
+        page.questions.some(question => validateAnswer(question, formResponses[question.id]) !== null)
+      );
+      if (invalidPage >= 0 && invalidPage !== currentPage) goToPage(invalidPage);
+      toast.error(t('Por favor, revisa los campos marcados'));
       return;
     }
     
     setSubmitting(true);
     
     try {
-      // Prepara las respuestas
-      const questionResponses: QuestionResponse[] = Object.entries(formResponses)
-        .filter(([questionId]) => {
-          const question = currentForm.questions.find(q => q.id === questionId);
-          return question && getVisibleQuestions().includes(question);
-        })
+      // Prepara las respuestas (solo las de preguntas visibles, con los campos calculados al día)
+      const answers = computeCalculatedValues(currentForm.questions, formResponses);
+      const questionResponses: QuestionResponse[] = Object.entries(pruneHiddenAnswers(currentForm.questions, answers))
         .map(([questionId, value]) => ({
           questionId,
-          value
+          value: value ?? null
         }));
+
+      // Puntuación de las evaluaciones (la API la vuelve a calcular al guardar; quien solo
+      // responde no recibe la puntuación de las preguntas y la ve al recibir la respuesta guardada)
+      const score = computeScore(currentForm.questions, toAnswerMap(questionResponses), currentForm.passMark);
       
+      if (responseId) {
+        // Edita la respuesta existente (conserva ID, fecha y autor)
+        const existingResponse = responses[id]?.find(r => r.id === responseId);
+        if (!existingResponse) {
+          throw new Error('Response not found');
+        }
+
+        await updateResponse({ ...existingResponse, responses: questionResponses, score });
+        sessionStorage.removeItem(editSessionKey);
+        navigate(`/respuestas/${id}`);
+        return;
+      }
+
       // Crea el objeto de respuesta
-      const formResponse: Omit<FormResponse, 'id' | 'createdAt'> = {
+      // (con el ID del borrador: si tenía copia en el servidor, al enviarse deja de ser un borrador)
+      const formResponse: NewFormResponse = {
+        id: draftRef.current?.id,
         formId: id,
         formVersion: currentForm.version,
         responses: questionResponses,
-        updatedOffline: false
+        updatedOffline: false,
+        score
       };
       
-      // Guarda la respuesta
-      await saveResponse(formResponse);
+      // Guarda la respuesta (queda en la bandeja de salida si no hay conexión)
+      const { response: savedResponse, queued } = await saveResponse(formResponse);
+      if (draftRef.current) {
+        await removeDraft(draftRef.current.id);
+        draftRef.current = null;
+      }
+
+      // Si quedó en la bandeja de salida se limpia el formulario para capturar la siguiente respuesta
+      if (queued) {
+        setResponses({});
+        goToPage(0);
+        return;
+      }
+
       toast.success(t('Respuestas guardadas correctamente'));
+      const savedScore = savedResponse.score;
+      if (savedScore) {
+        const result = savedScore.passed === undefined ? '' : savedScore.passed ? ` — ${t('Aprobado')}` : ` — ${t('No aprobado')}`;
+        toast(`${t('Puntuación')}: ${formatScore(savedScore)}${result}`, { duration: 6000 });
+      }
       navigate(`/respuestas/${id}`);
     } catch (error) {
       console.error('Error saving response:', error);
@@ -221,6 +345,79 @@ const FormPreview: React.FC = () => {
     }
   };
 
+  // ======================
+  // BORRADORES
+  // ======================
+
+  /**
+   * Borrador con las respuestas actuales (conserva el ID y las fechas del que se está completando)
+   */
+  const buildDraft = (): ResponseDraft | null => {
+    if (!currentForm || currentForm.id !== id || !user) return null;
+
+    const now = Date.now();
+    return {
+      id: draftRef.current?.id ?? uuidv4(),
+      formId: currentForm.id,
+      formName: currentForm.name,
+      formVersion: currentForm.version,
+      userId: user.id,
+      answers: formResponses,
+      pageIndex: currentPage,
+      createdAt: draftRef.current?.createdAt ?? now,
+      updatedAt: now,
+      serverSavedAt: draftRef.current?.serverSavedAt
+    };
+  };
+
+  /**
+   * Continúa un borrador: restaura sus respuestas y la página en la que se dejó
+   */
+  function handleResumeDraft(draft: ResponseDraft) {
+    draftRef.current = draft;
+    setResponses(draft.answers);
+    setPageIndex(draft.pageIndex);
+    setDraftToResume(null);
+  }
+
+  /**
+   * Descarta el borrador anterior para empezar una respuesta nueva
+   */
+  const handleDiscardDraft = async () => {
+    if (!draftToResume) return;
+
+    const draft = draftToResume;
+    setDraftToResume(null);
+    try {
+      await discardDraft(draft);
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+      toast.error(t('No se pudo descartar el borrador guardado en el servidor'));
+    }
+  };
+
+  /**
+   * Guarda una copia del borrador en el servidor para continuarlo en otro dispositivo
+   */
+  const handleSaveDraftToServer = async () => {
+    const draft = buildDraft();
+    if (!draft || !hasDraftAnswers(draft)) {
+      toast.error(t('Responde al menos una pregunta para guardar el borrador'));
+      return;
+    }
+
+    setSavingDraft(true);
+    try {
+      draftRef.current = await saveDraftToServer(draft);
+      toast.success(t('Borrador guardado: puedes continuarlo desde "Mis borradores" en cualquier dispositivo'));
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      toast.error(isNetworkError(error) ? t('Guardar el borrador en el servidor requiere conexión') : t('Error al guardar el borrador'));
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
   // ======================
   // EXPORTACIÓN
   // ======================
@@ -254,20 +451,198 @@ const FormPreview: React.FC = () => {
    * @returns Componente de input
    */
   const renderQuestionInput = (question: Question) => {
+    const inputClass = `w-full px-4 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 ${
+      errors[question.id] ? 'border-red-500' : 'border-gray-300'
+    }`;
+    const value = formResponses[question.id];
+
     switch (question.type) {
       case 'text':
         return (
           <input
             type="text"
-            value={formResponses[question.id] || ''}
+            value={value || ''}
             onChange={(e) => handleInputChange(question.id, e.target.value)}
-            className={`w-full px-4 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 ${
-              errors[question.id] ? 'border-red-500' : 'border-gray-300'
-            }`}
+            maxLength={question.validation?.maxLength}
+            className={inputClass}
+          />
+        );
+
+      case 'textarea':
+        return (
+          <textarea
+            value={value || ''}
+            onChange={(e) => handleInputChange(question.id, e.target.value)}
+            maxLength={question.validation?.maxLength}
+            rows={4}
+            className={inputClass}
+          />
+        );
+
+      case 'email':
+      case 'phone':
+      case 'url':
+        return (
+          <input
+            type={question.type === 'phone' ? 'tel' : question.type}
+            value={value || ''}
+            onChange={(e) => handleInputChange(question.id, e.target.value.trim())}
+            placeholder={INPUT_PLACEHOLDERS[question.type]}
+            className={inputClass}
+          />
+        );
+
+      case 'rating': {
+        const max = getRatingMax(question);
+        return (
+          <div>
+            <div className="flex flex-wrap gap-2">
+              {Array.from({ length: max }, (_, index) => index + 1).map(score => (
+                <button
+                  key={score}
+                  type="button"
+                  onClick={() => handleInputChange(question.id, value === score ? null : score)}
+                  className={`w-10 h-10 rounded-md border text-sm font-medium transition-colors ${
+                    value === score
+                      ? 'bg-green-600 border-green-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {score}
+                </button>
+              ))}
+            </div>
+            {(question.rating?.minLabel || question.rating?.maxLabel) && (
+              <div className="flex justify-between text-xs text-gray-500 mt-1" style={{ maxWidth: `${max * 3}rem` }}>
+                <span>{question.rating?.minLabel}</span>
+                <span>{question.rating?.maxLabel}</span>
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case 'number':
+        return (
+          <input
+            type="number"
+            value={value ?? ''}
+            onChange={(e) => handleInputChange(question.id, e.target.value === '' ? null : Number(e.target.value))}
+            min={question.validation?.min}
+            max={question.validation?.max}
+            className={inputClass}
+          />
+        );
+
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={value || ''}
+            onChange={(e) => handleInputChange(question.id, e.target.value)}
+            min={question.validation?.minDate}
+            max={question.validation?.maxDate}
+            className={inputClass}
+          />
+        );
+
+      case 'boolean':
+        return (
+          <div className="space-x-6">
+            {[true, false].map(option => (
+              <label key={String(option)} className="inline-flex items-center">
+                <input
+                  type="radio"
+                  name={question.id}
+                  checked={value === option}
+                  onChange={() => handleInputChange(question.id, option)}
+                  className="mr-2"
+                />
+                <span>{option ? t('Sí') : t('No')}</span>
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'select':
+        return (
+          <select
+            value={value || ''}
+            onChange={(e) => handleInputChange(question.id, e.target.value)}
+            className={inputClass}
+          >
+            <option value="">{t('Seleccionar...')}</option>
+            {question.options?.map(option => (
+              <option key={option.id} value={option.id}>{option.text}</option>
+            ))}
+          </select>
+        );
+
+      case 'multiselect':
+        return (
+          <div className="space-y-2">
+            {question.options?.map(option => {
+              const selected: string[] = Array.isArray(value) ? value : [];
+              return (
+                <label key={option.id} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(option.id)}
+                    onChange={(e) => handleInputChange(
+                      question.id,
+                      e.target.checked ? [...selected, option.id] : selected.filter(id => id !== option.id)
+                    )}
+                    className="mr-2"
+                  />
+                  <span>{option.text}</span>
+                </label>
+              );
+            })}
+          </div>
+        );
+      
+      case 'signature':
+        return (
+          <SignaturePad
+            value={value}
+            onChange={(signature) => handleInputChange(question.id, signature)}
+            hasError={!!errors[question.id]}
+          />
+        );
+
+      case 'location':
+        return (
+          <LocationInput
+            value={value}
+            onChange={(location) => handleInputChange(question.id, location)}
+          />
+        );
+
+      case 'file':
+        return (
+          <FileUploadInput
+            question={question}
+            formId={currentForm?.id ?? id ?? ''}
+            value={getAttachments(value)}
+            onChange={(attachments) => handleInputChange(question.id, attachments)}
+          />
+        );
+
+      case 'calculated':
+        return (
+          <div className="w-full px-4 py-2 bg-gray-50 border border-gray-200 rounded-md text-gray-800 font-medium">
+            {value ?? <span className="text-gray-400 font-normal">{t('Se calcula al responder')}</span>}
+          </div>
+        );
+
+      case 'matrix':
+        return (
+          <MatrixInput
+            question={question}
+            value={value}
+            onChange={(matrixValue) => handleInputChange(question.id, matrixValue)}
           />
         );
-        
-      // ... otros casos (number, date, boolean, select, multiselect)
       
       default:
         return null;
@@ -320,9 +695,35 @@ const FormPreview: React.FC = () => {
           )}
         </div>
         
-        {/* Lista de preguntas */}
+        {/* Progreso y encabezado de la página (solo en formularios con secciones) */}
+        {pages.length > 1 && (
+          <div className="mt-6">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{t('Página')} {currentPage + 1} {t('de')} {pages.length}</span>
+              <span>{Math.round(((currentPage + 1) / pages.length) * 100)}%</span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-green-600 transition-all"
+                style={{ width: `${((currentPage + 1) / pages.length) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {pages[currentPage].section && (
+          <div className="mt-6">
+            {pages[currentPage].section!.text && (
+              <h2 className="text-xl font-semibold text-gray-800">{pages[currentPage].section!.text}</h2>
+            )}
+            {pages[currentPage].section!.description && (
+              <p className="text-gray-600 mt-1 whitespace-pre-wrap">{pages[currentPage].section!.description}</p>
+            )}
+          </div>
+        )}
+        
+        {/* Lista de preguntas de la página actual */}
         <div className="space-y-8 mt-8">
-          {getVisibleQuestions().map((question) => (
+          {pages[currentPage].questions.map((question) => (
             <div 
               key={question.id} 
               className={`border-b border-gray-200 pb-6 ${
@@ -346,25 +747,75 @@ const FormPreview: React.FC = () => {
           ))}
         </div>
         
-        {/* Botón de guardar */}
-        <div className="flex justify-end mt-8">
-          <button
-            type="button"
-            onClick={handleSubmit}
-            disabled={submitting}
-            className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center"
-          >
-            {submitting ? (
-              <Spinner size="sm" color="white" />
+        {/* Navegación entre páginas y botón de guardar (en la última) */}
+        <div className="flex justify-between mt-8">
+          <div>
+            {currentPage > 0 && (
+              <button
+                type="button"
+                onClick={() => goToPage(currentPage - 1)}
+                className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+              >
+                <ArrowLeft size={16} className="mr-2" /> {t('Anterior')}
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            {/* Copia del borrador en el servidor (solo en respuestas nuevas) */}
+            {!responseId && (
+              <button
+                type="button"
+                onClick={handleSaveDraftToServer}
+                disabled={savingDraft || submitting}
+                className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors flex items-center"
+                title={draftRef.current?.serverSavedAt
+                  ? `${t('Última copia en el servidor')}: ${formatDateDisplay(draftRef.current.serverSavedAt)}`
+                  : undefined}
+              >
+                {savingDraft ? <Spinner size="sm" /> : <><UploadCloud size={16} className="mr-2" /> {t('Guardar borrador')}</>}
+              </button>
+            )}
+            {isLastPage ? (
+              <button
+                type="button"
+                onClick={handleSubmit}
+                disabled={submitting}
+                className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center"
+              >
+                {submitting ? (
+                  <Spinner size="sm" color="white" />
+                ) : (
+                  <>
+                    <Save size={16} className="mr-2" /> 
+                    {responseId ? t('Actualizar') : t('Guardar')} {t('Respuestas')}
+                  </>
+                )}
+              </button>
             ) : (
-              <>
-                <Save size={16} className="mr-2" /> 
-                {responseId ? t('Actualizar') : t('Guardar')} {t('Respuestas')}
-              </>
+              <button
+                type="button"
+                onClick={handleNextPage}
+                className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center"
+              >
+                {t('Siguiente')} <ArrowRight size={16} className="ml-2" />
+              </button>
             )}
-          </button>
+          </div>
         </div>
       </div>
+
+      {/* Aviso al abrir el formulario con un borrador anterior */}
+      <ConfirmDialog
+        isOpen={draftToResume !== null}
+        title={t('Continuar donde lo dejaste')}
+        message={draftToResume
+          ? `${t('Tienes un borrador de este formulario guardado el')} ${formatDateDisplay(draftToResume.updatedAt)}. ${t('¿Quieres continuarlo?')}`
+          : ''}
+        confirmLabel={t('Continuar')}
+        cancelLabel={t('Descartar y empezar de nuevo')}
+        onConfirm={() => draftToResume && handleResumeDraft(draftToResume)}
+        onCancel={handleDiscardDraft}
+      />
     </div>
   );
 };
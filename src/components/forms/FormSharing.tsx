@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { X } from 'lucide-react'; // Íconos
+import { useDatabase } from '../../contexts/DatabaseContext'; // Lista de usuarios
+import { useForm } from '../../contexts/FormContext'; // Guardado de permisos
+import { Form, FormPermission } from '../../types';
+import { FORM_PERMISSIONS, FORM_PERMISSION_LABELS, ROLE_LABELS, ROLE_PERMISSIONS } from '../../utils/permissions';
+import Spinner from '../ui/Spinner'; // Componente de carga
+
+interface FormSharingProps {
+  form: Form; // Formulario a compartir
+  onClose: () => void; // Cierra el diálogo
+}
+
+/**
+ * Componente FormSharing - Diálogo para decidir quién puede editar, completar
+ * o ver/editar las respuestas de un formulario
+ *
+ * Los permisos que el rol de un usuario no admite aparecen deshabilitados.
+ */
+const FormSharing: React.FC<FormSharingProps> = ({ form, onClose }) => {
+  const { t } = useTranslation();
+  const { users, fetchUsers, isLoading } = useDatabase();
+  const { shareForm } = useForm();
+
+  // Permisos por usuario (userId -> permisos)
+  const [shares, setShares] = useState<Record<string, FormPermission[]>>(() =>
+    Object.fromEntries((form.permissions ?? []).map(share => [share.userId, share.permissions]))
+  );
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchUsers().catch(() => {});
+  }, []);
+
+  /**
+   * Concede o retira un permiso a un usuario
+   */
+  const togglePermission = (userId: string, permission: FormPermission) => {
+    setShares(prev => {
+      const current = prev[userId] ?? [];
+      return {
+        ...prev,
+        [userId]: current.includes(permission)
+          ? current.filter(p => p !== permission)
+          : [...current, permission]
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await shareForm(
+        form.id,
+        Object.entries(shares)
+          .filter(([, permissions]) => permissions.length > 0)
+          .map(([userId, permissions]) => ({ userId, permissions }))
+      );
+      onClose();
+    } catch (error) {
+      console.error('Error sharing form:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Los administradores y el creador ya tienen acceso completo
+  const shareableUsers = users.filter(u =>
+    u.role !== 'admin' &&
+    u.id !== form.createdBy &&
+    u.username.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        {/* Encabezado */}
+        <div className="p-6 border-b flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{t('Compartir formulario')}</h3>
+            <p className="text-sm text-gray-500">{form.name}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Usuarios y permisos */}
+        <div className="p-6 overflow-y-auto">
+          <input
+            type="text"
+            placeholder={t('Buscar usuarios')}
+            className="w-full mb-4 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+
+          {isLoading && users.length === 0 ? (
+            <div className="flex justify-center my-8">
+              <Spinner />
+            </div>
+          ) : shareableUsers.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">{t('No se encontraron usuarios')}</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100 text-gray-600 uppercase text-xs">
+                  <th className="py-2 px-3 text-left">{t('Usuario')}</th>
+                  {FORM_PERMISSIONS.map(permission => (
+                    <th key={permission} className="py-2 px-3 text-center">
+                      {t(FORM_PERMISSION_LABELS[permission])}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {shareableUsers.map(u => (
+                  <tr key={u.id} className="border-b border-gray-200">
+                    <td className="py-2 px-3">
+                      <div className="font-medium">{u.username}</div>
+                      <div className="text-xs text-gray-500">{t(ROLE_LABELS[u.role] ?? u.role)}</div>
+                    </td>
+                    {FORM_PERMISSIONS.map(permission => {
+                      const allowed = ROLE_PERMISSIONS[u.role]?.includes(permission) ?? false;
+                      return (
+                        <td key={permission} className="py-2 px-3 text-center">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 text-green-600 rounded"
+                            disabled={!allowed}
+                            checked={allowed && (shares[u.id] ?? []).includes(permission)}
+                            onChange={() => togglePermission(u.id, permission)}
+                            title={allowed ? '' : t('El rol de este usuario no admite este permiso')}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Acciones */}
+        <div className="bg-gray-50 px-6 py-4 flex justify-end space-x-3 rounded-b-lg">
+          <button
+            type="button"
+            className="px-4 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+            onClick={onClose}
+          >
+            {t('Cancelar')}
+          </button>
+          <button
+            type="button"
+            disabled={isSaving}
+            className="px-4 py-2 rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+            onClick={handleSave}
+          >
+            {isSaving ? <Spinner size="sm" color="white" /> : t('Guardar')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FormSharing;
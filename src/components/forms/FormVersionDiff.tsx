@@ -0,0 +1,117 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { FormDiff, isEmptyDiff } from '../../utils/formDiff';
+import { QUESTION_TYPE_LABELS } from '../../utils/questionTypes';
+
+interface FormVersionDiffProps {
+  diff: FormDiff; // Diferencias entre dos versiones
+}
+
+// Etiquetas de los cambios de opciones
+const OPTION_CHANGE_LABELS = {
+  added: 'Opción agregada',
+  removed: 'Opción eliminada',
+  renamed: 'Opción renombrada'
+};
+
+/**
+ * Componente FormVersionDiff - Diferencias a nivel de pregunta entre dos versiones de un formulario
+ */
+const FormVersionDiff: React.FC<FormVersionDiffProps> = ({ diff }) => {
+  const { t } = useTranslation();
+
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-gray-400 italic">{t('Las versiones son idénticas')}</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {(diff.nameChanged || diff.descriptionChanged) && (
+        <p className="text-gray-600">
+          {diff.nameChanged && t('Cambió el nombre del formulario. ')}
+          {diff.descriptionChanged && t('Cambió la descripción del formulario.')}
+        </p>
+      )}
+
+      {/* Preguntas agregadas */}
+      {diff.added.length > 0 && (
+        <div>
+          <h4 className="font-medium text-green-700 mb-1">{t('Preguntas agregadas')} ({diff.added.length})</h4>
+          <ul className="space-y-1">
+            {diff.added.map(question => (
+              <li key={question.id} className="px-2 py-1 bg-green-50 rounded">
+                {question.text || question.id}{' '}
+                <span className="text-xs text-gray-500">({t(QUESTION_TYPE_LABELS[question.type] ?? question.type)})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Preguntas eliminadas */}
+      {diff.removed.length > 0 && (
+        <div>
+          <h4 className="font-medium text-red-700 mb-1">{t('Preguntas eliminadas')} ({diff.removed.length})</h4>
+          <ul className="space-y-1">
+            {diff.removed.map(question => (
+              <li key={question.id} className="px-2 py-1 bg-red-50 rounded line-through text-gray-600">
+                {question.text || question.id}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Preguntas modificadas */}
+      {diff.changed.length > 0 && (
+        <div>
+          <h4 className="font-medium text-yellow-700 mb-1">{t('Preguntas modificadas')} ({diff.changed.length})</h4>
+          <ul className="space-y-2">
+            {diff.changed.map(change => (
+              <li key={change.questionId} className="px-2 py-1 bg-yellow-50 rounded">
+                <div className="font-medium text-gray-800">{change.after.text || change.questionId}</div>
+                <ul className="text-xs text-gray-600 mt-1 space-y-0.5">
+                  {change.textChanged && (
+                    <li>
+                      {t('Texto')}: <span className="line-through text-red-600">{change.before.text}</span>{' '}
+                      → <span className="text-green-700">{change.after.text}</span>
+                    </li>
+                  )}
+                  {change.typeChanged && (
+                    <li>
+                      {t('Tipo')}: {t(QUESTION_TYPE_LABELS[change.before.type] ?? change.before.type)}{' '}
+                      → {t(QUESTION_TYPE_LABELS[change.after.type] ?? change.after.type)}
+                    </li>
+                  )}
+                  {change.requiredChanged && (
+                    <li>{change.after.required ? t('Ahora es obligatoria') : t('Ya no es obligatoria')}</li>
+                  )}
+                  {change.formulaChanged && (
+                    <li>
+                      {t('Fórmula')}: <span className="line-through text-red-600 font-mono">{change.before.calculation?.expression}</span>{' '}
+                      → <span className="text-green-700 font-mono">{change.after.calculation?.expression}</span>
+                    </li>
+                  )}
+                  {change.optionChanges.map(optionChange => (
+                    <li key={optionChange.optionId}>
+                      {t(OPTION_CHANGE_LABELS[optionChange.kind])}:{' '}
+                      {optionChange.before && (
+                        <span className={optionChange.kind === 'removed' || optionChange.kind === 'renamed' ? 'line-through text-red-600' : ''}>
+                          {optionChange.before}
+                        </span>
+                      )}
+                      {optionChange.before && optionChange.after && ' → '}
+                      {optionChange.after && <span className="text-green-700">{optionChange.after}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormVersionDiff;
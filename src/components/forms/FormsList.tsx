@@ -1,12 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Edit, Eye, Trash2, BarChart, Download } from 'lucide-react'; // Íconos
+import { Edit, Eye, Trash2, BarChart, Download, WifiOff, Share2 } from 'lucide-react'; // Íconos
 import { useForm } from '../../contexts/FormContext'; // Contexto de formularios
 import { useAuth } from '../../contexts/AuthContext'; // Contexto de autenticación
 //import { useDatabase } from './DatabaseContext';
 import { useTranslation } from 'react-i18next'; // Internacionalización
 import { exportToExcel } from '../../utils/excelUtils'; // Utilidad para exportar
+import { canCreateForms, canManageForm, hasFormPermission } from '../../utils/permissions'; // Modelo de permisos
 import ConfirmDialog from '../ui/ConfirmDialog'; // Diálogo de confirmación
+import FormSharing from './FormSharing'; // Diálogo para compartir
 import Spinner from '../ui/Spinner'; // Componente de carga
 console.log("Forms cargando");
 const FormsList: React.FC = () => {
@@ -19,7 +21,8 @@ const FormsList: React.FC = () => {
     deleteForm,      // Función para eliminar formularios
     isLoading,       // Estado de carga
     responses,       // Respuestas cargadas
-    loadResponses    // Función para cargar respuestas
+    loadResponses,   // Función para cargar respuestas
+    offlineFormIds   // Formularios con copia local
   } = useForm();
 
   const { user } = useAuth(); // Datos del usuario autenticado
@@ -27,6 +30,7 @@ const FormsList: React.FC = () => {
 
   // Estados locales
   const [formToDelete, setFormToDelete] = useState<string | null>(null); // ID del formulario a eliminar
+  const [formToShare, setFormToShare] = useState<string | null>(null); // ID del formulario a compartir
   const [searchTerm, setSearchTerm] = useState(''); // Término de búsqueda
 
   // ======================
@@ -43,7 +47,8 @@ const FormsList: React.FC = () => {
   // En FormsList.tsx, modifica el useEffect para cargar respuestas:
   useEffect(() => {
     const loadAllResponses = async () => {
-      for (const form of forms) {
+      // Solo se piden las respuestas de los formularios que el usuario puede ver
+      for (const form of forms.filter(f => hasFormPermission(user, f, 'view_responses'))) {
         try {
           await loadResponses(form.id);
         } catch (error) {
@@ -52,7 +57,8 @@ const FormsList: React.FC = () => {
       }
     };
     
-    if (forms.length > 0) {
+    // Sin conexión solo se muestran los formularios guardados localmente
+    if (forms.length > 0 && navigator.onLine) {
       loadAllResponses();
     }
   }, [forms]); // Solo se ejecuta cuando forms cambia
@@ -127,7 +133,7 @@ const FormsList: React.FC = () => {
             <p className="text-gray-500 mb-4">
               {searchTerm ? t('no_matching_forms') : t('no_forms_created')}
             </p>
-            {user?.role === 'admin' && (
+            {canCreateForms(user) && (
               <Link 
                 to="/crear" 
                 className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
@@ -155,6 +161,15 @@ const FormsList: React.FC = () => {
                     {/* Nombre */}
                     <td className="py-3 px-6 text-left">
                       <div className="font-medium">{form.name}</div>
+                      {offlineFormIds.includes(form.id) && (
+                        <div
+                          className="inline-flex items-center text-xs text-green-700 mt-1"
+                          title={t('Este formulario puede completarse sin conexión')}
+                        >
+                          <WifiOff size={12} className="mr-1" />
+                          {t('Disponible sin conexión')}
+                        </div>
+                      )}
                       <div className="text-xs text-gray-500 md:hidden">
                         {new Date(form.updatedAt).toLocaleDateString()}
                       </div>
@@ -172,9 +187,11 @@ const FormsList: React.FC = () => {
                     
                     {/* Número de respuestas (solo en desktop) */}
                     <td className="py-3 px-6 text-center hidden md:table-cell">
-                      <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full">
-                        {getResponseCount(form.id)}
-                      </span>
+                      {hasFormPermission(user, form, 'view_responses') && (
+                        <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full">
+                          {getResponseCount(form.id)}
+                        </span>
+                      )}
                     </td>
                     
                     {/* Versión (solo en desktop) */}
@@ -185,19 +202,28 @@ const FormsList: React.FC = () => {
                     {/* Acciones */}
                     <td className="py-3 px-6 text-center">
                       <div className="flex justify-center space-x-2">
-                        {/* Acciones solo para admin */}
-                        {user?.role === 'admin' && (
+                        {/* Editar (permiso de edición) */}
+                        {hasFormPermission(user, form, 'edit') && (
+                          <Link 
+                            to={`/editar/${form.id}`} 
+                            className="text-blue-600 hover:text-blue-900" 
+                            title={t('edit')}
+                          >
+                            <Edit size={18} />
+                          </Link>
+                        )}
+
+                        {/* Compartir y eliminar (admin o creador) */}
+                        {canManageForm(user, form) && (
                           <>
-                            {/* Editar */}
-                            <Link 
-                              to={`/editar/${form.id}`} 
-                              className="text-blue-600 hover:text-blue-900" 
-                              title={t('edit')}
+                            <button 
+                              onClick={() => setFormToShare(form.id)} 
+                              className="text-teal-600 hover:text-teal-900"
+                              title={t('Compartir')}
                             >
-                              <Edit size={18} />
-                            </Link>
-                            
-                            {/* Eliminar */}
+                              <Share2 size={18} />
+                            </button>
+
                             <button 
                               onClick={() => setFormToDelete(form.id)} 
                               className="text-red-600 hover:text-red-900"
@@ -208,17 +234,19 @@ const FormsList: React.FC = () => {
                           </>
                         )}
                         
-                        {/* Vista previa */}
-                        <Link 
-                          to={`/vista-previa/${form.id}`} 
-                          className="text-green-600 hover:text-green-900" 
-                          title={t('preview')}
-                        >
-                          <Eye size={18} />
-                        </Link>
+                        {/* Vista previa (permiso para completar) */}
+                        {hasFormPermission(user, form, 'fill') && (
+                          <Link 
+                            to={`/vista-previa/${form.id}`} 
+                            className="text-green-600 hover:text-green-900" 
+                            title={t('preview')}
+                          >
+                            <Eye size={18} />
+                          </Link>
+                        )}
                         
-                        {/* Ver respuestas (solo admin) */}
-                        {user?.role === 'admin' && (
+                        {/* Ver respuestas (permiso para ver respuestas) */}
+                        {hasFormPermission(user, form, 'view_responses') && (
                           <Link 
                             to={`/respuestas/${form.id}`} 
                             className="text-purple-600 hover:text-purple-900" 
@@ -228,14 +256,16 @@ const FormsList: React.FC = () => {
                           </Link>
                         )}
                         
-                        {/* Exportar */}
-                        <button 
-                          onClick={() => handleExportForm(form.id, form.name)} 
-                          className="text-orange-600 hover:text-orange-900"
-                          title={t('export_form')}
-                        >
-                          <Download size={18} />
-                        </button>
+                        {/* Exportar (permiso de edición) */}
+                        {hasFormPermission(user, form, 'edit') && (
+                          <button 
+                            onClick={() => handleExportForm(form.id, form.name)} 
+                            className="text-orange-600 hover:text-orange-900"
+                            title={t('export_form')}
+                          >
+                            <Download size={18} />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -261,6 +291,14 @@ const FormsList: React.FC = () => {
         }}
         onCancel={() => setFormToDelete(null)}
       />
+
+      {/* Diálogo para compartir */}
+      {formToShare && forms.find(f => f.id === formToShare) && (
+        <FormSharing
+          form={forms.find(f => f.id === formToShare)!}
+          onClose={() => setFormToShare(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from 'react';
+import { CalculationConfig, Question } from '../../types';
+import { DEFAULT_FORMULA_DECIMALS, FORMULA_FUNCTIONS } from '../../utils/formula';
+import { getQuestionCode } from '../../utils/questionCodes';
+import { QUESTION_TYPE_LABELS } from '../../utils/questionTypes';
+import { FORMULA_SOURCE_TYPES } from '../../utils/ruleValidation';
+
+interface FormulaEditorProps {
+  question: Question; // Campo calculado que se edita
+  allQuestions: Question[]; // Preguntas del formulario (para autocompletar referencias)
+  errors: string[]; // Errores de la fórmula
+  onChange: (calculation: CalculationConfig) => void; // Callback con la fórmula modificada
+}
+
+// Sugerencias que se muestran como máximo
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Componente FormulaEditor - Fórmula de un campo calculado.
+ * Al escribir `{` sugiere las preguntas del formulario por código o texto.
+ */
+const FormulaEditor: React.FC<FormulaEditorProps> = ({ question, allQuestions, errors, onChange }) => {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  // Texto escrito tras la última `{` sin cerrar (null = sin autocompletado)
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const calculation = question.calculation ?? { expression: '' };
+
+  // Preguntas con código y un valor que la fórmula puede usar
+  const candidates = allQuestions.filter(
+    q => q.id !== question.id && getQuestionCode(q) && FORMULA_SOURCE_TYPES.includes(q.type)
+  );
+
+  const suggestions = query === null
+    ? []
+    : candidates
+      .filter(q => {
+        const search = query.toLowerCase();
+        return getQuestionCode(q).toLowerCase().includes(search) || q.text.toLowerCase().includes(search);
+      })
+      .slice(0, MAX_SUGGESTIONS);
+
+  /**
+   * Actualiza el autocompletado según el texto anterior al cursor
+   */
+  const updateQuery = (expression: string, cursor: number) => {
+    const match = expression.slice(0, cursor).match(/\{([^{}]*)$/);
+    setQuery(match ? match[1] : null);
+    setHighlighted(0);
+  };
+
+  const handleExpressionChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange({ ...calculation, expression: event.target.value });
+    updateQuery(event.target.value, event.target.selectionStart);
+  };
+
+  /**
+   * Inserta texto en la posición del cursor (sustituyendo `replaceLength` caracteres anteriores)
+   */
+  const insertAtCursor = (text: string, replaceLength = 0) => {
+    const input = inputRef.current;
+    const cursor = input?.selectionStart ?? calculation.expression.length;
+    const start = cursor - replaceLength;
+    const expression = calculation.expression.slice(0, start) + text + calculation.expression.slice(cursor);
+
+    onChange({ ...calculation, expression });
+    setQuery(null);
+
+    // Coloca el cursor tras el texto insertado cuando React actualice el campo
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  /**
+   * Completa la referencia que se está escribiendo con el código de la pregunta elegida
+   */
+  const handleSelectSuggestion = (candidate: Question) => {
+    insertAtCursor(`{${getQuestionCode(candidate)}}`, (query?.length ?? 0) + 1);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      handleSelectSuggestion(suggestions[highlighted]);
+    } else if (event.key === 'Escape') {
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <textarea
+          ref={inputRef}
+          value={calculation.expression}
+          onChange={handleExpressionChange}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateQuery(calculation.expression, e.currentTarget.selectionStart)}
+          onBlur={() => setQuery(null)}
+          rows={2}
+          spellCheck={false}
+          className={`w-full px-4 py-2 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-green-500 ${
+            errors.length > 0 ? 'border-red-500' : 'border-gray-300'
+          }`}
+          placeholder="{q002} / ({q003} / 100) ^ 2"
+        />
+
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+            {suggestions.map((candidate, index) => (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  // mousedown para elegir antes de que el campo pierda el foco
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    handleSelectSuggestion(candidate);
+                  }}
+                  className={`w-full text-left px-3 py-2 text-sm flex items-center ${
+                    index === highlighted ? 'bg-green-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="font-mono text-gray-500 mr-2">{getQuestionCode(candidate)}</span>
+                  <span className="truncate text-gray-800">{candidate.text || 'Sin texto'}</span>
+                  <span className="ml-auto pl-2 text-xs text-gray-400">{QUESTION_TYPE_LABELS[candidate.type]}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Decimales del resultado
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={calculation.decimals ?? DEFAULT_FORMULA_DECIMALS}
+            onChange={(e) => onChange({
+              ...calculation,
+              decimals: Math.min(Math.max(Math.round(Number(e.target.value)) || 0, 0), 10)
+            })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-500 space-y-1">
+        <p>
+          Escribe <span className="font-mono">{'{'}</span> para usar la respuesta a otra pregunta por su código
+          (las preguntas nuevas reciben código al guardar). Operadores: + − * / % ^, comparaciones
+          (= != &lt; &lt;= &gt; &gt;=), &amp;&amp; y ||. Sí/No vale 1/0 y una selección múltiple, el número de opciones marcadas.
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {FORMULA_FUNCTIONS.map(fn => (
+            <button
+              key={fn.name}
+              type="button"
+              onClick={() => insertAtCursor(`${fn.name}(`)}
+              className="px-2 py-0.5 bg-gray-100 rounded font-mono text-gray-700 hover:bg-gray-200"
+              title={fn.description}
+            >
+              {fn.name}()
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FormulaEditor;
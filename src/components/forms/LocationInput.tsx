@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, LocateFixed } from 'lucide-react'; // Íconos
+import { LocationAnswer } from '../../types';
+import { getMapEmbedUrl, getMapLink, isValidLocation } from '../../utils/location';
+import Spinner from '../ui/Spinner'; // Componente de carga
+
+interface LocationInputProps {
+  value: LocationAnswer | null | undefined; // Ubicación actual
+  onChange: (value: LocationAnswer | null) => void; // Callback con la ubicación modificada
+  compact?: boolean; // Sin mapa, para la edición en la tabla de respuestas
+}
+
+// Errores de la API de geolocalización del navegador
+const GEOLOCATION_ERRORS: Record<number, string> = {
+  1: 'Permiso de ubicación denegado',
+  2: 'No se pudo determinar la ubicación',
+  3: 'Se agotó el tiempo para obtener la ubicación'
+};
+
+/**
+ * Componente LocationInput - Captura latitud y longitud con el GPS del dispositivo
+ * o a mano, con una vista previa del punto en el mapa
+ */
+const LocationInput: React.FC<LocationInputProps> = ({ value, onChange, compact = false }) => {
+  // Texto de los campos (permite valores a medio escribir como "-" o "40.")
+  const [latitude, setLatitude] = useState(value ? String(value.latitude ?? '') : '');
+  const [longitude, setLongitude] = useState(value ? String(value.longitude ?? '') : '');
+  const [isLocating, setIsLocating] = useState(false);
+  const [geoError, setGeoError] = useState<string | null>(null);
+
+  // Sincroniza los campos si la ubicación cambia desde fuera (p. ej. al cargar la respuesta)
+  useEffect(() => {
+    if (isValidLocation(value)) {
+      setLatitude(String(value.latitude));
+      setLongitude(String(value.longitude));
+    } else if (!value) {
+      setLatitude('');
+      setLongitude('');
+    }
+  }, [value?.latitude, value?.longitude]);
+
+  /**
+   * Emite la ubicación escrita a mano (incompleta o fuera de rango se valida al guardar)
+   */
+  const handleManualChange = (nextLatitude: string, nextLongitude: string) => {
+    setLatitude(nextLatitude);
+    setLongitude(nextLongitude);
+
+    if (nextLatitude.trim() === '' && nextLongitude.trim() === '') {
+      onChange(null);
+      return;
+    }
+
+    const toNumber = (text: string) => (text.trim() === '' ? NaN : Number(text.replace(',', '.')));
+    onChange({ latitude: toNumber(nextLatitude), longitude: toNumber(nextLongitude) });
+  };
+
+  /**
+   * Obtiene la ubicación actual del dispositivo
+   */
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setGeoError('Este navegador no permite obtener la ubicación');
+      return;
+    }
+
+    setIsLocating(true);
+    setGeoError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onChange({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: Math.round(position.coords.accuracy)
+        });
+      },
+      (error) => {
+        setIsLocating(false);
+        setGeoError(GEOLOCATION_ERRORS[error.code] ?? error.message);
+      },
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 60000 }
+    );
+  };
+
+  const inputClass = compact
+    ? 'w-full px-2 py-1 border rounded'
+    : 'w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="space-y-2">
+      <div className={`grid gap-2 ${compact ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-3'}`}>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={latitude}
+          onChange={(e) => handleManualChange(e.target.value, longitude)}
+          placeholder="Latitud"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          inputMode="decimal"
+          value={longitude}
+          onChange={(e) => handleManualChange(latitude, e.target.value)}
+          placeholder="Longitud"
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={handleUseCurrentLocation}
+          disabled={isLocating}
+          className={`inline-flex items-center justify-center bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 ${
+            compact ? 'px-2 py-1' : 'px-3 py-2'
+          }`}
+        >
+          {isLocating ? <Spinner size="sm" /> : <LocateFixed size={16} className="mr-2" />}
+          {!compact && 'Usar mi ubicación'}
+        </button>
+      </div>
+
+      {geoError && <p className="text-sm text-red-500">{geoError}</p>}
+
+      {isValidLocation(value) && (
+        <div className="space-y-1">
+          {value.accuracy !== undefined && (
+            <p className="text-xs text-gray-500">Precisión aproximada: {value.accuracy} m</p>
+          )}
+          {!compact && (
+            <iframe
+              title="Mapa de la ubicación"
+              src={getMapEmbedUrl(value)}
+              className="w-full h-56 rounded-md border border-gray-200"
+              loading="lazy"
+            />
+          )}
+          <a
+            href={getMapLink(value)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800"
+          >
+            <ExternalLink size={12} className="mr-1" /> Ver en el mapa
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationInput;
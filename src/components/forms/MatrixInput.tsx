@@ -0,0 +1,95 @@
+import React from 'react';
+import { MatrixAnswer, Question } from '../../types';
+
+interface MatrixInputProps {
+  question: Question; // Pregunta de tipo `matrix`
+  value: MatrixAnswer | undefined; // Respuesta actual (columna o columnas por fila)
+  onChange: (value: MatrixAnswer) => void; // Callback con la respuesta modificada
+  compact?: boolean; // Versión reducida para la edición en la tabla de respuestas
+}
+
+/**
+ * Componente MatrixInput - Cuadrícula de filas × columnas de una pregunta en matriz
+ * (una opción por fila, o varias si la matriz es múltiple)
+ */
+const MatrixInput: React.FC<MatrixInputProps> = ({ question, value, onChange, compact = false }) => {
+  const rows = question.matrix?.rows ?? [];
+  const columns = question.matrix?.columns ?? [];
+  const multiple = Boolean(question.matrix?.multiple);
+  const answers = value ?? {};
+
+  /**
+   * Marca o desmarca una celda (en filas de opción única, volver a pulsar la deja sin respuesta)
+   */
+  const toggleCell = (rowId: string, columnId: string) => {
+    const next: MatrixAnswer = { ...answers };
+    const current = answers[rowId];
+
+    if (multiple) {
+      const selected = Array.isArray(current) ? current : current ? [current] : [];
+      const updated = selected.includes(columnId)
+        ? selected.filter(id => id !== columnId)
+        : [...selected, columnId];
+      if (updated.length > 0) next[rowId] = updated;
+      else delete next[rowId];
+    } else if (current === columnId) {
+      delete next[rowId];
+    } else {
+      next[rowId] = columnId;
+    }
+
+    onChange(next);
+  };
+
+  const isChecked = (rowId: string, columnId: string) => {
+    const current = answers[rowId];
+    return Array.isArray(current) ? current.includes(columnId) : current === columnId;
+  };
+
+  if (rows.length === 0 || columns.length === 0) {
+    return <p className="text-sm text-gray-400 italic">La matriz no tiene filas o columnas</p>;
+  }
+
+  const cellClass = compact ? 'px-1 py-1' : 'px-3 py-2';
+
+  return (
+    <div className="overflow-x-auto">
+      <table className={`min-w-full ${compact ? 'text-xs' : 'text-sm'}`}>
+        <thead>
+          <tr>
+            <th className={cellClass} />
+            {columns.map(column => (
+              <th key={column.id} className={`${cellClass} text-center font-medium text-gray-600`}>
+                {column.text}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={row.id} className={index % 2 === 0 ? 'bg-gray-50' : 'bg-white'}>
+              <td className={`${cellClass} text-gray-700`}>{row.text}</td>
+              {columns.map(column => (
+                <td key={column.id} className={`${cellClass} text-center`}>
+                  <input
+                    type={multiple ? 'checkbox' : 'radio'}
+                    name={`${question.id}-${row.id}`}
+                    checked={isChecked(row.id, column.id)}
+                    onChange={() => toggleCell(row.id, column.id)}
+                    onClick={() => {
+                      // Los radios no disparan onChange al pulsar el ya marcado
+                      if (!multiple && isChecked(row.id, column.id)) toggleCell(row.id, column.id);
+                    }}
+                    aria-label={`${row.text}: ${column.text}`}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default MatrixInput;
@@ -4,18 +4,31 @@ import { useTranslation } from 'react-i18next'; // Para internacionalización
 import { v4 as uuidv4 } from 'uuid'; // Generador de IDs únicos
 import { Question, QuestionType, Option } from '../../types'; // Tipos de datos
 import { ChevronUp, ChevronDown, Plus, Trash2 } from 'lucide-react'; // Iconos
+import { getQuestionCode } from '../../utils/questionCodes'; // Código legible de la pregunta
+import { DEFAULT_RATING_MAX, QUESTION_TYPE_LABELS, getRatingMax, isSection } from '../../utils/questionTypes'; // Tipos de pregunta
+import { DEFAULT_FILE_CONFIG, FILE_TYPE_PRESETS, MAX_UPLOAD_MB, getFileConfig } from '../../utils/fileUploads'; // Archivos adjuntos
+import { getReferenceableQuestions } from '../../utils/ruleValidation'; // Preguntas usables en condiciones
+import VisibilityRuleEditor from './VisibilityRuleEditor'; // Editor de lógica condicional
+import ValidationRulesEditor, { supportsValidationRules } from './ValidationRulesEditor'; // Reglas de validación
+import FormulaEditor from './FormulaEditor'; // Fórmula de los campos calculados
+import ScoringEditor from './ScoringEditor'; // Puntuación de las evaluaciones
+import { SCORABLE_TYPES } from '../../utils/scoring'; // Tipos de pregunta puntuables
 
 // Definición de las propiedades que recibe el componente
 interface QuestionEditorProps {
   question: Question; // Pregunta actual que se está editando
   allQuestions: Question[]; // Lista completa de preguntas (para relaciones jerárquicas)
   onUpdate: (question: Question) => void; // Callback para actualizar una pregunta
+  onAddQuestion: (question: Question) => void; // Callback para agregar una subpregunta al formulario
+  onDeleteQuestion: (questionId: string) => void; // Callback para eliminar cualquier pregunta (y sus subpreguntas)
   onDelete: () => void; // Callback para eliminar la pregunta
   onMoveUp: () => void; // Callback para mover la pregunta arriba
   onMoveDown: () => void; // Callback para mover la pregunta abajo
   canMoveUp: boolean; // Indica si se puede mover hacia arriba
   canMoveDown: boolean; // Indica si se puede mover hacia abajo
   nestLevel?: number; // Nivel de anidamiento (para estilos visuales)
+  ruleErrors?: Record<string, string[]>; // Errores de lógica condicional por ID de pregunta
+  formulaErrors?: Record<string, string[]>; // Errores de las fórmulas por ID de pregunta
 }
 
 /**
@@ -25,18 +38,23 @@ interface QuestionEditorProps {
  * - Editar el texto y tipo de pregunta
  * - Gestionar opciones para preguntas de selección
  * - Crear subpreguntas condicionales
+ * - Definir reglas de visibilidad sobre preguntas anteriores
  * - Reordenar y eliminar preguntas
  */
 const QuestionEditor: React.FC<QuestionEditorProps> = ({
   question,
   allQuestions,
   onUpdate,
+  onAddQuestion,
+  onDeleteQuestion,
   onDelete,
   onMoveUp,
   onMoveDown,
   canMoveUp,
   canMoveDown,
   nestLevel = 0, // Valor por defecto para el nivel de anidamiento
+  ruleErrors = {},
+  formulaErrors = {},
 }) => {
   // Hooks de estado
   const { t } = useTranslation(); // Hook para internacionalización
@@ -54,6 +72,49 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
   const handleTypeChange = (newType: QuestionType) => {
     let updatedQuestion: Question = { ...question, type: newType };
     
+    // Las reglas de validación dependen del tipo
+    delete updatedQuestion.validation;
+    
+    // Solo las valoraciones tienen escala
+    if (newType === 'rating') {
+      updatedQuestion.rating = updatedQuestion.rating ?? { max: DEFAULT_RATING_MAX };
+    } else {
+      delete updatedQuestion.rating;
+    }
+    
+    // Solo las matrices tienen filas y columnas
+    if (newType === 'matrix') {
+      updatedQuestion.matrix = updatedQuestion.matrix ?? {
+        rows: [{ id: uuidv4(), text: '' }],
+        columns: [{ id: uuidv4(), text: '' }],
+        multiple: false
+      };
+    } else {
+      delete updatedQuestion.matrix;
+    }
+    
+    // Solo las preguntas de archivos tienen restricciones de tipo y tamaño
+    if (newType === 'file') {
+      updatedQuestion.file = updatedQuestion.file ?? { ...DEFAULT_FILE_CONFIG };
+    } else {
+      delete updatedQuestion.file;
+    }
+    
+    // Los campos calculados no los responde nadie: no son obligatorios y se exportan a Power BI
+    if (newType === 'calculated') {
+      updatedQuestion.calculation = updatedQuestion.calculation ?? { expression: '' };
+      updatedQuestion.required = false;
+      updatedQuestion.includeInPowerBI = true;
+    } else {
+      delete updatedQuestion.calculation;
+    }
+    
+    // La puntuación se refiere a las opciones: solo se conserva entre selección única y múltiple
+    const keepsOptions = ['select', 'multiselect'].includes(question.type) && ['select', 'multiselect'].includes(newType);
+    if (!keepsOptions) {
+      delete updatedQuestion.scoring;
+    }
+    
     // Si el nuevo tipo no necesita opciones, las eliminamos
     if (!['select', 'multiselect'].includes(newType) && updatedQuestion.options) {
       delete updatedQuestion.options;
@@ -103,17 +164,25 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
   const handleDeleteOption = (optionId: string) => {
     if (!question.options) return;
     
-    // Nota: Aquí se menciona eliminar subpreguntas pero no se implementa completamente
-    // En una implementación real, necesitarías llamar a onDelete para cada subpregunta
-    const subQuestionIds = allQuestions
-      .filter(q => q.parentOptionId === optionId)
-      .map(q => q.id);
+    // Elimina también las subpreguntas que dependían de la opción
+    allQuestions
+      .filter(q => q.parentId === question.id && q.parentOptionId === optionId)
+      .forEach(q => onDeleteQuestion(q.id));
     
     const updatedOptions = question.options.filter(opt => opt.id !== optionId);
     
+    // La opción deja de puntuar
+    let scoring = question.scoring;
+    if (scoring) {
+      const points = { ...scoring.points };
+      delete points[optionId];
+      scoring = { points, correct: scoring.correct.filter(id => id !== optionId) };
+    }
+    
     onUpdate({
       ...question,
-      options: updatedOptions
+      options: updatedOptions,
+      scoring
     });
   };
   
@@ -136,14 +205,12 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
   };
   
   /**
-   * Guarda la nueva subpregunta
+   * Agrega la nueva subpregunta al formulario
    */
   const handleSaveSubQuestion = () => {
     if (!newSubQuestion) return;
     
-    // Nota: Aquí se llama a onUpdate pero en realidad debería ser una operación diferente
-    // ya que estamos agregando una nueva pregunta, no actualizando la existente
-    onUpdate(newSubQuestion);
+    onAddQuestion(newSubQuestion);
     setNewSubQuestion(null);
     setShowSubQuestionForm(null);
   };
@@ -154,7 +221,7 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
    * @returns Array de subpreguntas
    */
   const getSubQuestionsForOption = (optionId: string) => {
-    return allQuestions.filter(q => q.parentOptionId === optionId);
+    return allQuestions.filter(q => q.parentId === question.id && q.parentOptionId === optionId);
   };
   
   /**
@@ -207,6 +274,8 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
                   question={newSubQuestion}
                   allQuestions={allQuestions}
                   onUpdate={(updatedQuestion) => setNewSubQuestion(updatedQuestion)}
+                  onAddQuestion={onAddQuestion}
+                  onDeleteQuestion={onDeleteQuestion}
                   onDelete={() => {
                     setNewSubQuestion(null);
                     setShowSubQuestionForm(null);
@@ -247,16 +316,16 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
                   question={subQuestion}
                   allQuestions={allQuestions}
                   onUpdate={onUpdate}
-                  onDelete={() => {
-                    // Nota: Esta implementación no es completa para eliminar
-                    const updatedQuestions = allQuestions.filter(q => q.id !== subQuestion.id);
-                    onUpdate({...question});
-                  }}
+                  onAddQuestion={onAddQuestion}
+                  onDeleteQuestion={onDeleteQuestion}
+                  onDelete={() => onDeleteQuestion(subQuestion.id)}
                   onMoveUp={() => {}}
                   onMoveDown={() => {}}
                   canMoveUp={false}
                   canMoveDown={false}
                   nestLevel={nestLevel + 1}
+                  ruleErrors={ruleErrors}
+                  formulaErrors={formulaErrors}
                 />
               </div>
             ))}
@@ -274,6 +343,173 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
     );
   };
   
+  /**
+   * Agrega, renombra o elimina una fila o columna de la matriz
+   * @param part - 'rows' o 'columns'
+   */
+  const handleUpdateMatrixItems = (part: 'rows' | 'columns', items: Option[]) => {
+    const matrix = question.matrix ?? { rows: [], columns: [] };
+    onUpdate({ ...question, matrix: { ...matrix, [part]: items } });
+  };
+  
+  /**
+   * Renderiza las filas y columnas de la matriz (para el tipo matrix)
+   * @returns JSX con las dos listas y sus controles
+   */
+  const renderMatrix = () => {
+    if (question.type !== 'matrix') return null;
+    
+    const parts: Array<{ key: 'rows' | 'columns'; label: string; placeholder: string; add: string }> = [
+      { key: 'rows', label: 'Filas (elementos)', placeholder: 'Texto de la fila', add: 'Agregar Fila' },
+      { key: 'columns', label: 'Columnas (opciones)', placeholder: 'Texto de la columna', add: 'Agregar Columna' }
+    ];
+    
+    return (
+      <div className="pl-4 mt-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {parts.map(part => {
+            const items = question.matrix?.[part.key] ?? [];
+            return (
+              <div key={part.key} className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">{part.label}</label>
+                {items.map(item => (
+                  <div key={item.id} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={item.text}
+                      onChange={(e) => handleUpdateMatrixItems(
+                        part.key,
+                        items.map(i => i.id === item.id ? { ...i, text: e.target.value } : i)
+                      )}
+                      className="flex-grow px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-green-500"
+                      placeholder={part.placeholder}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleUpdateMatrixItems(part.key, items.filter(i => i.id !== item.id))}
+                      className="p-2 text-red-500 hover:text-red-700 focus:outline-none"
+                      title="Eliminar"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => handleUpdateMatrixItems(part.key, [...items, { id: uuidv4(), text: '' }])}
+                  className="mt-2 text-sm flex items-center text-green-600 hover:text-green-800"
+                >
+                  <Plus size={14} className="mr-1" /> {part.add}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id={`matrix-multiple-${question.id}`}
+            checked={Boolean(question.matrix?.multiple)}
+            onChange={(e) => onUpdate({
+              ...question,
+              matrix: { rows: [], columns: [], ...question.matrix, multiple: e.target.checked }
+            })}
+            className="mr-2 h-4 w-4 text-green-600 focus:ring-green-500 rounded"
+          />
+          <label htmlFor={`matrix-multiple-${question.id}`} className="text-sm text-gray-700">
+            Permitir varias columnas por fila
+          </label>
+        </div>
+      </div>
+    );
+  };
+  
+  // Las secciones solo tienen título, descripción y la regla que omite su página
+  if (isSection(question)) {
+    return (
+      <div className="border-2 border-dashed border-green-300 rounded-lg p-4 bg-green-50">
+        <div className="flex justify-between items-center mb-4">
+          <span className="text-sm font-medium text-green-700">
+            {QUESTION_TYPE_LABELS.section} · nueva página
+          </span>
+          
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={onMoveUp}
+              disabled={!canMoveUp}
+              className={`p-1 rounded focus:outline-none ${canMoveUp ? 'text-gray-500 hover:text-gray-700' : 'text-gray-300 cursor-not-allowed'}`}
+              title="Mover hacia arriba"
+            >
+              <ChevronUp size={18} />
+            </button>
+            <button
+              type="button"
+              onClick={onMoveDown}
+              disabled={!canMoveDown}
+              className={`p-1 rounded focus:outline-none ${canMoveDown ? 'text-gray-500 hover:text-gray-700' : 'text-gray-300 cursor-not-allowed'}`}
+              title="Mover hacia abajo"
+            >
+              <ChevronDown size={18} />
+            </button>
+            <button
+              type="button"
+              onClick={onDelete}
+              className="p-1 text-red-500 hover:text-red-700 focus:outline-none"
+              title="Eliminar sección"
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
+        </div>
+        
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Título de la sección
+            </label>
+            <input
+              type="text"
+              value={question.text}
+              onChange={(e) => onUpdate({...question, text: e.target.value})}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              placeholder="Título de la sección (opcional)"
+            />
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Descripción
+            </label>
+            <textarea
+              value={question.description ?? ''}
+              onChange={(e) => onUpdate({...question, description: e.target.value})}
+              rows={2}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              placeholder="Texto que se muestra al principio de la página"
+            />
+          </div>
+          
+          {/* Si la regla oculta la sección, se salta la página entera */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Lógica condicional
+            </label>
+            <VisibilityRuleEditor
+              rule={question.visibility}
+              candidates={getReferenceableQuestions(allQuestions, question.id)}
+              allQuestions={allQuestions}
+              errors={ruleErrors[question.id] ?? []}
+              subject="esta página"
+              onChange={(visibility) => onUpdate({...question, visibility})}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+  
   // Renderizado principal del componente
   return (
     <div className={`border border-gray-200 rounded-lg p-4 ${nestLevel > 0 ? 'bg-blue-50' : 'bg-white'}`}>
@@ -292,13 +528,15 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
             
             {/* Muestra el tipo de pregunta */}
             <span className="text-sm font-medium text-gray-500">
-              {question.type === 'text' && 'Texto'}
-              {question.type === 'number' && 'Número'}
-              {question.type === 'select' && 'Selección'}
-              {question.type === 'multiselect' && 'Selección Múltiple'}
-              {question.type === 'date' && 'Fecha'}
-              {question.type === 'boolean' && 'Sí/No'}
+              {QUESTION_TYPE_LABELS[question.type] ?? question.type}
             </span>
+            
+            {/* Código legible (el ID interno no se muestra) */}
+            {getQuestionCode(question) && (
+              <span className="ml-2 text-xs font-mono px-2 py-0.5 bg-gray-100 text-gray-600 rounded">
+                {getQuestionCode(question)}
+              </span>
+            )}
           </div>
         </div>
         
@@ -371,17 +609,17 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
                 onChange={(e) => handleTypeChange(e.target.value as QuestionType)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
               >
-                <option value="text">Texto</option>
-                <option value="number">Número</option>
-                <option value="select">Selección</option>
-                <option value="multiselect">Selección Múltiple</option>
-                <option value="date">Fecha</option>
-                <option value="boolean">Sí/No</option>
+                {/* Las secciones se agregan aparte, no son un tipo de pregunta */}
+                {Object.entries(QUESTION_TYPE_LABELS)
+                  .filter(([type]) => type !== 'section')
+                  .map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
               </select>
             </div>
             
-            {/* Checkbox para pregunta obligatoria */}
-            <div className="flex items-center">
+            {/* Checkbox para pregunta obligatoria (los campos calculados no se responden) */}
+            <div className={`flex items-center ${question.type === 'calculated' ? 'invisible' : ''}`}>
               <input
                 type="checkbox"
                 id={`required-${question.id}`}
@@ -393,10 +631,196 @@ const QuestionEditor: React.FC<QuestionEditorProps> = ({
                 Obligatorio
               </label>
             </div>
+            
+            {/* Código para mostrar en reportes y Power BI */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Código
+              </label>
+              <input
+                type="text"
+                value={question.code ?? getQuestionCode(question)}
+                onChange={(e) => onUpdate({...question, code: e.target.value})}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md font-mono focus:outline-none focus:ring-2 focus:ring-green-500"
+                placeholder="Se asigna al guardar"
+              />
+            </div>
+          </div>
+          
+          {/* Escala de valoración */}
+          {question.type === 'rating' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Escala
+                </label>
+                <select
+                  value={getRatingMax(question)}
+                  onChange={(e) => onUpdate({...question, rating: { ...question.rating, max: Number(e.target.value) }})}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {[3, 4, 5, 6, 7, 10].map(max => (
+                    <option key={max} value={max}>1 – {max}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Texto del valor 1
+                </label>
+                <input
+                  type="text"
+                  value={question.rating?.minLabel ?? ''}
+                  onChange={(e) => onUpdate({...question, rating: { max: getRatingMax(question), ...question.rating, minLabel: e.target.value }})}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  placeholder="Muy en desacuerdo"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Texto del valor {getRatingMax(question)}
+                </label>
+                <input
+                  type="text"
+                  value={question.rating?.maxLabel ?? ''}
+                  onChange={(e) => onUpdate({...question, rating: { max: getRatingMax(question), ...question.rating, maxLabel: e.target.value }})}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  placeholder="Muy de acuerdo"
+                />
+              </div>
+            </div>
+          )}
+          
+          {/* Restricciones de los archivos adjuntos */}
+          {question.type === 'file' && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tipos admitidos <span className="font-normal text-gray-500">(ninguno marcado = cualquiera)</span>
+                </label>
+                <div className="flex flex-wrap gap-4">
+                  {FILE_TYPE_PRESETS.map(preset => {
+                    const config = getFileConfig(question);
+                    const checked = config.accept.includes(preset.value);
+                    return (
+                      <label key={preset.value} className="inline-flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          onChange={() => onUpdate({
+                            ...question,
+                            file: {
+                              ...config,
+                              accept: checked
+                                ? config.accept.filter(type => type !== preset.value)
+                                : [...config.accept, preset.value]
+                            }
+                          })}
+                          className="mr-2 h-4 w-4 text-green-600 focus:ring-green-500 rounded"
+                        />
+                        {preset.label}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tamaño máximo por archivo (MB)
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_UPLOAD_MB}
+                    value={getFileConfig(question).maxSizeMb}
+                    onChange={(e) => onUpdate({
+                      ...question,
+                      file: {
+                        ...getFileConfig(question),
+                        maxSizeMb: Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_UPLOAD_MB)
+                      }
+                    })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Número máximo de archivos
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={getFileConfig(question).maxFiles}
+                    onChange={(e) => onUpdate({
+                      ...question,
+                      file: { ...getFileConfig(question), maxFiles: Math.max(Number(e.target.value) || 1, 1) }
+                    })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          
+          {/* Fórmula del campo calculado */}
+          {question.type === 'calculated' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Fórmula
+              </label>
+              <FormulaEditor
+                question={question}
+                allQuestions={allQuestions}
+                errors={formulaErrors[question.id] ?? []}
+                onChange={(calculation) => onUpdate({...question, calculation})}
+              />
+            </div>
+          )}
+          
+          {/* Puntos y respuestas correctas (evaluaciones) */}
+          {SCORABLE_TYPES.includes(question.type) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Evaluación
+              </label>
+              <ScoringEditor
+                question={question}
+                onChange={(scoring) => onUpdate({...question, scoring})}
+              />
+            </div>
+          )}
+          
+          {/* Reglas de validación (según el tipo de pregunta) */}
+          {supportsValidationRules(question.type) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Validación
+              </label>
+              <ValidationRulesEditor
+                question={question}
+                onChange={(validation) => onUpdate({...question, validation})}
+              />
+            </div>
+          )}
+          
+          {/* Lógica condicional: mostrar/ocultar según preguntas anteriores */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Lógica condicional
+            </label>
+            <VisibilityRuleEditor
+              rule={question.visibility}
+              candidates={getReferenceableQuestions(allQuestions, question.id)}
+              allQuestions={allQuestions}
+              errors={ruleErrors[question.id] ?? []}
+              onChange={(visibility) => onUpdate({...question, visibility})}
+            />
           </div>
           
           {/* Renderizado de opciones (si el tipo de pregunta lo requiere) */}
           {renderOptions()}
+          {renderMatrix()}
         </div>
       )}
     </div>
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Question, QuestionScoring } from '../../types';
+import { getMaxPoints, getScoringKeys } from '../../utils/scoring';
+
+interface ScoringEditorProps {
+  question: Question; // Pregunta de selección o Sí/No
+  onChange: (scoring: QuestionScoring | undefined) => void; // Callback con la puntuación modificada
+}
+
+/**
+ * Componente ScoringEditor - Puntos y respuestas correctas de una pregunta de evaluación
+ */
+const ScoringEditor: React.FC<ScoringEditorProps> = ({ question, onChange }) => {
+  const scoring = question.scoring;
+  const keys = getScoringKeys(question);
+
+  // Sin puntuación solo se muestra el interruptor para activarla
+  if (!scoring) {
+    return (
+      <label className="inline-flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={false}
+          onChange={() => onChange({ points: {}, correct: [] })}
+          className="mr-2 h-4 w-4 text-green-600 focus:ring-green-500 rounded"
+        />
+        Puntuar esta pregunta
+      </label>
+    );
+  }
+
+  /**
+   * Marca o desmarca una opción como correcta.
+   * Al marcarla sin puntos se le asigna 1 punto.
+   */
+  const handleToggleCorrect = (key: string) => {
+    const isCorrect = scoring.correct.includes(key);
+    // En una selección única solo hay una respuesta correcta
+    const correct = isCorrect
+      ? scoring.correct.filter(k => k !== key)
+      : question.type === 'multiselect' ? [...scoring.correct, key] : [key];
+
+    const points = { ...scoring.points };
+    if (!isCorrect && !points[key]) points[key] = 1;
+
+    onChange({ points, correct });
+  };
+
+  const handlePointsChange = (key: string, text: string) => {
+    const points = { ...scoring.points };
+    if (text === '' || Number.isNaN(Number(text))) {
+      delete points[key];
+    } else {
+      points[key] = Number(text);
+    }
+    onChange({ ...scoring, points });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="inline-flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked
+          onChange={() => onChange(undefined)}
+          className="mr-2 h-4 w-4 text-green-600 focus:ring-green-500 rounded"
+        />
+        Puntuar esta pregunta
+      </label>
+
+      {keys.length === 0 ? (
+        <p className="text-sm text-gray-500">Agrega opciones para asignarles puntos</p>
+      ) : (
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="pr-4 font-medium">Opción</th>
+              <th className="pr-4 font-medium">Correcta</th>
+              <th className="font-medium">Puntos</th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map(({ key, text }) => (
+              <tr key={key}>
+                <td className="pr-4 py-1 text-gray-700">{text || <span className="text-gray-400">Sin texto</span>}</td>
+                <td className="pr-4 py-1">
+                  <input
+                    type="checkbox"
+                    checked={scoring.correct.includes(key)}
+                    onChange={() => handleToggleCorrect(key)}
+                    className="h-4 w-4 text-green-600 focus:ring-green-500 rounded"
+                  />
+                </td>
+                <td className="py-1">
+                  <input
+                    type="number"
+                    step="any"
+                    value={scoring.points[key] ?? ''}
+                    onChange={(e) => handlePointsChange(key, e.target.value)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-green-500"
+                    placeholder="0"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Puntuación máxima: {getMaxPoints(question)}.
+        {question.type === 'multiselect'
+          ? ' Se suman los puntos de las opciones marcadas (los negativos restan).'
+          : ' Se obtienen los puntos de la opción elegida.'}
+      </p>
+    </div>
+  );
+};
+
+export default ScoringEditor;
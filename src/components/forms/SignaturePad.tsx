@@ -0,0 +1,119 @@
+import React, { useEffect, useRef } from 'react';
+import { Eraser } from 'lucide-react'; // Íconos
+import { isSignatureImage } from '../../utils/signature';
+
+interface SignaturePadProps {
+  value: string | null | undefined; // Firma actual (PNG en base64)
+  onChange: (value: string | null) => void; // Callback con la firma nueva o `null` al borrarla
+  hasError?: boolean; // Resalta el borde si la pregunta tiene un error de validación
+}
+
+// Resolución interna del lienzo (se escala al ancho disponible)
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 200;
+
+/**
+ * Componente SignaturePad - Lienzo para firmar con el ratón, el dedo o un lápiz.
+ * La firma se guarda como imagen PNG al terminar cada trazo.
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ value, onChange, hasError = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  // Última imagen emitida, para no redibujar el lienzo con su propio resultado
+  const emittedRef = useRef<string | null>(null);
+
+  // Dibuja la firma recibida (p. ej. al editar una respuesta o retomar un borrador)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || value === emittedRef.current) return;
+
+    context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    if (isSignatureImage(value)) {
+      const image = new Image();
+      image.onload = () => context.drawImage(image, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      image.src = value;
+    }
+  }, [value]);
+
+  /**
+   * Posición del puntero en coordenadas del lienzo
+   */
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+
+    const { x, y } = getPoint(event);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+
+    const context = event.currentTarget.getContext('2d');
+    const { x, y } = getPoint(event);
+    context?.lineTo(x, y);
+    context?.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current || !canvasRef.current) return;
+
+    drawingRef.current = false;
+    const image = canvasRef.current.toDataURL('image/png');
+    emittedRef.current = image;
+    onChange(image);
+  };
+
+  const handleClear = () => {
+    canvasRef.current?.getContext('2d')?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    emittedRef.current = null;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`w-full max-w-xl bg-white border-2 border-dashed rounded-md cursor-crosshair touch-none ${
+          hasError ? 'border-red-500' : 'border-gray-300'
+        }`}
+        style={{ aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}` }}
+      />
+      <div className="flex items-center justify-between max-w-xl">
+        <p className="text-xs text-gray-500">Firme dentro del recuadro</p>
+        <button
+          type="button"
+          onClick={handleClear}
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-800"
+        >
+          <Eraser size={14} className="mr-1" /> Borrar firma
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Question, QuestionValidation } from '../../types';
+import { compilePattern } from '../../utils/questionValidation';
+
+interface ValidationRulesEditorProps {
+  question: Question; // Pregunta cuyas reglas se editan
+  onChange: (validation: QuestionValidation | undefined) => void; // Callback con las reglas modificadas
+}
+
+// Campo numérico o de fecha de una regla
+interface RuleField {
+  key: keyof QuestionValidation;
+  label: string;
+  type: 'number' | 'date' | 'text';
+}
+
+// Reglas disponibles por tipo de pregunta
+const FIELDS_BY_TYPE: Partial<Record<Question['type'], RuleField[]>> = {
+  number: [
+    { key: 'min', label: 'Valor mínimo', type: 'number' },
+    { key: 'max', label: 'Valor máximo', type: 'number' }
+  ],
+  text: [
+    { key: 'minLength', label: 'Longitud mínima', type: 'number' },
+    { key: 'maxLength', label: 'Longitud máxima', type: 'number' },
+    { key: 'pattern', label: 'Expresión regular', type: 'text' }
+  ],
+  textarea: [
+    { key: 'minLength', label: 'Longitud mínima', type: 'number' },
+    { key: 'maxLength', label: 'Longitud máxima', type: 'number' },
+    { key: 'pattern', label: 'Expresión regular', type: 'text' }
+  ],
+  date: [
+    { key: 'minDate', label: 'Fecha mínima', type: 'date' },
+    { key: 'maxDate', label: 'Fecha máxima', type: 'date' }
+  ],
+  multiselect: [
+    { key: 'minSelections', label: 'Mínimo de opciones', type: 'number' },
+    { key: 'maxSelections', label: 'Máximo de opciones', type: 'number' }
+  ]
+};
+
+/**
+ * Indica si un tipo de pregunta admite reglas de validación configurables
+ */
+export const supportsValidationRules = (type: Question['type']) => Boolean(FIELDS_BY_TYPE[type]);
+
+/**
+ * Componente ValidationRulesEditor - Reglas de validación de una pregunta según su tipo
+ * (rangos, longitudes, patrón y mensaje de error personalizado)
+ */
+const ValidationRulesEditor: React.FC<ValidationRulesEditorProps> = ({ question, onChange }) => {
+  const fields = FIELDS_BY_TYPE[question.type];
+  if (!fields) return null;
+
+  const validation = question.validation ?? {};
+
+  /**
+   * Actualiza una regla; las vacías se eliminan y sin reglas se quita la validación
+   */
+  const updateRule = (key: keyof QuestionValidation, rawValue: string, type: RuleField['type']) => {
+    const next: QuestionValidation = { ...validation };
+
+    if (rawValue === '') {
+      delete next[key];
+    } else {
+      (next as Record<string, unknown>)[key] = type === 'number' ? Number(rawValue) : rawValue;
+    }
+
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const min = fields[0] ? validation[fields[0].key] : undefined;
+  const max = fields[1] ? validation[fields[1].key] : undefined;
+  const invalidRange = min !== undefined && max !== undefined && min > max;
+  const invalidPattern = Boolean(validation.pattern) && !compilePattern(validation.pattern!);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {fields.map(field => (
+          <div key={field.key}>
+            <label className="block text-xs text-gray-500 mb-1">{field.label}</label>
+            <input
+              type={field.type}
+              min={field.type === 'number' && field.key !== 'min' && field.key !== 'max' ? 0 : undefined}
+              value={validation[field.key] === undefined ? '' : String(validation[field.key])}
+              onChange={(e) => updateRule(field.key, e.target.value, field.type)}
+              className={`w-full px-3 py-1 border rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-green-500 ${
+                field.key === 'pattern' ? 'font-mono' : ''
+              } ${(field.key === 'pattern' && invalidPattern) ? 'border-red-500' : 'border-gray-300'}`}
+              placeholder={field.key === 'pattern' ? '^[A-Z]{3}-\\d+$' : undefined}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Mensaje de error personalizado</label>
+        <input
+          type="text"
+          value={validation.message ?? ''}
+          onChange={(e) => updateRule('message', e.target.value, 'text')}
+          className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-green-500"
+          placeholder="Se usa el mensaje predeterminado si se deja vacío"
+        />
+      </div>
+
+      {invalidRange && <p className="text-sm text-red-600">El mínimo no puede ser mayor que el máximo</p>}
+      {invalidPattern && <p className="text-sm text-red-600">La expresión regular no es válida</p>}
+    </div>
+  );
+};
+
+export default ValidationRulesEditor;
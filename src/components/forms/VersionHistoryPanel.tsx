@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { History, RotateCcw, X } from 'lucide-react'; // Íconos
+import { useForm } from '../../contexts/FormContext'; // Versiones del formulario
+import { Form } from '../../types';
+import { formatDateDisplay } from '../../utils/dateUtils';
+import { diffForms } from '../../utils/formDiff';
+import FormVersionDiff from './FormVersionDiff';
+import ConfirmDialog from '../ui/ConfirmDialog';
+import Spinner from '../ui/Spinner'; // Componente de carga
+
+interface VersionHistoryPanelProps {
+  form: Form; // Formulario cuyas versiones se muestran
+  onClose: () => void; // Cierra el panel
+}
+
+/**
+ * Componente VersionHistoryPanel - Panel lateral con las versiones guardadas de un formulario
+ *
+ * Permite comparar dos versiones cualesquiera (A → B) y restaurar una versión anterior,
+ * lo que crea una versión nueva con su contenido.
+ */
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ form, onClose }) => {
+  // ======================
+  // HOOKS Y ESTADO
+  // ======================
+  const { t } = useTranslation();
+  const { formVersions, loadFormVersions, restoreFormVersion } = useForm();
+
+  const versions = formVersions[form.id] ?? [];
+  const [isLoading, setIsLoading] = useState(true);
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [versionToRestore, setVersionToRestore] = useState<number | null>(null);
+
+  // ======================
+  // EFECTOS SECUNDARIOS
+  // ======================
+
+  // Recarga las versiones cuando cambia la versión actual del formulario
+  useEffect(() => {
+    setIsLoading(true);
+    loadFormVersions(form.id)
+      .then(loaded => {
+        // Por defecto compara la versión anterior con la actual
+        setCompareVersion(loaded[0]?.version ?? null);
+        setBaseVersion(loaded[1]?.version ?? loaded[0]?.version ?? null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [form.id, form.version]);
+
+  const diff = useMemo(() => {
+    const base = versions.find(v => v.version === baseVersion);
+    const compare = versions.find(v => v.version === compareVersion);
+    return base && compare ? diffForms(base, compare) : null;
+  }, [versions, baseVersion, compareVersion]);
+
+  // ======================
+  // MANEJADORES DE EVENTOS
+  // ======================
+
+  const handleConfirmRestore = async () => {
+    if (versionToRestore === null) return;
+
+    const version = versionToRestore;
+    setVersionToRestore(null);
+    try {
+      await restoreFormVersion(form.id, version);
+    } catch {
+      // El contexto ya informa del error
+    }
+  };
+
+  // ======================
+  // RENDERIZADO
+  // ======================
+
+  const selectClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+      <div
+        className="bg-white w-full max-w-lg h-full shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Encabezado */}
+        <div className="p-4 border-b flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <History size={18} className="mr-2" /> {t('Historial de versiones')}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {form.name} · {t('Versión actual')}: v{form.version}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {isLoading && versions.length === 0 ? (
+          <div className="flex justify-center my-8">
+            <Spinner />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">{t('No hay versiones guardadas')}</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            {/* Lista de versiones */}
+            <ul className="divide-y border rounded-md">
+              {versions.map(version => (
+                <li key={version.version} className="px-3 py-2 flex justify-between items-center text-sm">
+                  <div>
+                    <span className="font-medium text-gray-800">v{version.version}</span>
+                    {version.version === form.version && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">
+                        {t('Actual')}
+                      </span>
+                    )}
+                    <div className="text-xs text-gray-500">
+                      {formatDateDisplay(version.createdAt)}
+                      {version.createdByUsername && ` · ${version.createdByUsername}`}
+                      {` · ${version.questions.length} ${t('preguntas')}`}
+                    </div>
+                  </div>
+                  {version.version !== form.version && (
+                    <button
+                      type="button"
+                      onClick={() => setVersionToRestore(version.version)}
+                      className="text-green-700 hover:text-green-900 flex items-center text-xs"
+                      title={t('Restaurar esta versión')}
+                    >
+                      <RotateCcw size={14} className="mr-1" /> {t('Restaurar')}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {/* Comparación */}
+            <div>
+              <h4 className="font-medium text-gray-800 mb-2">{t('Comparar versiones')}</h4>
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                <label className="text-xs text-gray-500">
+                  {t('Desde')}
+                  <select
+                    value={baseVersion ?? ''}
+                    onChange={(e) => setBaseVersion(Number(e.target.value))}
+                    className={selectClass}
+                  >
+                    {versions.map(version => (
+                      <option key={version.version} value={version.version}>v{version.version}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-500">
+                  {t('Hasta')}
+                  <select
+                    value={compareVersion ?? ''}
+                    onChange={(e) => setCompareVersion(Number(e.target.value))}
+                    className={selectClass}
+                  >
+                    {versions.map(version => (
+                      <option key={version.version} value={version.version}>v{version.version}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {diff && <FormVersionDiff diff={diff} />}
+            </div>
+          </div>
+        )}
+
+        <ConfirmDialog
+          isOpen={versionToRestore !== null}
+          title={t('Restaurar versión')}
+          message={t('Se creará una nueva versión con el contenido de la versión seleccionada. Los cambios sin guardar se perderán.')}
+          confirmLabel={t('Restaurar')}
+          cancelLabel={t('Cancelar')}
+          onConfirm={handleConfirmRestore}
+          onCancel={() => setVersionToRestore(null)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -0,0 +1,273 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react'; // Iconos
+import { Condition, ConditionGroup, ConditionOperator, Question, VisibilityRule } from '../../types';
+import { OPERATORS_BY_TYPE, UNARY_OPERATORS, isConditionGroup } from '../../utils/conditionalLogic';
+import { getQuestionCode } from '../../utils/questionCodes';
+
+// Textos de los operadores
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'es igual a',
+  not_equals: 'es distinto de',
+  contains: 'contiene',
+  not_contains: 'no contiene',
+  greater_than: 'es mayor que',
+  greater_or_equal: 'es mayor o igual que',
+  less_than: 'es menor que',
+  less_or_equal: 'es menor o igual que',
+  before: 'es anterior a',
+  after: 'es posterior a',
+  is_true: 'es Sí',
+  is_false: 'es No',
+  is_empty: 'está vacía',
+  is_not_empty: 'tiene respuesta'
+};
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-green-500';
+
+interface VisibilityRuleEditorProps {
+  rule?: VisibilityRule; // Regla actual (sin regla la pregunta siempre se muestra)
+  candidates: Question[]; // Preguntas anteriores que se pueden usar en las condiciones
+  allQuestions: Question[]; // Todas las preguntas (para mostrar referencias rotas)
+  errors: string[]; // Errores de validación de la regla
+  subject?: string; // Qué se muestra u oculta ("esta pregunta" por defecto; "esta página" en las secciones)
+  onChange: (rule: VisibilityRule | undefined) => void; // Callback con la regla modificada
+}
+
+/**
+ * Componente VisibilityRuleEditor - Editor visual de "mostrar esta pregunta cuando…"
+ *
+ * Las condiciones se combinan con Y / O y se pueden agrupar a cualquier profundidad.
+ * Solo se ofrecen preguntas anteriores para evitar referencias hacia adelante y ciclos.
+ */
+const VisibilityRuleEditor: React.FC<VisibilityRuleEditorProps> = ({
+  rule,
+  candidates,
+  allQuestions,
+  errors,
+  subject = 'esta pregunta',
+  onChange
+}) => {
+  /**
+   * Condición nueva sobre la pregunta anterior más cercana
+   */
+  const createCondition = (): Condition => {
+    const last = candidates[candidates.length - 1];
+    return {
+      questionId: last?.id ?? '',
+      operator: last ? OPERATORS_BY_TYPE[last.type][0] : 'is_not_empty'
+    };
+  };
+
+  const handleEnable = () => {
+    onChange({ action: 'show', when: { combinator: 'and', conditions: [createCondition()] } });
+  };
+
+  /**
+   * Renderiza el campo de valor según el tipo de la pregunta referenciada
+   */
+  const renderValueInput = (condition: Condition, referenced: Question | undefined, update: (c: Condition) => void) => {
+    if (!referenced || UNARY_OPERATORS.includes(condition.operator)) return null;
+
+    const isNumeric = ['number', 'rating', 'calculated'].includes(referenced.type);
+
+    if (referenced.type === 'select' || referenced.type === 'multiselect') {
+      return (
+        <select
+          value={String(condition.value ?? '')}
+          onChange={(e) => update({ ...condition, value: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">Seleccionar opción...</option>
+          {referenced.options?.map(option => (
+            <option key={option.id} value={option.id}>{option.text || option.id}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={isNumeric ? 'number' : referenced.type === 'date' ? 'date' : 'text'}
+        value={String(condition.value ?? '')}
+        onChange={(e) => update({
+          ...condition,
+          value: isNumeric && e.target.value !== '' ? Number(e.target.value) : e.target.value
+        })}
+        className={inputClass}
+      />
+    );
+  };
+
+  /**
+   * Renderiza una condición individual
+   */
+  const renderCondition = (condition: Condition, update: (c: Condition) => void, remove: () => void) => {
+    const referenced = allQuestions.find(q => q.id === condition.questionId);
+    const isCandidate = candidates.some(q => q.id === condition.questionId);
+
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={condition.questionId}
+          onChange={(e) => {
+            const question = candidates.find(q => q.id === e.target.value);
+            update({
+              questionId: e.target.value,
+              operator: question ? OPERATORS_BY_TYPE[question.type][0] : condition.operator
+            });
+          }}
+          className={`${inputClass} max-w-xs ${isCandidate ? '' : 'border-red-500'}`}
+        >
+          {!isCandidate && (
+            <option value={condition.questionId}>
+              {referenced ? `${referenced.text} (posterior)` : 'Pregunta eliminada'}
+            </option>
+          )}
+          {candidates.map(question => (
+            <option key={question.id} value={question.id}>
+              {getQuestionCode(question) ? `${getQuestionCode(question)} · ` : ''}{question.text || 'Sin texto'}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={condition.operator}
+          onChange={(e) => update({ ...condition, operator: e.target.value as ConditionOperator, value: undefined })}
+          className={inputClass}
+        >
+          {(referenced ? OPERATORS_BY_TYPE[referenced.type] : [condition.operator]).map(operator => (
+            <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+          ))}
+        </select>
+
+        {renderValueInput(condition, referenced, update)}
+
+        <button
+          type="button"
+          onClick={remove}
+          className="p-1 text-red-500 hover:text-red-700 focus:outline-none"
+          title="Eliminar condición"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+    );
+  };
+
+  /**
+   * Renderiza un grupo de condiciones (recursivo)
+   */
+  const renderGroup = (group: ConditionGroup, update: (g: ConditionGroup) => void, remove?: () => void) => {
+    const updateItem = (index: number, item: Condition | ConditionGroup) =>
+      update({ ...group, conditions: group.conditions.map((c, i) => (i === index ? item : c)) });
+    const removeItem = (index: number) =>
+      update({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+    return (
+      <div className={`space-y-2 ${remove ? 'pl-3 border-l-2 border-purple-200' : ''}`}>
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Se cumple</span>
+          <select
+            value={group.combinator}
+            onChange={(e) => update({ ...group, combinator: e.target.value as ConditionGroup['combinator'] })}
+            className={inputClass}
+          >
+            <option value="and">todas (Y)</option>
+            <option value="or">alguna (O)</option>
+          </select>
+          <span>de estas condiciones:</span>
+          {remove && (
+            <button
+              type="button"
+              onClick={remove}
+              className="p-1 text-red-500 hover:text-red-700 focus:outline-none"
+              title="Eliminar grupo"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+
+        {group.conditions.map((item, index) => (
+          <div key={index}>
+            {isConditionGroup(item)
+              ? renderGroup(item, g => updateItem(index, g), () => removeItem(index))
+              : renderCondition(item, c => updateItem(index, c), () => removeItem(index))}
+          </div>
+        ))}
+
+        <div className="flex space-x-4">
+          <button
+            type="button"
+            onClick={() => update({ ...group, conditions: [...group.conditions, createCondition()] })}
+            className="text-sm flex items-center text-purple-600 hover:text-purple-800"
+          >
+            <Plus size={14} className="mr-1" /> Condición
+          </button>
+          <button
+            type="button"
+            onClick={() => update({
+              ...group,
+              conditions: [...group.conditions, { combinator: group.combinator === 'and' ? 'or' : 'and', conditions: [createCondition()] }]
+            })}
+            className="text-sm flex items-center text-purple-600 hover:text-purple-800"
+          >
+            <Plus size={14} className="mr-1" /> Grupo
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Sin regla: solo se ofrece crearla
+  if (!rule) {
+    return (
+      <button
+        type="button"
+        onClick={handleEnable}
+        disabled={candidates.length === 0}
+        className={`text-sm flex items-center ${candidates.length === 0 ? 'text-gray-400 cursor-not-allowed' : 'text-purple-600 hover:text-purple-800'}`}
+        title={candidates.length === 0 ? 'No hay preguntas anteriores para usar en condiciones' : undefined}
+      >
+        <Plus size={14} className="mr-1" /> Agregar lógica condicional
+      </button>
+    );
+  }
+
+  return (
+    <div className="p-3 border border-purple-200 bg-purple-50 rounded-md space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <select
+            value={rule.action}
+            onChange={(e) => onChange({ ...rule, action: e.target.value as VisibilityRule['action'] })}
+            className={inputClass}
+          >
+            <option value="show">Mostrar</option>
+            <option value="hide">Ocultar</option>
+          </select>
+          <span>{subject} cuando…</span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="text-sm text-red-500 hover:text-red-700"
+        >
+          Quitar lógica
+        </button>
+      </div>
+
+      {renderGroup(rule.when, when => onChange({ ...rule, when }))}
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VisibilityRuleEditor;
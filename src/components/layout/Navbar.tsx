@@ -1,14 +1,19 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
-import { FileText, Plus, Upload, Database, LogOut } from 'lucide-react';
+import { FileText, FileClock, Plus, Upload, Database, LogOut, CloudOff, RefreshCw, Users, History, AlertTriangle } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../contexts/AuthContext';
+import { useForm } from '../../contexts/FormContext';
+import { canCreateForms } from '../../utils/permissions';
+import FailedResponsesDialog from '../responses/FailedResponsesDialog';
 
 const Navbar: React.FC = () => {
   const { t } = useTranslation();
   const location = useLocation();
   const navigate = useNavigate();
   const { user, logout } = useAuth();
+  const { pendingResponses, failedResponses, isSyncing, syncOutbox } = useForm();
+  const [showFailedResponses, setShowFailedResponses] = useState(false);
   
   const isActive = (path: string) => {
     return location.pathname === path ? 'bg-green-700 text-white' : 'text-white hover:bg-green-700';
@@ -20,7 +25,7 @@ const Navbar: React.FC = () => {
   };
 
   return (
-    <nav className="bg-green-800 text-white shadow-md">
+    <nav className="bg-green-800 text-white shadow-md print:hidden">
       <div className="container mx-auto px-4">
         <div className="flex flex-col md:flex-row items-center justify-between">
           <div className="py-3 flex items-center">
@@ -37,7 +42,15 @@ const Navbar: React.FC = () => {
               {t('forms')}
             </Link>
             
-            {user?.role === 'admin' && (
+            <Link 
+              to="/borradores" 
+              className={`${isActive('/borradores')} px-3 py-2 rounded-md text-sm font-medium flex items-center mx-1 my-1 md:my-0`}
+            >
+              <FileClock className="mr-1" size={16} />
+              {t('Mis borradores')}
+            </Link>
+            
+            {canCreateForms(user) && (
               <Link 
                 to="/crear" 
                 className={`${isActive('/crear')} px-3 py-2 rounded-md text-sm font-medium flex items-center mx-1 my-1 md:my-0`}
@@ -57,7 +70,54 @@ const Navbar: React.FC = () => {
               </Link>
             )}
 
+            {user?.role === 'admin' && (
+              <Link 
+                to="/usuarios" 
+                className={`${isActive('/usuarios')} px-3 py-2 rounded-md text-sm font-medium flex items-center mx-1 my-1 md:my-0`}
+              >
+                <Users className="mr-1" size={16} />
+                {t('Usuarios')}
+              </Link>
+            )}
+
+            {user?.role === 'admin' && (
+              <Link 
+                to="/auditoria" 
+                className={`${isActive('/auditoria')} px-3 py-2 rounded-md text-sm font-medium flex items-center mx-1 my-1 md:my-0`}
+              >
+                <History className="mr-1" size={16} />
+                {t('Auditoría')}
+              </Link>
+            )}
+
             <div className="flex items-center ml-4 space-x-4">
+              {/* Respuestas guardadas sin conexión pendientes de enviar */}
+              {pendingResponses > 0 && (
+                <button
+                  onClick={() => syncOutbox(true)}
+                  disabled={isSyncing}
+                  className="flex items-center px-2 py-1 rounded-md text-sm font-medium bg-yellow-500 text-white hover:bg-yellow-600"
+                  title={t('Sincronizar respuestas pendientes')}
+                >
+                  {isSyncing ? (
+                    <RefreshCw size={16} className="mr-1 animate-spin" />
+                  ) : (
+                    <CloudOff size={16} className="mr-1" />
+                  )}
+                  {pendingResponses} {t('pendientes')}
+                </button>
+              )}
+              {/* Respuestas que la API rechazó: no se reintentan solas */}
+              {failedResponses.length > 0 && (
+                <button
+                  onClick={() => setShowFailedResponses(true)}
+                  className="flex items-center px-2 py-1 rounded-md text-sm font-medium bg-red-600 text-white hover:bg-red-700"
+                  title={t('Ver respuestas rechazadas')}
+                >
+                  <AlertTriangle size={16} className="mr-1" />
+                  {failedResponses.length} {t('rechazadas')}
+                </button>
+              )}
               <span className="text-sm font-medium">
                 {user?.username}
               </span>
@@ -72,6 +132,11 @@ const Navbar: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <FailedResponsesDialog
+        isOpen={showFailedResponses}
+        onClose={() => setShowFailedResponses(false)}
+      />
     </nav>
   );
 };
@@ -0,0 +1,52 @@
+import React from 'react';
+import { CloudOff, FileText } from 'lucide-react'; // Íconos
+import { FileAttachment } from '../../types';
+import { formatFileSize, getFileUrl, isImageAttachment } from '../../utils/fileUploads';
+
+interface AttachmentListProps {
+  attachments: FileAttachment[]; // Archivos adjuntos de una respuesta
+  previews?: Record<string, string>; // URLs locales de los archivos aún no subidos
+}
+
+/**
+ * Componente AttachmentList - Miniaturas de las imágenes y enlaces a los demás archivos de una respuesta
+ */
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, previews = {} }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map(attachment => {
+        const url = getFileUrl(attachment) ?? previews[attachment.id];
+        const title = `${attachment.name} (${formatFileSize(attachment.size)})`;
+
+        const content = isImageAttachment(attachment) && url ? (
+          <img src={url} alt={attachment.name} className="w-12 h-12 object-cover rounded border border-gray-200" />
+        ) : (
+          <span className="inline-flex items-center max-w-[10rem] px-2 py-1 text-xs bg-gray-100 rounded border border-gray-200">
+            <FileText size={14} className="mr-1 flex-shrink-0" />
+            <span className="truncate">{attachment.name}</span>
+          </span>
+        );
+
+        return (
+          <span key={attachment.id} className="relative inline-block" title={title}>
+            {url ? (
+              <a href={url} target="_blank" rel="noopener noreferrer">{content}</a>
+            ) : content}
+            {attachment.pending && (
+              <span
+                className="absolute -top-1 -right-1 bg-yellow-100 text-yellow-800 rounded-full p-0.5"
+                title="Pendiente de subir"
+              >
+                <CloudOff size={10} />
+              </span>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { Cloud, Play, Smartphone, Trash2 } from 'lucide-react'; // Íconos
+import toast from 'react-hot-toast'; // Notificaciones
+import { useAuth } from '../../contexts/AuthContext'; // Usuario de la sesión
+import { ResponseDraft } from '../../types';
+import { formatDateDisplay } from '../../utils/dateUtils';
+import { isEmptyAnswer } from '../../utils/conditionalLogic';
+import { discardDraft, listDrafts } from '../../utils/responseDrafts';
+import ConfirmDialog from '../ui/ConfirmDialog'; // Diálogo de confirmación
+import Spinner from '../ui/Spinner'; // Componente de carga
+
+/**
+ * Componente DraftsList - Respuestas a medio completar del usuario ("Mis borradores")
+ *
+ * Reúne los borradores autoguardados en este dispositivo y los guardados en el servidor
+ * (desde cualquier dispositivo) para continuarlos o descartarlos.
+ */
+const DraftsList: React.FC = () => {
+  // ======================
+  // HOOKS Y ESTADO
+  // ======================
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [drafts, setDrafts] = useState<ResponseDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draftToDiscard, setDraftToDiscard] = useState<ResponseDraft | null>(null);
+
+  // ======================
+  // EFECTOS SECUNDARIOS
+  // ======================
+
+  // Carga los borradores del usuario
+  useEffect(() => {
+    if (!user) return;
+
+    setIsLoading(true);
+    listDrafts(user.id)
+      .then(setDrafts)
+      .catch(error => {
+        console.error('Error loading drafts:', error);
+        toast.error(t('Error al cargar los borradores'));
+      })
+      .finally(() => setIsLoading(false));
+  }, [user?.id]);
+
+  // ======================
+  // ACCIONES
+  // ======================
+
+  /**
+   * Abre el formulario con el borrador (sin preguntar si se quiere continuar)
+   */
+  const handleResume = (draft: ResponseDraft) => {
+    navigate(`/vista-previa/${draft.formId}`, { state: { draftId: draft.id } });
+  };
+
+  const handleConfirmDiscard = async () => {
+    if (!draftToDiscard) return;
+
+    const draft = draftToDiscard;
+    setDraftToDiscard(null);
+    try {
+      await discardDraft(draft);
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+      toast.success(t('Borrador descartado'));
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+      toast.error(t('No se pudo descartar el borrador guardado en el servidor'));
+    }
+  };
+
+  const countAnswers = (draft: ResponseDraft) =>
+    Object.values(draft.answers).filter(value => !isEmptyAnswer(value)).length;
+
+  // ======================
+  // RENDERIZADO
+  // ======================
+
+  return (
+    <div className="container mx-auto">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">{t('Mis borradores')}</h1>
+        <p className="text-sm text-gray-500 mb-6">
+          {t('Las respuestas que empiezas se guardan en este dispositivo mientras las completas. Usa "Guardar borrador" para continuarlas en otro dispositivo.')}
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center my-12">
+            <Spinner />
+          </div>
+        ) : drafts.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">{t('No tienes respuestas a medio completar')}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr className="bg-gray-100 text-gray-600 uppercase text-sm leading-normal">
+                  <th className="py-3 px-6 text-left">{t('Formulario')}</th>
+                  <th className="py-3 px-6 text-left hidden md:table-cell">{t('Última modificación')}</th>
+                  <th className="py-3 px-6 text-center hidden md:table-cell">{t('Preguntas respondidas')}</th>
+                  <th className="py-3 px-6 text-left hidden md:table-cell">{t('Guardado en')}</th>
+                  <th className="py-3 px-6 text-center">{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-600 text-sm">
+                {drafts.map(draft => (
+                  <tr key={draft.id} className="border-b border-gray-200 hover:bg-gray-50">
+                    <td className="py-3 px-6 text-left">
+                      <div className="font-medium">{draft.formName || t('Formulario sin nombre')}</div>
+                      <div className="text-xs text-gray-500 md:hidden">{formatDateDisplay(draft.updatedAt)}</div>
+                    </td>
+                    <td className="py-3 px-6 text-left hidden md:table-cell">
+                      {formatDateDisplay(draft.updatedAt)}
+                    </td>
+                    <td className="py-3 px-6 text-center hidden md:table-cell">
+                      {countAnswers(draft)}
+                    </td>
+                    <td className="py-3 px-6 text-left hidden md:table-cell">
+                      {draft.serverSavedAt ? (
+                        <span
+                          className="inline-flex items-center text-xs text-blue-700"
+                          title={`${t('Última copia en el servidor')}: ${formatDateDisplay(draft.serverSavedAt)}`}
+                        >
+                          <Cloud size={12} className="mr-1" /> {t('Servidor')}
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center text-xs text-gray-500">
+                          <Smartphone size={12} className="mr-1" /> {t('Solo este dispositivo')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-6 text-center">
+                      <div className="flex justify-center space-x-2">
+                        <button
+                          onClick={() => handleResume(draft)}
+                          className="text-green-600 hover:text-green-900"
+                          title={t('Continuar')}
+                        >
+                          <Play size={18} />
+                        </button>
+                        <button
+                          onClick={() => setDraftToDiscard(draft)}
+                          className="text-red-600 hover:text-red-900"
+                          title={t('Descartar')}
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={draftToDiscard !== null}
+        title={t('Descartar borrador')}
+        message={t('Se perderán las respuestas de este borrador. Esta acción no se puede deshacer.')}
+        confirmLabel={t('Descartar')}
+        cancelLabel={t('Cancelar')}
+        onConfirm={handleConfirmDiscard}
+        onCancel={() => setDraftToDiscard(null)}
+        danger
+      />
+    </div>
+  );
+};
+
+export default DraftsList;
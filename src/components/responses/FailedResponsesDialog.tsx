@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { RefreshCw, Trash2, X } from 'lucide-react'; // Íconos
+import { useForm } from '../../contexts/FormContext';
+import { FailedResponse } from '../../types';
+import { formatDateDisplay } from '../../utils/dateUtils';
+import ConfirmDialog from '../ui/ConfirmDialog'; // Diálogo de confirmación
+
+interface FailedResponsesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Componente FailedResponsesDialog - Respuestas capturadas sin conexión que la API rechazó
+ *
+ * No se reintentan solas (la API daría el mismo error): se muestran con el motivo para
+ * volver a enviarlas (p. ej. tras corregir el formulario) o descartarlas.
+ */
+const FailedResponsesDialog: React.FC<FailedResponsesDialogProps> = ({ isOpen, onClose }) => {
+  // ======================
+  // HOOKS Y ESTADO
+  // ======================
+  const { t } = useTranslation();
+  const { forms, failedResponses, isSyncing, retryFailedResponse, discardFailedResponse } = useForm();
+
+  const [responseToDiscard, setResponseToDiscard] = useState<FailedResponse | null>(null);
+
+  // ======================
+  // ACCIONES
+  // ======================
+
+  const handleConfirmDiscard = async () => {
+    if (!responseToDiscard) return;
+
+    const { response } = responseToDiscard;
+    setResponseToDiscard(null);
+    await discardFailedResponse(response.id);
+  };
+
+  const getFormName = (formId: string) =>
+    forms.find(form => form.id === formId)?.name || t('Formulario sin nombre');
+
+  // ======================
+  // RENDERIZADO
+  // ======================
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full text-gray-800">
+        <div className="p-6 flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">{t('Respuestas rechazadas')}</h3>
+            <p className="text-sm text-gray-500">
+              {t('La API rechazó estas respuestas guardadas sin conexión. Vuelve a enviarlas o descártalas.')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title={t('Cerrar')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 max-h-96 overflow-y-auto">
+          {failedResponses.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">{t('No hay respuestas rechazadas')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {failedResponses.map(failed => (
+                <li key={failed.response.id} className="py-3 flex justify-between items-start">
+                  <div className="mr-4">
+                    <div className="font-medium text-sm">{getFormName(failed.response.formId)}</div>
+                    <div className="text-xs text-gray-500">{formatDateDisplay(failed.response.createdAt)}</div>
+                    <div className="text-xs text-red-600 mt-1">{failed.error || t('Error desconocido')}</div>
+                  </div>
+                  <div className="flex space-x-2 shrink-0">
+                    <button
+                      onClick={() => retryFailedResponse(failed.response.id)}
+                      disabled={isSyncing}
+                      className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                      title={t('Reintentar')}
+                    >
+                      <RefreshCw size={18} />
+                    </button>
+                    <button
+                      onClick={() => setResponseToDiscard(failed)}
+                      className="text-red-600 hover:text-red-900"
+                      title={t('Descartar')}
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={responseToDiscard !== null}
+        title={t('Descartar respuesta')}
+        message={t('La respuesta y sus archivos adjuntos se eliminarán de este dispositivo. Esta acción no se puede deshacer.')}
+        confirmLabel={t('Descartar')}
+        cancelLabel={t('Cancelar')}
+        onConfirm={handleConfirmDiscard}
+        onCancel={() => setResponseToDiscard(null)}
+        danger
+      />
+    </div>
+  );
+};
+
+export default FailedResponsesDialog;
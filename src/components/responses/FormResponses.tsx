@@ -1,23 +1,64 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import toast from 'react-hot-toast';
 import { useForm } from '../../contexts/FormContext';
-import { Download, ArrowLeft, BarChart, Eye, Edit2, Trash2, Save, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { Download, ArrowLeft, BarChart, Eye, Edit2, Trash2, Save, X, History, MapPin, Printer } from 'lucide-react';
 import Spinner from '../ui/Spinner';
 import { exportToExcel } from '../../utils/excelUtils';
 import { formatDateDisplay } from '../../utils/dateUtils';
 import ConfirmDialog from '../ui/ConfirmDialog';
-import { FormResponse, QuestionResponse } from '../../types';
+import ResponseHistoryDrawer from '../audit/ResponseHistoryDrawer';
+import VersionMappingDialog from './VersionMappingDialog';
+import MatrixInput from '../forms/MatrixInput';
+import AttachmentList from './AttachmentList';
+import LocationInput from '../forms/LocationInput';
+import { FormResponse, Question, QuestionResponse, QuestionType } from '../../types';
+import { hasFormPermission } from '../../utils/permissions';
+import { getQuestionCode } from '../../utils/questionCodes';
+import {
+  getFormDefinitionForVersion,
+  getResponseColumns,
+  getVersionedResponseText,
+  isOutdatedResponse
+} from '../../utils/formVersions';
+import { getCompletionPercentage, getVisibleQuestionIds, toAnswerMap } from '../../utils/conditionalLogic';
+import { validateAnswers } from '../../utils/questionValidation';
+import { getRatingMax } from '../../utils/questionTypes';
+import { getAttachments } from '../../utils/fileUploads';
+import { formatCoordinates, getMapLink, isValidLocation } from '../../utils/location';
+import { isSignatureImage } from '../../utils/signature';
+import { computeCalculatedValues } from '../../utils/formula';
+import { computeScore, formatScore, getResponseScore, hasScoring } from '../../utils/scoring';
+
+// Tipos que no se editan en la tabla: los archivos y la firma solo se cambian en el formulario
+// y los campos calculados se recalculan al guardar
+const READ_ONLY_TYPES: QuestionType[] = ['file', 'signature', 'calculated'];
 
 const FormResponses: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { t } = useTranslation();
-  const { loadForm, loadResponses, currentForm, responses, isLoading, deleteResponse, saveResponse } = useForm();
+  const {
+    loadForm,
+    loadResponses,
+    loadFormVersions,
+    currentForm,
+    responses,
+    formVersions,
+    isLoading,
+    deleteResponse,
+    updateResponse
+  } = useForm();
+  const { user } = useAuth();
   const [isExporting, setIsExporting] = useState(false);
   const [responseToDelete, setResponseToDelete] = useState<string | null>(null);
   const [editingResponse, setEditingResponse] = useState<string | null>(null);
   const [editedValues, setEditedValues] = useState<Record<string, any>>({});
+  const [editErrors, setEditErrors] = useState<Record<string, string>>({});
+  const [historyResponseId, setHistoryResponseId] = useState<string | null>(null);
+  const [mappingVersion, setMappingVersion] = useState<number | null>(null);
   
   useEffect(() => {
     if (id) {
@@ -26,21 +67,21 @@ const FormResponses: React.FC = () => {
     }
   }, [id]);
 
+  // Las instantáneas de versiones permiten mostrar cada respuesta con su definición original
+  useEffect(() => {
+    if (id && currentForm?.id === id) {
+      loadFormVersions(id);
+    }
+  }, [id, currentForm?.version]);
+
+  const versions = formVersions[id || ''] || [];
+
   const calculateCompletionPercentage = (response: FormResponse) => {
     if (!currentForm) return 0;
     
-    const mainQuestions = currentForm.questions.filter(q => !q.parentId);
-    const totalQuestions = mainQuestions.length;
-    
-    if (totalQuestions === 0) return 100;
-    
-    const answeredQuestions = mainQuestions.filter(question => {
-      const answer = response.responses.find(r => r.questionId === question.id);
-      return answer && answer.value !== null && answer.value !== '' && 
-        (!Array.isArray(answer.value) || answer.value.length > 0);
-    }).length;
-    
-    return Math.round((answeredQuestions / totalQuestions) * 100);
+    // Solo cuentan las preguntas que las condiciones muestran para esta respuesta
+    const definition = getFormDefinitionForVersion(currentForm, versions, response.formVersion);
+    return getCompletionPercentage(definition.questions, response.responses);
   };
 
   const getCompletionColor = (percentage: number) => {
@@ -58,7 +99,8 @@ const FormResponses: React.FC = () => {
       await exportToExcel(
         formResponses, 
         `respuestas_${currentForm.name.replace(/\s+/g, '_').toLowerCase()}.xlsx`,
-        currentForm
+        currentForm,
+        versions
       );
     } catch (error) {
       console.error('Error exporting responses:', error);
@@ -87,6 +129,7 @@ const FormResponses: React.FC = () => {
         initialValues[r.questionId] = r.value;
       });
       setEditedValues(initialValues);
+      setEditErrors({});
       setEditingResponse(responseId);
     }
   };
@@ -94,6 +137,7 @@ const FormResponses: React.FC = () => {
   const cancelEditing = () => {
     setEditingResponse(null);
     setEditedValues({});
+    setEditErrors({});
   };
 
   const handleSaveEdit = async () => {
@@ -102,25 +146,50 @@ const FormResponses: React.FC = () => {
     const originalResponse = responses[id].find(r => r.id === editingResponse);
     if (!originalResponse) return;
 
-    const updatedResponses: QuestionResponse[] = currentForm.questions
-      .filter(q => !q.parentId)
-      .map(question => ({
-        questionId: question.id,
-        value: editedValues[question.id] ?? null
-      }));
-
-    const updatedResponse: Omit<FormResponse, 'id' | 'createdAt'> = {
-      formId: id,
-      formVersion: currentForm.version,
-      responses: updatedResponses,
-      updatedOffline: false,
-      userId: originalResponse.userId,
-      username: originalResponse.username
-    };
+    // La respuesta se edita con la versión del formulario con la que se recogió
+    const definition = getFormDefinitionForVersion(currentForm, versions, originalResponse.formVersion);
+
+    // Solo se editan las preguntas principales visibles con los valores editados (sin secciones,
+    // archivos ni firmas; los campos calculados se recalculan). Las subpreguntas y las preguntas
+    // ocultas por la lógica condicional conservan lo que tenían.
+    const visibleIds = getVisibleQuestionIds(definition.questions, editedValues);
+    const editedQuestionIds = definition.questions
+      .filter(q =>
+        !q.parentId &&
+        visibleIds.has(q.id) &&
+        q.type !== 'section' &&
+        (q.type === 'calculated' || !READ_ONLY_TYPES.includes(q.type))
+      )
+      .map(q => q.id);
+    const editedResponses: QuestionResponse[] = [
+      ...originalResponse.responses.filter(r => !editedQuestionIds.includes(r.questionId)),
+      ...editedQuestionIds.map(questionId => ({
+        questionId,
+        value: editedValues[questionId] ?? null
+      }))
+    ];
+
+    // Los campos calculados se actualizan con los valores editados
+    const calculatedIds = new Set(definition.questions.filter(q => q.type === 'calculated').map(q => q.id));
+    const calculated = computeCalculatedValues(definition.questions, toAnswerMap(editedResponses));
+    const updatedResponses = editedResponses.map(r =>
+      calculatedIds.has(r.questionId) ? { ...r, value: calculated[r.questionId] ?? null } : r
+    );
+    const score = computeScore(definition.questions, toAnswerMap(updatedResponses), definition.passMark);
+
+    // Mismas reglas que al completar el formulario, solo sobre las celdas editables
+    const errors = validateAnswers(definition.questions, toAnswerMap(updatedResponses));
+    const cellErrors = Object.fromEntries(
+      Object.entries(errors).filter(([questionId]) => editedQuestionIds.includes(questionId))
+    );
+    setEditErrors(cellErrors);
+    if (Object.keys(cellErrors).length > 0) {
+      toast.error(t('Por favor, revisa los campos marcados'));
+      return;
+    }
 
     try {
-      await saveResponse(updatedResponse);
-      await loadResponses(id);
+      await updateResponse({ ...originalResponse, responses: updatedResponses, score });
       setEditingResponse(null);
       setEditedValues({});
     } catch (error) {
@@ -134,34 +203,89 @@ const FormResponses: React.FC = () => {
     const formResponses = responses[id] || [];
     if (!formResponses[responseIndex]) return '';
     
-    const response = formResponses[responseIndex].responses.find(r => r.questionId === questionId);
-    if (!response) return '';
-    
-    const question = currentForm.questions?.find(q => q.id === questionId);
-    if (!question) return '';
-    
-    switch (question.type) {
-      case 'select':
-        const option = question.options?.find(o => o.id === response.value);
-        return option ? option.text : '';
-        
-      case 'multiselect':
-        if (!Array.isArray(response.value)) return '';
-        return question.options
-          ?.filter(o => response.value.includes(o.id))
-          .map(o => o.text)
-          .join(', ');
-        
-      case 'boolean':
-        return response.value === true ? 'Sí' : response.value === false ? 'No' : '';
-        
-      default:
-        return response.value;
-    }
+    // Se resuelve contra la versión del formulario con la que se recogió la respuesta
+    return getVersionedResponseText(currentForm, versions, formResponses[responseIndex], questionId);
   };
 
-  const renderEditableCell = (question: any, responseId: string) => {
-    if (!currentForm) return null;
+  /**
+   * Miniaturas de los archivos adjuntos a una pregunta de una respuesta
+   */
+  const renderAttachments = (questionId: string, responseIndex: number) => {
+    if (!id) return null;
+
+    const response = (responses[id] || [])[responseIndex];
+    const answer = response?.responses.find(r => r.questionId === questionId);
+    return <AttachmentList attachments={getAttachments(answer?.value)} />;
+  };
+
+  /**
+   * Miniatura de la firma de una respuesta
+   */
+  const renderSignature = (questionId: string, responseIndex: number) => {
+    if (!id) return null;
+
+    const response = (responses[id] || [])[responseIndex];
+    const signature = response?.responses.find(r => r.questionId === questionId)?.value;
+    if (!isSignatureImage(signature)) return null;
+
+    return <img src={signature} alt={t('Firma')} className="h-10 max-w-[10rem] object-contain bg-white border rounded" />;
+  };
+
+  /**
+   * Coordenadas de una respuesta con enlace al mapa
+   */
+  const renderLocation = (questionId: string, responseIndex: number) => {
+    if (!id) return null;
+
+    const response = (responses[id] || [])[responseIndex];
+    const location = response?.responses.find(r => r.questionId === questionId)?.value;
+    if (!isValidLocation(location)) return null;
+
+    return (
+      <a
+        href={getMapLink(location)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center text-blue-600 hover:text-blue-800 whitespace-nowrap"
+        title={t('Ver en el mapa')}
+      >
+        <MapPin size={14} className="mr-1" /> {formatCoordinates(location)}
+      </a>
+    );
+  };
+
+  /**
+   * Resumen compacto de una matriz: una línea por fila respondida
+   */
+  const renderMatrixSummary = (question: Question, responseIndex: number) => {
+    if (!currentForm || !id) return null;
+
+    const response = (responses[id] || [])[responseIndex];
+    if (!response) return null;
+
+    return (
+      <div className="space-y-0.5">
+        {(question.matrix?.rows ?? []).map(row => {
+          const text = getVersionedResponseText(currentForm, versions, response, question.id, row.id);
+          return text ? (
+            <div key={row.id} className="text-xs whitespace-nowrap">
+              <span className="text-gray-500">{row.text}:</span> {text}
+            </div>
+          ) : null;
+        })}
+      </div>
+    );
+  };
+
+  const renderEditableCell = (column: Question, responseId: string) => {
+    if (!currentForm || !id) return null;
+
+    // Opciones, escalas y filas de la versión con la que se recogió la respuesta
+    const response = responses[id]?.find(r => r.id === responseId);
+    if (!response) return null;
+    const definition = getFormDefinitionForVersion(currentForm, versions, response.formVersion);
+    const question: any = definition.questions.find(q => q.id === column.id);
+    if (!question) return null;
 
     const value = editedValues[question.id];
 
@@ -176,6 +300,45 @@ const FormResponses: React.FC = () => {
           />
         );
 
+      case 'textarea':
+        return (
+          <textarea
+            value={value || ''}
+            onChange={(e) => setEditedValues({ ...editedValues, [question.id]: e.target.value })}
+            rows={3}
+            className="w-full px-2 py-1 border rounded"
+          />
+        );
+
+      case 'email':
+      case 'phone':
+      case 'url':
+        return (
+          <input
+            type={question.type === 'phone' ? 'tel' : question.type}
+            value={value || ''}
+            onChange={(e) => setEditedValues({ ...editedValues, [question.id]: e.target.value.trim() })}
+            className="w-full px-2 py-1 border rounded"
+          />
+        );
+
+      case 'rating':
+        return (
+          <select
+            value={value ?? ''}
+            onChange={(e) => setEditedValues({
+              ...editedValues,
+              [question.id]: e.target.value === '' ? null : Number(e.target.value)
+            })}
+            className="w-full px-2 py-1 border rounded"
+          >
+            <option value="">—</option>
+            {Array.from({ length: getRatingMax(question) }, (_, index) => index + 1).map(score => (
+              <option key={score} value={score}>{score}</option>
+            ))}
+          </select>
+        );
+
       case 'number':
         return (
           <input
@@ -259,6 +422,25 @@ const FormResponses: React.FC = () => {
           </div>
         );
 
+      case 'location':
+        return (
+          <LocationInput
+            value={value}
+            onChange={(location) => setEditedValues({ ...editedValues, [question.id]: location })}
+            compact
+          />
+        );
+
+      case 'matrix':
+        return (
+          <MatrixInput
+            question={question}
+            value={value}
+            onChange={(matrixValue) => setEditedValues({ ...editedValues, [question.id]: matrixValue })}
+            compact
+          />
+        );
+
       default:
         return null;
     }
@@ -273,7 +455,11 @@ const FormResponses: React.FC = () => {
   }
   
   const formResponses = responses[id || ''] || [];
-  const visibleQuestions = currentForm?.questions?.filter(q => !q.parentId) || [];
+  const columns = getResponseColumns(currentForm, versions, formResponses);
+  // Evaluaciones: la versión actual puntúa o alguna respuesta tiene puntuación
+  const isQuiz = hasScoring(currentForm.questions) || formResponses.some(response => response.score);
+  const canFill = hasFormPermission(user, currentForm, 'fill');
+  const canEditResponses = hasFormPermission(user, currentForm, 'edit_responses');
   
   return (
     <div className="container mx-auto">
@@ -312,12 +498,14 @@ const FormResponses: React.FC = () => {
               )}
             </button>
             
-            <Link
-              to={`/vista-previa/${id}`}
-              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center"
-            >
-              <Eye size={16} className="mr-2" /> Completar Nueva Respuesta
-            </Link>
+            {canFill && (
+              <Link
+                to={`/vista-previa/${id}`}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center"
+              >
+                <Eye size={16} className="mr-2" /> Completar Nueva Respuesta
+              </Link>
+            )}
           </div>
         </div>
         
@@ -340,12 +528,26 @@ const FormResponses: React.FC = () => {
                     Fecha / Usuario
                   </th>
                   
-                  {visibleQuestions.map((question) => (
+                  {isQuiz && (
+                    <th className="py-3 px-4 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('Puntuación')}
+                    </th>
+                  )}
+                  
+                  {columns.map(({ question, removedAfterVersion }) => (
                     <th 
                       key={question.id} 
                       className="py-3 px-4 border-b text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                     >
+                      {getQuestionCode(question) && (
+                        <span className="block font-mono normal-case text-gray-400">{getQuestionCode(question)}</span>
+                      )}
                       {question.text}
+                      {removedAfterVersion && (
+                        <span className="block normal-case font-normal text-gray-400">
+                          {t('Eliminada; hasta')} v{removedAfterVersion}
+                        </span>
+                      )}
                     </th>
                   ))}
                   <th className="py-3 px-4 border-b text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
@@ -358,6 +560,7 @@ const FormResponses: React.FC = () => {
                 {formResponses.map((response, index) => {
                   const completionPercentage = calculateCompletionPercentage(response);
                   const completionColorClass = getCompletionColor(completionPercentage);
+                  const score = isQuiz ? getResponseScore(currentForm, versions, response) : undefined;
                   
                   return (
                     <tr key={response.id} className="hover:bg-gray-50">
@@ -367,9 +570,32 @@ const FormResponses: React.FC = () => {
                           <span className="text-sm text-gray-600 mt-1">
                             {response.username || 'Usuario Anónimo'}
                           </span>
+                          {response.updatedAt && (
+                            <span className="text-xs text-gray-500 mt-1">
+                              {t('Editada')} {formatDateDisplay(response.updatedAt)}
+                              {response.updatedByUsername && ` · ${response.updatedByUsername}`}
+                            </span>
+                          )}
                           <span className={`text-xs mt-1 px-2 py-1 rounded-full ${completionColorClass}`}>
                             {completionPercentage}%
                           </span>
+                          {score?.passed !== undefined && (
+                            <span className={`text-xs mt-1 px-2 py-1 rounded-full ${
+                              score.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                            }`}>
+                              {score.passed ? t('Aprobado') : t('No aprobado')}
+                            </span>
+                          )}
+                          {isOutdatedResponse(currentForm, response) && (
+                            <button
+                              type="button"
+                              onClick={() => setMappingVersion(response.formVersion)}
+                              className="text-xs mt-1 px-2 py-1 bg-purple-100 text-purple-800 rounded-full hover:bg-purple-200"
+                              title={t('Recogida con una versión anterior del formulario. Ver correspondencia de preguntas')}
+                            >
+                              v{response.formVersion} · {t('versión anterior')}
+                            </button>
+                          )}
                           {response.updatedOffline && (
                             <span className="text-xs mt-1 px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full">
                               Offline
@@ -378,10 +604,29 @@ const FormResponses: React.FC = () => {
                         </div>
                       </td>
                       
-                      {visibleQuestions.map((question) => (
+                      {isQuiz && (
+                        <td className="py-3 px-4 text-sm text-gray-800 border-b whitespace-nowrap">
+                          {score ? formatScore(score) : '—'}
+                        </td>
+                      )}
+                      
+                      {columns.map(({ question, removedAfterVersion }) => (
                         <td key={question.id} className="py-3 px-4 text-sm text-gray-800 border-b">
-                          {editingResponse === response.id ? (
-                            renderEditableCell(question, response.id)
+                          {editingResponse === response.id && !removedAfterVersion && !READ_ONLY_TYPES.includes(question.type) ? (
+                            <>
+                              {renderEditableCell(question, response.id)}
+                              {editErrors[question.id] && (
+                                <p className="mt-1 text-xs text-red-500">{editErrors[question.id]}</p>
+                              )}
+                            </>
+                          ) : question.type === 'file' ? (
+                            renderAttachments(question.id, index)
+                          ) : question.type === 'signature' ? (
+                            renderSignature(question.id, index)
+                          ) : question.type === 'location' ? (
+                            renderLocation(question.id, index)
+                          ) : question.type === 'matrix' ? (
+                            renderMatrixSummary(question, index)
                           ) : (
                             getFormattedResponseValue(question.id, index)
                           )}
@@ -409,27 +654,47 @@ const FormResponses: React.FC = () => {
                             </>
                           ) : (
                             <>
-                              <Link
-                                to={`/vista-previa/${id}/${response.id}`}
-                                className="text-blue-600 hover:text-blue-800 transition-colors"
-                                title="Editar en formulario"
-                              >
-                                <Eye size={16} />
-                              </Link>
                               <button
-                                onClick={() => startEditing(response.id)}
-                                className="text-blue-600 hover:text-blue-800 transition-colors"
-                                title="Editar en tabla"
+                                onClick={() => setHistoryResponseId(response.id)}
+                                className="text-gray-600 hover:text-gray-800 transition-colors"
+                                title="Historial de cambios"
                               >
-                                <Edit2 size={16} />
+                                <History size={16} />
                               </button>
-                              <button
-                                onClick={() => setResponseToDelete(response.id)}
-                                className="text-red-600 hover:text-red-800 transition-colors"
-                                title="Eliminar respuesta"
+                              <Link
+                                to={`/respuestas/${id}/${response.id}/imprimir`}
+                                className="text-gray-600 hover:text-gray-800 transition-colors"
+                                title="Imprimir o guardar como PDF"
                               >
-                                <Trash2 size={16} />
-                              </button>
+                                <Printer size={16} />
+                              </Link>
+                              {canEditResponses && (
+                                <>
+                                  <Link
+                                    to={`/vista-previa/${id}/${response.id}`}
+                                    className="text-blue-600 hover:text-blue-800 transition-colors"
+                                    title="Editar en formulario"
+                                  >
+                                    <Eye size={16} />
+                                  </Link>
+                                  <button
+                                    onClick={() => startEditing(response.id)}
+                                    className="text-blue-600 hover:text-blue-800 transition-colors"
+                                    title="Editar en tabla"
+                                  >
+                                    <Edit2 size={16} />
+                                  </button>
+                                </>
+                              )}
+                              {(canEditResponses || response.userId === user?.id) && (
+                                <button
+                                  onClick={() => setResponseToDelete(response.id)}
+                                  className="text-red-600 hover:text-red-800 transition-colors"
+                                  title="Eliminar respuesta"
+                                >
+                                  <Trash2 size={16} />
+                                </button>
+                              )}
                             </>
                           )}
                         </div>
@@ -452,6 +717,23 @@ const FormResponses: React.FC = () => {
         onConfirm={handleDeleteResponse}
         onCancel={() => setResponseToDelete(null)}
       />
+
+      {historyResponseId && formResponses.find(r => r.id === historyResponseId) && (
+        <ResponseHistoryDrawer
+          response={formResponses.find(r => r.id === historyResponseId)!}
+          form={currentForm}
+          onClose={() => setHistoryResponseId(null)}
+        />
+      )}
+
+      {mappingVersion !== null && (
+        <VersionMappingDialog
+          form={currentForm}
+          version={mappingVersion}
+          snapshot={versions.find(v => v.version === mappingVersion)}
+          onClose={() => setMappingVersion(null)}
+        />
+      )}
     </div>
   );
 };
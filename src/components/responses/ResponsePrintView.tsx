@@ -0,0 +1,177 @@
+import React, { useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { ArrowLeft, Printer } from 'lucide-react'; // Íconos
+import { useForm } from '../../contexts/FormContext'; // Formularios y respuestas
+import { Question, QuestionResponse } from '../../types';
+import { formatDateDisplay } from '../../utils/dateUtils';
+import { getFormDefinitionForVersion } from '../../utils/formVersions';
+import { getVisibleQuestions, toAnswerMap } from '../../utils/conditionalLogic';
+import { formatMatrixRow, formatResponseValue } from '../../utils/responseFormat';
+import { isSection } from '../../utils/questionTypes';
+import { getAttachments } from '../../utils/fileUploads';
+import { isSignatureImage } from '../../utils/signature';
+import { formatScore, getResponseScore, isCorrectAnswer } from '../../utils/scoring';
+import AttachmentList from './AttachmentList';
+import Spinner from '../ui/Spinner'; // Componente de carga
+
+/**
+ * Componente ResponsePrintView - Una respuesta en formato imprimible
+ * (el navegador permite imprimirla o guardarla como PDF).
+ * Se muestra con la versión del formulario con la que se recogió, incluidas las firmas.
+ */
+const ResponsePrintView: React.FC = () => {
+  // ======================
+  // HOOKS Y ESTADO
+  // ======================
+  const { id, responseId } = useParams<{ id: string; responseId: string }>();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { loadForm, loadResponses, loadFormVersions, currentForm, responses, formVersions, isLoading } = useForm();
+
+  useEffect(() => {
+    if (id) {
+      loadForm(id);
+      loadResponses(id);
+      loadFormVersions(id);
+    }
+  }, [id]);
+
+  const response = (responses[id || ''] || []).find(r => r.id === responseId);
+
+  if (isLoading || !currentForm || currentForm.id !== id) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (!response) {
+    return (
+      <div className="text-center py-12 bg-white rounded-lg shadow-md">
+        <p className="text-gray-500">{t('Respuesta no encontrada')}</p>
+      </div>
+    );
+  }
+
+  const definition = getFormDefinitionForVersion(currentForm, formVersions[id || ''] || [], response.formVersion);
+  const answers = toAnswerMap(response.responses);
+  const questions = getVisibleQuestions(definition.questions, answers);
+  const score = getResponseScore(currentForm, formVersions[id || ''] || [], response);
+
+  // ======================
+  // RENDERIZADO
+  // ======================
+
+  /**
+   * Valor de una pregunta según su tipo (las firmas y fotos se incrustan como imagen)
+   */
+  const renderAnswer = (question: Question, value: QuestionResponse['value'] | undefined) => {
+    switch (question.type) {
+      case 'signature':
+        return isSignatureImage(value)
+          ? <img src={value} alt={t('Firma')} className="h-24 max-w-xs object-contain border-b border-gray-400" />
+          : null;
+
+      case 'file':
+        return <AttachmentList attachments={getAttachments(value)} />;
+
+      case 'matrix':
+        return (
+          <table className="text-sm">
+            <tbody>
+              {(question.matrix?.rows ?? []).map(row => (
+                <tr key={row.id}>
+                  <td className="pr-4 py-0.5 text-gray-600">{row.text}</td>
+                  <td className="py-0.5">{formatMatrixRow(question, value, row.id) || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+
+      default:
+        return <span className="whitespace-pre-wrap">{formatResponseValue(question, value)}</span>;
+    }
+  };
+
+  return (
+    <div className="container mx-auto">
+      {/* Acciones (no se imprimen) */}
+      <div className="flex justify-between items-center mb-4 print:hidden">
+        <button
+          type="button"
+          onClick={() => navigate(-1)}
+          className="inline-flex items-center text-blue-600 hover:text-blue-800"
+        >
+          <ArrowLeft size={16} className="mr-1" /> {t('Volver')}
+        </button>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center"
+        >
+          <Printer size={16} className="mr-2" /> {t('Imprimir / Guardar PDF')}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-8 print:shadow-none print:p-0">
+        {/* Encabezado */}
+        <div className="border-b pb-4 mb-6">
+          <h1 className="text-2xl font-bold text-gray-800">{definition.name}</h1>
+          {definition.description && <p className="text-gray-600 mt-1">{definition.description}</p>}
+          <div className="mt-3 text-sm text-gray-500 space-x-4">
+            <span>{t('Fecha')}: {formatDateDisplay(response.createdAt)}</span>
+            <span>{t('Usuario')}: {response.username || t('Usuario Anónimo')}</span>
+            <span>{t('Versión')}: v{response.formVersion}</span>
+          </div>
+          {score && (
+            <p className="mt-2 font-medium text-gray-800">
+              {t('Puntuación')}: {formatScore(score)}
+              {score.passed !== undefined && (
+                <span className={`ml-2 ${score.passed ? 'text-green-700' : 'text-red-700'}`}>
+                  {score.passed ? t('Aprobado') : t('No aprobado')}
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+
+        {/* Preguntas visibles para esta respuesta */}
+        <div className="space-y-4">
+          {questions.map(question => {
+            // Las secciones son encabezados, no preguntas
+            if (isSection(question)) {
+              return question.text ? (
+                <h2 key={question.id} className="pt-4 text-lg font-semibold text-gray-800 border-b border-gray-200 break-after-avoid">
+                  {question.text}
+                </h2>
+              ) : null;
+            }
+
+            const correct = isCorrectAnswer(question, answers[question.id]);
+            return (
+              <dl
+                key={question.id}
+                className={`break-inside-avoid ${question.parentId ? 'pl-6 border-l-2 border-gray-200' : ''}`}
+              >
+                <dt className="text-sm font-medium text-gray-700">
+                  {question.text}
+                  {correct !== null && (
+                    <span className={`ml-2 ${correct ? 'text-green-700' : 'text-red-700'}`}>
+                      {correct ? `✓ ${t('Correcta')}` : `✗ ${t('Incorrecta')}`}
+                    </span>
+                  )}
+                </dt>
+                <dd className="mt-1 text-gray-900">{renderAnswer(question, answers[question.id])}</dd>
+              </dl>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResponsePrintView;
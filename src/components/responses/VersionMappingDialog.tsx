@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { GitCompare, X } from 'lucide-react'; // Íconos
+import { Form, FormVersion } from '../../types';
+import { diffForms } from '../../utils/formDiff';
+import { QUESTION_TYPE_LABELS } from '../../utils/questionTypes';
+import { flattenQuestions } from '../../utils/responseFormat';
+
+interface VersionMappingDialogProps {
+  form: Form; // Formulario en su versión actual
+  version: number; // Versión con la que se recogieron las respuestas
+  snapshot?: FormVersion; // Instantánea de esa versión (si se conserva)
+  onClose: () => void; // Cierra el diálogo
+}
+
+// Fila de la tabla de correspondencias
+interface MappingRow {
+  id: string;
+  oldText: string | null;
+  newText: string | null;
+  notes: string[];
+}
+
+/**
+ * Componente VersionMappingDialog - Explica qué preguntas de una versión anterior
+ * corresponden a cuáles de la versión actual (y qué cambió en cada una)
+ */
+const VersionMappingDialog: React.FC<VersionMappingDialogProps> = ({ form, version, snapshot, onClose }) => {
+  const { t } = useTranslation();
+
+  // Filas: preguntas de la versión anterior en orden y, al final, las nuevas
+  const rows = useMemo<MappingRow[]>(() => {
+    if (!snapshot) return [];
+
+    const diff = diffForms(snapshot, form);
+    const removedIds = new Set(diff.removed.map(q => q.id));
+    const changesById = new Map(diff.changed.map(change => [change.questionId, change]));
+    const currentById = new Map(flattenQuestions(form.questions).map(q => [q.id, q]));
+
+    const mapped = flattenQuestions(snapshot.questions).map(question => {
+      if (removedIds.has(question.id)) {
+        return { id: question.id, oldText: question.text, newText: null, notes: [t('Eliminada')] };
+      }
+
+      const change = changesById.get(question.id);
+      const notes: string[] = [];
+      if (change?.textChanged) notes.push(t('Texto modificado'));
+      if (change?.typeChanged) {
+        notes.push(`${t('Tipo')}: ${t(QUESTION_TYPE_LABELS[change.before.type] ?? change.before.type)} → ${t(QUESTION_TYPE_LABELS[change.after.type] ?? change.after.type)}`);
+      }
+      if (change?.requiredChanged) {
+        notes.push(change.after.required ? t('Ahora es obligatoria') : t('Ya no es obligatoria'));
+      }
+      change?.optionChanges.forEach(optionChange => {
+        if (optionChange.kind === 'added') notes.push(`${t('Opción agregada')}: ${optionChange.after}`);
+        if (optionChange.kind === 'removed') notes.push(`${t('Opción eliminada')}: ${optionChange.before}`);
+        if (optionChange.kind === 'renamed') notes.push(`${t('Opción renombrada')}: ${optionChange.before} → ${optionChange.after}`);
+      });
+
+      return {
+        id: question.id,
+        oldText: question.text,
+        newText: currentById.get(question.id)?.text ?? question.text,
+        notes: notes.length > 0 ? notes : [t('Sin cambios')]
+      };
+    });
+
+    const added = diff.added.map(question => ({
+      id: question.id,
+      oldText: null,
+      newText: question.text,
+      notes: [t('Nueva')]
+    }));
+
+    return [...mapped, ...added];
+  }, [form, snapshot]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Encabezado */}
+        <div className="p-4 border-b flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <GitCompare size={18} className="mr-2" /> {t('Correspondencia de preguntas')}
+            </h3>
+            <p className="text-sm text-gray-500">
+              v{version} → v{form.version} ({t('actual')})
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {!snapshot ? (
+            <p className="text-center text-gray-500 py-8">
+              {t('No se conserva la definición de esta versión; las respuestas se muestran con la versión actual.')}
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="bg-gray-100 text-gray-600 text-xs uppercase">
+                  <th className="py-2 px-3 text-left">{t('Pregunta en')} v{version}</th>
+                  <th className="py-2 px-3 text-left">{t('Pregunta en')} v{form.version}</th>
+                  <th className="py-2 px-3 text-left">{t('Cambios')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.id}>
+                    <td className={`py-2 px-3 ${row.newText === null ? 'line-through text-red-600' : 'text-gray-800'}`}>
+                      {row.oldText ?? '—'}
+                    </td>
+                    <td className={`py-2 px-3 ${row.oldText === null ? 'text-green-700' : 'text-gray-800'}`}>
+                      {row.newText ?? '—'}
+                    </td>
+                    <td className="py-2 px-3 text-xs text-gray-600">
+                      {row.notes.map(note => (
+                        <div key={note}>{note}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionMappingDialog;
@@ -0,0 +1,339 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next'; // Internacionalización
+import { KeyRound, Trash2, UserX, UserCheck, Plus } from 'lucide-react'; // Íconos
+import toast from 'react-hot-toast'; // Notificaciones
+import { useDatabase } from '../../contexts/DatabaseContext'; // Operaciones de usuarios
+import { useAuth } from '../../contexts/AuthContext'; // Usuario autenticado
+import { User, UserRole } from '../../types';
+import ConfirmDialog from '../ui/ConfirmDialog'; // Diálogo de confirmación
+import Spinner from '../ui/Spinner'; // Componente de carga
+import { formatDateDisplay } from '../../utils/dateUtils';
+import { ROLE_LABELS, USER_ROLES } from '../../utils/permissions';
+import { ApiError } from '../../utils/apiClient';
+
+/**
+ * Componente UsersList - Administración de usuarios (solo admin)
+ *
+ * Permite buscar usuarios, cambiar su rol, restablecer contraseñas,
+ * desactivarlos y eliminarlos.
+ */
+const UsersList: React.FC = () => {
+  // ======================
+  // HOOKS Y ESTADO
+  // ======================
+  const { users, fetchUsers, createUser, updateUser, deleteUser, isLoading } = useDatabase();
+  const { user: currentUser } = useAuth();
+  const { t } = useTranslation();
+
+  const [searchTerm, setSearchTerm] = useState(''); // Término de búsqueda
+  const [userToDelete, setUserToDelete] = useState<User | null>(null); // Usuario a eliminar
+  const [userToReset, setUserToReset] = useState<User | null>(null); // Usuario al que se cambia la contraseña
+  const [newPassword, setNewPassword] = useState('');
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [newUser, setNewUser] = useState({ username: '', password: '', role: 'respondent' as UserRole });
+
+  // ======================
+  // EFECTOS SECUNDARIOS
+  // ======================
+
+  // Carga los usuarios al montar el componente
+  useEffect(() => {
+    fetchUsers().catch(() => {});
+  }, []);
+
+  // ======================
+  // ACCIONES
+  // ======================
+
+  /**
+   * Crea un nuevo usuario con el rol elegido
+   */
+  const handleCreateUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newUser.username.trim() || !newUser.password) return;
+
+    try {
+      await createUser({ ...newUser, username: newUser.username.trim(), active: true });
+      setNewUser({ username: '', password: '', role: 'respondent' });
+      setShowCreateForm(false);
+    } catch (error) {
+      console.error('Error creating user:', error);
+    }
+  };
+
+  /**
+   * Guarda la nueva contraseña del usuario seleccionado
+   */
+  const handleResetPassword = async () => {
+    if (!userToReset || !newPassword) return;
+
+    try {
+      await updateUser(userToReset.id, { password: newPassword });
+      setUserToReset(null);
+      setNewPassword('');
+    } catch (error) {
+      console.error('Error resetting password:', error);
+    }
+  };
+
+  /**
+   * Elimina un usuario; si la API lo impide se avisa y el usuario sigue en la lista
+   */
+  const handleDeleteUser = async (userId: string) => {
+    try {
+      await deleteUser(userId);
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      toast.error(
+        error instanceof ApiError && error.status === 409
+          ? t('El usuario tiene formularios o respuestas: desactívalo en lugar de eliminarlo')
+          : t('No se pudo eliminar el usuario')
+      );
+    }
+  };
+
+  /**
+   * Ejecuta una actualización mostrando el error en consola si falla
+   */
+  const handleUpdate = (id: string, changes: Partial<User>) => {
+    updateUser(id, changes).catch(error => console.error('Error updating user:', error));
+  };
+
+  // ======================
+  // FILTRADO
+  // ======================
+
+  const filteredUsers = users.filter(u =>
+    u.username.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  // ======================
+  // RENDERIZADO
+  // ======================
+
+  return (
+    <div className="container mx-auto">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        {/* Encabezado y búsqueda */}
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+          <h1 className="text-2xl font-bold text-gray-800">{t('Usuarios')}</h1>
+
+          <div className="flex flex-col md:flex-row gap-3 w-full md:w-auto">
+            <input
+              type="text"
+              placeholder={t('Buscar usuarios')}
+              className="w-full md:w-64 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={() => setShowCreateForm(!showCreateForm)}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center justify-center"
+            >
+              <Plus size={16} className="mr-1" /> {t('Nuevo Usuario')}
+            </button>
+          </div>
+        </div>
+
+        {/* Formulario de creación */}
+        {showCreateForm && (
+          <form onSubmit={handleCreateUser} className="mb-6 p-4 bg-gray-50 rounded-lg grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              placeholder={t('Nombre de usuario')}
+              value={newUser.username}
+              onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              required
+            />
+            <input
+              type="password"
+              placeholder={t('Contraseña')}
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+              required
+            />
+            <select
+              value={newUser.role}
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              {USER_ROLES.map(role => (
+                <option key={role} value={role}>{t(ROLE_LABELS[role])}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+            >
+              {t('Crear')}
+            </button>
+          </form>
+        )}
+
+        {/* Contenido principal */}
+        {isLoading && users.length === 0 ? (
+          <div className="flex justify-center my-12">
+            <Spinner />
+          </div>
+        ) : filteredUsers.length === 0 ? (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">{t('No se encontraron usuarios')}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white">
+              <thead>
+                <tr className="bg-gray-100 text-gray-600 uppercase text-sm leading-normal">
+                  <th className="py-3 px-6 text-left">{t('Usuario')}</th>
+                  <th className="py-3 px-6 text-left">{t('Rol')}</th>
+                  <th className="py-3 px-6 text-center hidden md:table-cell">{t('Estado')}</th>
+                  <th className="py-3 px-6 text-left hidden md:table-cell">{t('Creado')}</th>
+                  <th className="py-3 px-6 text-center">{t('Acciones')}</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-600 text-sm">
+                {filteredUsers.map((u) => {
+                  const isCurrentUser = u.id === currentUser?.id;
+
+                  return (
+                    <tr key={u.id} className={`border-b border-gray-200 hover:bg-gray-50 ${u.active ? '' : 'opacity-60'}`}>
+                      {/* Nombre */}
+                      <td className="py-3 px-6 text-left font-medium">
+                        {u.username}
+                        {isCurrentUser && <span className="ml-2 text-xs text-gray-400">({t('tú')})</span>}
+                      </td>
+
+                      {/* Rol */}
+                      <td className="py-3 px-6 text-left">
+                        <select
+                          value={u.role}
+                          disabled={isCurrentUser}
+                          onChange={(e) => handleUpdate(u.id, { role: e.target.value as UserRole })}
+                          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-green-500"
+                        >
+                          {USER_ROLES.map(role => (
+                            <option key={role} value={role}>{t(ROLE_LABELS[role])}</option>
+                          ))}
+                        </select>
+                      </td>
+
+                      {/* Estado (solo en desktop) */}
+                      <td className="py-3 px-6 text-center hidden md:table-cell">
+                        <span className={`px-2 py-1 rounded-full text-xs ${
+                          u.active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'
+                        }`}>
+                          {u.active ? t('Activo') : t('Desactivado')}
+                        </span>
+                      </td>
+
+                      {/* Fecha de creación (solo en desktop) */}
+                      <td className="py-3 px-6 text-left hidden md:table-cell">
+                        {u.createdAt ? formatDateDisplay(u.createdAt) : ''}
+                      </td>
+
+                      {/* Acciones */}
+                      <td className="py-3 px-6 text-center">
+                        <div className="flex justify-center space-x-2">
+                          <button
+                            onClick={() => setUserToReset(u)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title={t('Restablecer contraseña')}
+                          >
+                            <KeyRound size={18} />
+                          </button>
+
+                          {!isCurrentUser && (
+                            <>
+                              <button
+                                onClick={() => handleUpdate(u.id, { active: !u.active })}
+                                className="text-yellow-600 hover:text-yellow-900"
+                                title={u.active ? t('Desactivar') : t('Activar')}
+                              >
+                                {u.active ? <UserX size={18} /> : <UserCheck size={18} />}
+                              </button>
+
+                              <button
+                                onClick={() => setUserToDelete(u)}
+                                className="text-red-600 hover:text-red-900"
+                                title={t('Eliminar')}
+                              >
+                                <Trash2 size={18} />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Diálogo para restablecer contraseña */}
+      {userToReset && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {t('Restablecer contraseña')}: {userToReset.username}
+              </h3>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder={t('Nueva contraseña')}
+                className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                autoFocus
+              />
+            </div>
+            <div className="bg-gray-50 px-6 py-4 flex justify-end space-x-3 rounded-b-lg">
+              <button
+                type="button"
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+                onClick={() => {
+                  setUserToReset(null);
+                  setNewPassword('');
+                }}
+              >
+                {t('Cancelar')}
+              </button>
+              <button
+                type="button"
+                disabled={!newPassword}
+                className="px-4 py-2 rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                onClick={handleResetPassword}
+              >
+                {t('Guardar')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Diálogo de confirmación para eliminar */}
+      <ConfirmDialog
+        isOpen={!!userToDelete}
+        title={t('Confirmar eliminación')}
+        message={t('¿Está seguro que desea eliminar este usuario? Solo se pueden eliminar usuarios sin formularios ni respuestas; los demás se desactivan para conservar sus datos.')}
+        confirmLabel={t('Eliminar')}
+        cancelLabel={t('Cancelar')}
+        danger
+        onConfirm={() => {
+          if (userToDelete) {
+            handleDeleteUser(userToDelete.id);
+            setUserToDelete(null);
+          }
+        }}
+        onCancel={() => setUserToDelete(null)}
+      />
+    </div>
+  );
+};
+
+export default UsersList;
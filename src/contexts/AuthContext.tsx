@@ -1,12 +1,57 @@
 import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import { jwtDecode } from 'jwt-decode';
 import { User, UserRole, AuthContextState } from '../types';
 import toast from 'react-hot-toast';
+import { authApi, setUnauthorizedHandler } from '../utils/apiClient';
+import { clearCachedForms } from '../utils/offlineDb';
 
 // ======================
-// CONFIGURACIÓN DE API
+// SESIÓN (JWT)
 // ======================
 
-const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost/api';
+const TOKEN_KEY = 'auth_token';
+
+/**
+ * Claims que firma la API en el token de sesión
+ */
+interface TokenClaims {
+  sub: string;
+  username: string;
+  role: UserRole;
+  exp: number;
+}
+
+/**
+ * Decodifica el token y obtiene el usuario y su expiración.
+ * Devuelve null si el token es inválido o ya expiró.
+ */
+const readSession = (token: string | null) => {
+  if (!token) return null;
+
+  try {
+    const claims = jwtDecode<TokenClaims>(token);
+    const expiresAt = claims.exp * 1000;
+
+    if (!claims.sub || !claims.role || expiresAt <= Date.now()) {
+      return null;
+    }
+
+    const user: User = {
+      id: claims.sub,
+      username: claims.username,
+      password: '',
+      role: claims.role
+    };
+
+    return { user, expiresAt };
+  } catch (error) {
+    console.error('Invalid session token:', error);
+    return null;
+  }
+};
+
+// setTimeout no admite esperas mayores a ~24,8 días
+const MAX_TIMEOUT = 2 ** 31 - 1;
 
 // ======================
 // TIPOS Y CONFIGURACIONES
@@ -16,7 +61,7 @@ const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost/api';
  * Tipos de acciones para el reducer de autenticación
  */
 type AuthAction = 
-  | { type: 'LOGIN_SUCCESS'; payload: User }
+  | { type: 'LOGIN_SUCCESS'; payload: { user: User; expiresAt: number } }
   | { type: 'LOGOUT' }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null };
@@ -26,6 +71,7 @@ type AuthAction =
  */
 const initialState: AuthContextState = {
   user: null,
+  expiresAt: null,
   isAuthenticated: false,
   isLoading: false,
   error: null
@@ -54,7 +100,8 @@ const authReducer = (state: AuthContextState, action: AuthAction): AuthContextSt
     case 'LOGIN_SUCCESS':
       return {
         ...state,
-        user: action.payload,
+        user: action.payload.user,
+        expiresAt: action.payload.expiresAt,
         isAuthenticated: true,
         error: null
       };
@@ -62,6 +109,7 @@ const authReducer = (state: AuthContextState, action: AuthAction): AuthContextSt
       return {
         ...state,
         user: null,
+        expiresAt: null,
         isAuthenticated: false,
         error: null
       };
@@ -103,32 +151,83 @@ export const useAuth = () => {
  * Proveedor del contexto de autenticación
  */
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(authReducer, initialState);
+  // La sesión se restaura desde el token antes del primer render para no redirigir a /login
+  const [state, dispatch] = useReducer(authReducer, initialState, (state): AuthContextState => {
+    const session = readSession(localStorage.getItem(TOKEN_KEY));
+    return session ? { ...state, ...session, isAuthenticated: true } : state;
+  });
 
   // ======================
   // EFECTOS SECUNDARIOS
   // ======================
 
   /**
-   * Efecto para verificar autenticación al cargar la aplicación
+   * Efecto para limpiar sesiones inválidas o del formato anterior al cargar la aplicación
    */
   useEffect(() => {
-    const userData = localStorage.getItem('user_data');
-    if (userData) {
-      try {
-        const user = JSON.parse(userData);
-        dispatch({ type: 'LOGIN_SUCCESS', payload: user });
-      } catch (error) {
-        localStorage.removeItem('user_data');
-        console.error('Invalid user data:', error);
-      }
+    // Versiones anteriores guardaban el usuario sin firmar
+    localStorage.removeItem('user_data');
+
+    if (!state.isAuthenticated) {
+      localStorage.removeItem(TOKEN_KEY);
     }
   }, []);
 
+  /**
+   * Efecto para cerrar la sesión automáticamente cuando expira el token
+   */
+  useEffect(() => {
+    if (!state.expiresAt) return;
+
+    const timeoutId = window.setTimeout(() => {
+      endSession();
+      toast.error('Tu sesión ha expirado, vuelve a iniciar sesión');
+    }, Math.min(state.expiresAt - Date.now(), MAX_TIMEOUT));
+
+    return () => window.clearTimeout(timeoutId);
+  }, [state.expiresAt]);
+
+  /**
+   * Efecto para cerrar la sesión cuando la API rechaza el token.
+   * PrivateRoute redirige entonces a /login conservando la ubicación actual.
+   */
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      endSession();
+      toast.error('Tu sesión ya no es válida, vuelve a iniciar sesión');
+    });
+
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
   // ======================
   // FUNCIONES PRINCIPALES
   // ======================
 
+  /**
+   * Guarda el token recibido de la API y deriva el usuario de sus claims
+   * @returns Usuario de la sesión
+   */
+  const startSession = (token: string) => {
+    const session = readSession(token);
+    if (!session) {
+      throw new Error('La sesión recibida no es válida');
+    }
+
+    localStorage.setItem(TOKEN_KEY, token);
+    dispatch({ type: 'LOGIN_SUCCESS', payload: session });
+    return session.user;
+  };
+
+  /**
+   * Descarta el token local, la copia local de formularios y limpia el estado de la sesión
+   */
+  const endSession = () => {
+    localStorage.removeItem(TOKEN_KEY);
+    clearCachedForms().catch(error => console.error('Error clearing cached forms:', error));
+    dispatch({ type: 'LOGOUT' });
+  };
+
   /**
    * Función para iniciar sesión
    * @param username - Nombre de usuario
@@ -143,25 +242,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const response = await fetch(`${API_BASE}/auth/login`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ username, password }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Credenciales inválidas');
-      }
-
-      const { user } = await response.json();
-      
-      // Store user data in localStorage
-      localStorage.setItem('user_data', JSON.stringify(user));
-      
-      dispatch({ type: 'LOGIN_SUCCESS', payload: user });
+      const { token } = await authApi.login(username, password);
+      const user = startSession(token);
       
       toast.success(`Bienvenido ${user.username}`);
     } catch (error: any) {
@@ -178,15 +260,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    */
   const logout = async () => {
     try {
-      await fetch(`${API_BASE}/auth/logout`, {
-        method: 'POST'
-      });
+      await authApi.logout();
     } catch (error) {
       console.error('Error during logout:', error);
     }
     
-    localStorage.removeItem('user_data');
-    dispatch({ type: 'LOGOUT' });
+    endSession();
     toast.success('Sesión cerrada correctamente');
   };
 
@@ -194,47 +273,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    * Función para registrar nuevo usuario
    * @param username - Nombre de usuario
    * @param password - Contraseña
-   * @param role - Rol del usuario (opcional, default 'user')
+   * @param role - Rol del usuario (opcional, default 'respondent')
    */
-  const register = async (username: string, password: string, role: UserRole = 'user') => {
+  const register = async (username: string, password: string, role: UserRole = 'respondent') => {
     try {
       console.log('🔄 Iniciando proceso de registro...');
       dispatch({ type: 'SET_LOADING', payload: true });
 
-      const payload = { username, password, role };
-      console.log('📦 Enviando datos al backend:', payload);
-
-      const response = await fetch(`${API_BASE}/auth/register`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(payload)
-      });
-
-      console.log(`📡 Solicitud enviada a: ${API_BASE}/auth/register`);
-      console.log('📨 Esperando respuesta del backend...');
-
-      const data = await response.json();
-      console.log('✅ Respuesta recibida del backend:', data);
-
-      if (!response.ok) {
-        console.error('❌ Error en el registro:', data.message);
-        throw new Error(data.message || 'Registration failed');
-      }
-
-      const user = data.user;
-      console.log('👤 Usuario registrado:', user);
-
-      // Store user data in localStorage
-      localStorage.setItem('user_data', JSON.stringify(user));
+      console.log('📦 Enviando datos al backend:', { username, role });
 
-      dispatch({
-        type: 'LOGIN_SUCCESS',
-        payload: user
-      });
+      const { token } = await authApi.register(username, password, role);
+      const user = startSession(token);
+      console.log('👤 Usuario registrado:', user.username);
 
-      console.log('💾 Datos de usuario guardados en localStorage');
+      console.log('💾 Sesión guardada en localStorage');
       toast.success('Registration successful');
     } catch (error: any) {
       console.error('🚨 Error durante el registro:', error.message);
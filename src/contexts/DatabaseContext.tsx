@@ -1,29 +1,14 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { User } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditEvent, Form, FormResponse, NewFormResponse, User } from '../types';
 import { useAuth } from './AuthContext';
 import toast from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
-
-interface Form {
-  id: string;
-  name: string;
-  createdAt: string;
-  updatedAt: string;
-  version: number;
-  [key: string]: any;
-}
-
-interface ResponseData {
-  id: string;
-  formId: string;
-  data: any;
-  submittedAt: string;
-  userId?: string;
-}
+import { formsApi, responsesApi, usersApi, auditApi, AuditFilters, FormInput } from '../utils/apiClient';
 
 interface DatabaseContextType {
   forms: Form[];
-  responses: ResponseData[];
+  responses: FormResponse[];
   users: User[];
   isLoading: boolean;
   error: string | null;
@@ -31,14 +16,16 @@ interface DatabaseContextType {
   fetchFormById: (id: string) => Promise<Form | null>;
   fetchResponses: (formId?: string) => Promise<void>;
   fetchUsers: () => Promise<void>;
-  createForm: (form: Omit<Form, 'id' | 'createdAt' | 'updatedAt' | 'version'>) => Promise<Form>;
-  updateForm: (id: string, form: Partial<Form>) => Promise<Form>;
+  createForm: (form: FormInput) => Promise<Form>;
+  updateForm: (id: string, form: FormInput) => Promise<Form>;
   deleteForm: (id: string) => Promise<void>;
-  createResponse: (response: Omit<ResponseData, 'id' | 'submittedAt'>) => Promise<ResponseData>;
+  createResponse: (response: NewFormResponse) => Promise<FormResponse>;
   deleteResponse: (id: string) => Promise<void>;
   createUser: (user: Omit<User, 'id'>) => Promise<User>;
   updateUser: (id: string, user: Partial<User>) => Promise<User>;
   deleteUser: (id: string) => Promise<void>;
+  fetchAuditLog: (filters?: AuditFilters) => Promise<AuditEvent[]>;
+  fetchResponseHistory: (responseId: string) => Promise<AuditEvent[]>;
 }
 
 const DatabaseContext = createContext<DatabaseContextType | null>(null);
@@ -53,23 +40,13 @@ export const useDatabase = () => {
 
 export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [forms, setForms] = useState<Form[]>([]);
-  const [responses, setResponses] = useState<ResponseData[]>([]);
+  const [responses, setResponses] = useState<FormResponse[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { t } = useTranslation();
-  
-  const API_BASE = import.meta.env.VITE_REACT_APP_API_BASE || 'http://localhost/api';
   const { user } = useAuth();
 
-  const getAuthHeader = () => {
-    const token = localStorage.getItem('auth_token');
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${token}`
-    };
-  };
-
   const handleError = (error: unknown) => {
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
     setError(message);
@@ -81,19 +58,9 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
    * Form Operations
    */
   const fetchForms = async () => {
-    console.log("Usuario antes", user);
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/forms`, {
-        headers: getAuthHeader()
-      });
-      console.log("Usuario:", user);
-      console.log("Token:", localStorage.getItem('auth_token'));
-      if (!response.ok) {
-        throw new Error('Failed to fetch forms');
-      }
-      
-      const data = await response.json();
+      const data = await formsApi.list();
       setForms(data);
       setError(null);
     } catch (err) {
@@ -106,15 +73,7 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const fetchFormById = async (id: string) => {
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/forms/${id}`, {
-        headers: getAuthHeader()
-      });
-      
-      if (!response.ok) {
-        throw new Error('Form not found');
-      }
-      
-      const data = await response.json();
+      const data = await formsApi.get(id);
       setError(null);
       return data;
     } catch (err) {
@@ -125,21 +84,10 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
-  const createForm = async (form: Omit<Form, 'id' | 'createdAt' | 'updatedAt' | 'version'>) => {
+  const createForm = async (form: FormInput) => {
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/forms`, {
-        method: 'POST',
-        headers: getAuthHeader(),
-        body: JSON.stringify(form)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to create form');
-      }
-      
-      const newForm = await response.json();
+      const newForm = await formsApi.create(form);
       setForms(prev => [...prev, newForm]);
       toast.success(t('form_created'));
       return newForm;
@@ -151,21 +99,10 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
-  const updateForm = async (id: string, form: Partial<Form>) => {
+  const updateForm = async (id: string, form: FormInput) => {
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/forms/${id}`, {
-        method: 'PUT',
-        headers: getAuthHeader(),
-        body: JSON.stringify(form)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to update form');
-      }
-      
-      const updatedForm = await response.json();
+      const updatedForm = await formsApi.update(id, form);
       setForms(prev => prev.map(f => f.id === id ? updatedForm : f));
       toast.success(t('form_updated'));
       return updatedForm;
@@ -180,15 +117,7 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const deleteForm = async (id: string) => {
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/forms/${id}`, {
-        method: 'DELETE',
-        headers: getAuthHeader()
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to delete form');
-      }
-      
+      await formsApi.remove(id);
       setForms(prev => prev.filter(f => f.id !== id));
       toast.success(t('form_deleted'));
     } catch (err) {
@@ -204,16 +133,7 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const fetchResponses = async (formId?: string) => {
     setIsLoading(true);
     try {
-      const url = formId ? `${API_BASE}/forms/${formId}/responses` : `${API_BASE}/responses`;
-      const response = await fetch(url, {
-        headers: getAuthHeader()
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch responses');
-      }
-      
-      const data = await response.json();
+      const data = formId ? await responsesApi.listByForm(formId) : await responsesApi.list();
       setResponses(data);
       setError(null);
     } catch (err) {
@@ -223,26 +143,19 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
-  const createResponse = async (response: Omit<ResponseData, 'id' | 'submittedAt'>) => {
+  const createResponse = async (response: NewFormResponse) => {
     setIsLoading(true);
     try {
-      const responseToSend = {
+      const responseToSend: FormResponse = {
         ...response,
-        userId: user?.id
+        id: uuidv4(),
+        createdAt: Date.now(),
+        userId: response.userId ?? user?.id ?? '',
+        username: response.username ?? user?.username ?? ''
       };
       
-      const apiResponse = await fetch(`${API_BASE}/responses`, {
-        method: 'POST',
-        headers: getAuthHeader(),
-        body: JSON.stringify(responseToSend)
-      });
-      
-      if (!apiResponse.ok) {
-        const errorData = await apiResponse.json();
-        throw new Error(errorData.message || 'Failed to create response');
-      }
-      
-      const newResponse = await apiResponse.json();
+      const { id } = await responsesApi.create(responseToSend);
+      const newResponse = { ...responseToSend, id };
       setResponses(prev => [...prev, newResponse]);
       toast.success(t('response_submitted'));
       return newResponse;
@@ -257,15 +170,7 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const deleteResponse = async (id: string) => {
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/responses/${id}`, {
-        method: 'DELETE',
-        headers: getAuthHeader()
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to delete response');
-      }
-      
+      await responsesApi.remove(id);
       setResponses(prev => prev.filter(r => r.id !== id));
       toast.success(t('response_deleted'));
     } catch (err) {
@@ -275,6 +180,89 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   };
 
+  /**
+   * User Operations (admin)
+   */
+  const fetchUsers = async () => {
+    setIsLoading(true);
+    try {
+      const data = await usersApi.list();
+      setUsers(data);
+      setError(null);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createUser = async (newUser: Omit<User, 'id'>) => {
+    setIsLoading(true);
+    try {
+      const createdUser = await usersApi.create(newUser);
+      setUsers(prev => [...prev, createdUser].sort((a, b) => a.username.localeCompare(b.username)));
+      toast.success(t('user_created'));
+      return createdUser;
+    } catch (err) {
+      handleError(err);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateUser = async (id: string, changes: Partial<User>) => {
+    setIsLoading(true);
+    try {
+      const updatedUser = await usersApi.update(id, changes);
+      setUsers(prev => prev.map(u => u.id === id ? updatedUser : u));
+      toast.success(t('user_updated'));
+      return updatedUser;
+    } catch (err) {
+      handleError(err);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const deleteUser = async (id: string) => {
+    setIsLoading(true);
+    try {
+      await usersApi.remove(id);
+      setUsers(prev => prev.filter(u => u.id !== id));
+      toast.success(t('user_deleted'));
+    } catch (err) {
+      // El aviso lo muestra quien elimina (con el motivo, p. ej. que el usuario tiene datos)
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Audit Operations
+   * Los eventos no se guardan en el estado: cada vista los pide con sus propios filtros
+   */
+  const fetchAuditLog = async (filters: AuditFilters = {}) => {
+    try {
+      return await auditApi.list(filters);
+    } catch (err) {
+      handleError(err);
+      throw err;
+    }
+  };
+
+  const fetchResponseHistory = async (responseId: string) => {
+    try {
+      return await auditApi.responseHistory(responseId);
+    } catch (err) {
+      handleError(err);
+      throw err;
+    }
+  };
+
   // Load initial data
   useEffect(() => {
     if (user) {
@@ -293,11 +281,17 @@ export const DatabaseProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         fetchForms,
         fetchFormById,
         fetchResponses,
+        fetchUsers,
         createForm,
         updateForm,
         deleteForm,
         createResponse,
-        deleteResponse
+        deleteResponse,
+        createUser,
+        updateUser,
+        deleteUser,
+        fetchAuditLog,
+        fetchResponseHistory
       }}
     >
       {children}
@@ -1,20 +1,41 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Form, FormResponse, FormContextState } from '../types';
+import { Form, FormResponse, FormContextState, FormShare, FormVersion, NewFormResponse, SaveResponseResult, FailedResponse } from '../types';
 import toast from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from './AuthContext';
+import {
+  addToOutbox,
+  getOutboxEntries,
+  getOutboxEntry,
+  removeFromOutbox,
+  removePendingFiles,
+  updateOutboxEntry,
+  cacheForms,
+  cacheForm,
+  removeCachedForm,
+  getCachedForms,
+  getCachedForm
+} from '../utils/offlineDb';
+import { ApiError, formsApi, responsesApi, isNetworkError, isAbortError, isRejectedByApi } from '../utils/apiClient';
+import { getAttachments, uploadPendingFiles } from '../utils/fileUploads';
 
 // Tipos de acciones para el reducer
 type FormAction = 
   | { type: 'SET_FORMS'; payload: Form[] }
   | { type: 'SET_CURRENT_FORM'; payload: Form | null }
   | { type: 'SET_RESPONSES'; payload: { formId: string, responses: FormResponse[] } }
+  | { type: 'SET_FORM_VERSIONS'; payload: { formId: string, versions: FormVersion[] } }
   | { type: 'ADD_FORM'; payload: Form }
   | { type: 'UPDATE_FORM'; payload: Form }
   | { type: 'DELETE_FORM'; payload: string }
   | { type: 'ADD_RESPONSE'; payload: FormResponse }
+  | { type: 'UPDATE_RESPONSE'; payload: FormResponse }
   | { type: 'DELETE_RESPONSE'; payload: { formId: string, responseId: string } }
+  | { type: 'SET_OFFLINE_FORM_IDS'; payload: string[] }
+  | { type: 'SET_PENDING_RESPONSES'; payload: number }
+  | { type: 'SET_FAILED_RESPONSES'; payload: FailedResponse[] }
+  | { type: 'SET_SYNCING'; payload: boolean }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null };
 
@@ -23,10 +44,22 @@ const initialState: FormContextState = {
   forms: [],
   currentForm: null,
   responses: {},
+  formVersions: {},
+  offlineFormIds: [],
+  pendingResponses: 0,
+  failedResponses: [],
+  isSyncing: false,
   isLoading: false,
   error: null
 };
 
+// Espera entre reintentos de sincronización (crece exponencialmente)
+const BASE_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+
 // Reducer para manejar el estado
 const formReducer = (state: FormContextState, action: FormAction): FormContextState => {
   switch (action.type) {
@@ -42,6 +75,14 @@ const formReducer = (state: FormContextState, action: FormAction): FormContextSt
           [action.payload.formId]: action.payload.responses 
         } 
       };
+    case 'SET_FORM_VERSIONS':
+      return {
+        ...state,
+        formVersions: {
+          ...state.formVersions,
+          [action.payload.formId]: action.payload.versions
+        }
+      };
     case 'ADD_FORM':
       return { ...state, forms: [...state.forms, action.payload] };
     case 'UPDATE_FORM':
@@ -69,6 +110,16 @@ const formReducer = (state: FormContextState, action: FormAction): FormContextSt
           [action.payload.formId]: [...existingResponses, action.payload]
         }
       };
+    case 'UPDATE_RESPONSE':
+      return {
+        ...state,
+        responses: {
+          ...state.responses,
+          [action.payload.formId]: (state.responses[action.payload.formId] || []).map(response =>
+            response.id === action.payload.id ? action.payload : response
+          )
+        }
+      };
     case 'DELETE_RESPONSE':
       return {
         ...state,
@@ -79,6 +130,14 @@ const formReducer = (state: FormContextState, action: FormAction): FormContextSt
           ) || []
         }
       };
+    case 'SET_OFFLINE_FORM_IDS':
+      return { ...state, offlineFormIds: action.payload };
+    case 'SET_PENDING_RESPONSES':
+      return { ...state, pendingResponses: action.payload };
+    case 'SET_FAILED_RESPONSES':
+      return { ...state, failedResponses: action.payload };
+    case 'SET_SYNCING':
+      return { ...state, isSyncing: action.payload };
     case 'SET_LOADING':
       return { ...state, isLoading: action.payload };
     case 'SET_ERROR':
@@ -95,8 +154,15 @@ interface FormContextProps extends FormContextState {
   loadResponses: (formId: string) => Promise<void>;
   saveForm: (form: Omit<Form, 'id' | 'createdAt' | 'updatedAt' | 'version'> & { id?: string }) => Promise<string>;
   deleteForm: (id: string) => Promise<void>;
-  saveResponse: (response: Omit<FormResponse, 'id' | 'createdAt'>) => Promise<string>;
+  shareForm: (id: string, shares: FormShare[]) => Promise<void>;
+  loadFormVersions: (formId: string) => Promise<FormVersion[]>;
+  restoreFormVersion: (formId: string, version: number) => Promise<void>;
+  saveResponse: (response: NewFormResponse) => Promise<SaveResponseResult>;
+  updateResponse: (response: FormResponse) => Promise<FormResponse>;
   deleteResponse: (formId: string, responseId: string) => Promise<void>;
+  syncOutbox: (force?: boolean) => Promise<void>;
+  retryFailedResponse: (responseId: string) => Promise<void>;
+  discardFailedResponse: (responseId: string) => Promise<void>;
   importForms: (formsData: Form[]) => Promise<void>;
   importResponses: (responsesData: FormResponse[]) => Promise<void>;
   exportForms: () => Promise<Form[]>;
@@ -119,31 +185,81 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [state, dispatch] = useReducer(formReducer, initialState);
   const { user } = useAuth();
   const { t } = useTranslation();
-  const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost/api';
+  const syncingRef = useRef(false);
+  const retryTimerRef = useRef<number>();
+  const loadFormControllerRef = useRef<AbortController>();
 
   // Cargar formularios cuando el usuario cambia
   useEffect(() => {
     if (user) {
       loadForms();
+    } else {
+      // No se conservan en memoria los formularios de la sesión anterior
+      dispatch({ type: 'SET_FORMS', payload: [] });
+      dispatch({ type: 'SET_OFFLINE_FORM_IDS', payload: [] });
     }
   }, [user]);
 
+  // Sincroniza la bandeja de salida al iniciar sesión y al recuperar la conexión
+  useEffect(() => {
+    if (!user) {
+      // Las pendientes de la sesión anterior no se muestran ni se reenvían sin su usuario
+      dispatch({ type: 'SET_PENDING_RESPONSES', payload: 0 });
+      dispatch({ type: 'SET_FAILED_RESPONSES', payload: [] });
+      return;
+    }
+
+    syncOutbox(true);
+
+    const handleOnline = () => syncOutbox(true);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.clearTimeout(retryTimerRef.current);
+    };
+  }, [user]);
+
   /**
-   * Carga todos los formularios desde la API
+   * Refleja en el estado qué formularios tienen copia local
+   */
+  const refreshOfflineForms = async () => {
+    if (!user) return;
+
+    const cachedForms = await getCachedForms(user.id);
+    dispatch({ type: 'SET_OFFLINE_FORM_IDS', payload: cachedForms.map(form => form.id) });
+  };
+
+  /**
+   * Carga todos los formularios.
+   * Muestra primero la copia local y la revalida contra la API; sin conexión se queda con la copia.
    */
   const loadForms = async () => {
+    if (!user) return;
+
+    let cachedForms: Form[] = [];
+
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      
-      const response = await fetch(`${API_BASE}/forms`);
-      
-      if (!response.ok) {
-        throw new Error(t('error_loading_forms'));
+
+      cachedForms = await getCachedForms(user.id);
+      if (cachedForms.length > 0) {
+        dispatch({ type: 'SET_FORMS', payload: cachedForms });
+        dispatch({ type: 'SET_OFFLINE_FORM_IDS', payload: cachedForms.map(form => form.id) });
+        dispatch({ type: 'SET_LOADING', payload: false });
       }
       
-      const forms = await response.json();
+      const forms = await formsApi.list();
       dispatch({ type: 'SET_FORMS', payload: forms });
+
+      await cacheForms(user.id, forms);
+      await refreshOfflineForms();
     } catch (error: any) {
+      if (isNetworkError(error) && cachedForms.length > 0) {
+        toast(t('showing_offline_forms'));
+        return;
+      }
+
       console.error('Error loading forms:', error);
       dispatch({ type: 'SET_ERROR', payload: error.message });
       toast.error(t('error_loading_forms'));
@@ -153,21 +269,35 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   /**
-   * Carga un formulario específico por ID
+   * Carga un formulario específico por ID (copia local primero, luego la API)
    */
   const loadForm = async (id: string) => {
+    let cachedForm: Form | undefined;
+
+    // Cancela la carga anterior para que no sobrescriba el formulario actual
+    loadFormControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadFormControllerRef.current = controller;
+
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      
-      const response = await fetch(`${API_BASE}/forms/${id}`);
-      
-      if (!response.ok) {
-        throw new Error(t('form_not_found'));
+
+      cachedForm = user ? await getCachedForm(user.id, id) : undefined;
+      if (cachedForm) {
+        dispatch({ type: 'SET_CURRENT_FORM', payload: cachedForm });
+        dispatch({ type: 'SET_LOADING', payload: false });
       }
       
-      const form = await response.json();
+      const form = await formsApi.get(id, controller.signal);
       dispatch({ type: 'SET_CURRENT_FORM', payload: form });
+
+      if (user) await cacheForm(user.id, form);
+      await refreshOfflineForms();
     } catch (error: any) {
+      if (isAbortError(error) || (isNetworkError(error) && cachedForm)) {
+        return;
+      }
+
       console.error('Error loading form:', error);
       dispatch({ type: 'SET_ERROR', payload: error.message });
       toast.error(t('error_loading_form'));
@@ -183,13 +313,7 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const response = await fetch(`${API_BASE}/forms/${formId}/responses`);
-      
-      if (!response.ok) {
-        throw new Error(t('error_loading_responses'));
-      }
-      
-      const responses = await response.json();
+      const responses = await responsesApi.listByForm(formId);
       dispatch({ type: 'SET_RESPONSES', payload: { formId, responses } });
     } catch (error: any) {
       console.error('Error loading responses:', error);
@@ -211,15 +335,6 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      // Configuración de la petición
-      let url = `${API_BASE}/forms`;
-      let method = 'POST';
-      
-      if (formData.id) {
-        url += `/${formData.id}`;
-        method = 'PUT';
-      }
-      
       // Validación de datos
       if (!formData.name || !formData.questions) {
         throw new Error(t('form_name_and_questions_required'));
@@ -229,26 +344,15 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const body = {
         name: formData.name,
         description: formData.description || '',
-        questions: formData.questions
+        questions: formData.questions,
+        passMark: formData.passMark
       };
       
-      console.log('Enviando formulario a:', url, 'con método:', method);
       console.log('Datos del formulario:', JSON.stringify(body, null, 2));
       
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(body)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || t('error_saving_form'));
-      }
-      
-      const savedForm = await response.json();
+      const savedForm = formData.id
+        ? await formsApi.update(formData.id, body)
+        : await formsApi.create(body);
       
       // Actualiza el estado según si es nuevo o actualización
       if (formData.id) {
@@ -258,6 +362,8 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       
       dispatch({ type: 'SET_CURRENT_FORM', payload: savedForm });
+      if (user) await cacheForm(user.id, savedForm);
+      await refreshOfflineForms();
       toast.success(t('form_saved_successfully'));
       
       return savedForm.id;
@@ -278,15 +384,10 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const response = await fetch(`${API_BASE}/forms/${id}`, {
-        method: 'DELETE'
-      });
-      
-      if (!response.ok) {
-        throw new Error(t('error_deleting_form'));
-      }
-      
+      await formsApi.remove(id);
       dispatch({ type: 'DELETE_FORM', payload: id });
+      if (user) await removeCachedForm(user.id, id);
+      await refreshOfflineForms();
       toast.success(t('form_deleted_successfully'));
     } catch (error: any) {
       console.error('Error deleting form:', error);
@@ -298,40 +399,106 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   /**
-   * Guarda una respuesta de formulario en la API
+   * Reemplaza los usuarios con los que se comparte un formulario y sus permisos
+   */
+  const shareForm = async (id: string, shares: FormShare[]) => {
+    try {
+      const savedForm = await formsApi.setPermissions(id, shares);
+      dispatch({ type: 'UPDATE_FORM', payload: savedForm });
+      if (user) await cacheForm(user.id, savedForm);
+      toast.success(t('form_permissions_saved'));
+    } catch (error: any) {
+      console.error('Error sharing form:', error);
+      dispatch({ type: 'SET_ERROR', payload: error.message });
+      toast.error(t('error_saving_form_permissions'));
+      throw error;
+    }
+  };
+
+  /**
+   * Carga el historial de versiones de un formulario (más reciente primero)
    */
-  const saveResponse = async (responseData: Omit<FormResponse, 'id' | 'createdAt'>) => {
+  const loadFormVersions = async (formId: string) => {
+    try {
+      const versions = await formsApi.versions(formId);
+      dispatch({ type: 'SET_FORM_VERSIONS', payload: { formId, versions } });
+      return versions;
+    } catch (error: any) {
+      console.error('Error loading form versions:', error);
+      toast.error(t('error_loading_form_versions'));
+      return state.formVersions[formId] ?? [];
+    }
+  };
+
+  /**
+   * Restaura una versión anterior como una versión nueva (el historial no se reescribe)
+   */
+  const restoreFormVersion = async (formId: string, version: number) => {
+    try {
+      const restoredForm = await formsApi.restoreVersion(formId, version);
+      dispatch({ type: 'UPDATE_FORM', payload: restoredForm });
+      dispatch({ type: 'SET_CURRENT_FORM', payload: restoredForm });
+      if (user) await cacheForm(user.id, restoredForm);
+      await loadFormVersions(formId);
+      toast.success(t('form_version_restored', { version }));
+    } catch (error: any) {
+      console.error('Error restoring form version:', error);
+      dispatch({ type: 'SET_ERROR', payload: error.message });
+      toast.error(t('error_restoring_form_version'));
+      throw error;
+    }
+  };
+
+  /**
+   * Guarda una respuesta de formulario en la API (subiendo antes sus archivos adjuntos).
+   * Si la API no es alcanzable, la respuesta queda en la bandeja de salida local
+   * y sus archivos en el dispositivo, hasta la siguiente sincronización.
+   * @returns La respuesta guardada e indica si quedó pendiente en la bandeja de salida
+   */
+  const saveResponse = async (responseData: NewFormResponse): Promise<SaveResponseResult> => {
+    // Prepara los datos de la respuesta
+    const responseToSave: FormResponse = {
+      ...responseData,
+      id: responseData.id ?? uuidv4(), // Los borradores se envían con su ID
+      createdAt: Date.now(),
+      userId: responseData.userId ?? user?.id ?? '',
+      username: responseData.username ?? user?.username ?? ''
+    };
+
+    // Adjuntos ya subidos si la API deja de responder a mitad: se encolan subidos, no se vuelven a subir
+    let partialResponse = responseToSave;
+    const partialUploadedIds: string[] = [];
+
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      // Prepara los datos de la respuesta
-      const responseToSave = {
-        ...responseData,
-        id: uuidv4(),
-        createdAt: new Date().toISOString()
-      };
-      
       console.log('Guardando respuesta:', responseToSave);
       
-      const response = await fetch(`${API_BASE}/responses`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(responseToSave)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || t('error_saving_response'));
-      }
-      
-      const savedResponse = await response.json();
-      dispatch({ type: 'ADD_RESPONSE', payload: savedResponse });
+      const { response: uploadedResponse, uploadedIds } = await uploadPendingFiles(
+        responseToSave,
+        async (response, localId) => {
+          partialResponse = response;
+          partialUploadedIds.push(localId);
+        }
+      );
+      const savedResponse = await responsesApi.create(uploadedResponse);
+      await removePendingFiles(uploadedIds);
+      const response = { ...uploadedResponse, ...savedResponse };
+      dispatch({ type: 'ADD_RESPONSE', payload: response });
       toast.success(t('response_saved_successfully'));
       
-      return savedResponse.id;
+      return { response, queued: false };
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        const offlineResponse = { ...partialResponse, updatedOffline: true };
+        await addToOutbox(offlineResponse);
+        await removePendingFiles(partialUploadedIds);
+        dispatch({ type: 'ADD_RESPONSE', payload: offlineResponse });
+        await scheduleOutboxRetry();
+        toast.success(t('response_saved_offline'));
+        return { response: offlineResponse, queued: true };
+      }
+
       console.error('Error saving response:', error);
       dispatch({ type: 'SET_ERROR', payload: error.message });
       toast.error(error.message || t('error_saving_response'));
@@ -342,20 +509,187 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   /**
-   * Elimina una respuesta de formulario de la API
+   * Actualiza los valores de una respuesta existente.
+   * Conserva su ID, fecha de creación y autor; la API registra quién y cuándo la editó.
+   * Si la respuesta aún está en la bandeja de salida, se modifica allí antes de enviarse.
    */
-  const deleteResponse = async (formId: string, responseId: string) => {
+  const updateResponse = async (response: FormResponse) => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      
-      const response = await fetch(`${API_BASE}/responses/${responseId}`, {
-        method: 'DELETE'
+
+      const pendingEntry = user ? await getOutboxEntry(user.id, response.id) : undefined;
+      if (pendingEntry) {
+        const pendingResponse = { ...pendingEntry.response, responses: response.responses };
+        // Si la API la había rechazado, se vuelve a intentar con los cambios
+        await updateOutboxEntry({ ...pendingEntry, response: pendingResponse, failed: false });
+        dispatch({ type: 'UPDATE_RESPONSE', payload: pendingResponse });
+        await scheduleOutboxRetry();
+        toast.success(t('response_updated_successfully'));
+        return pendingResponse;
+      }
+
+      const { response: uploadedResponse, uploadedIds } = await uploadPendingFiles(response);
+      const updatedResponse = await responsesApi.update(response.id, {
+        formVersion: response.formVersion,
+        responses: uploadedResponse.responses
       });
-      
-      if (!response.ok) {
-        throw new Error(t('error_deleting_response'));
+      await removePendingFiles(uploadedIds);
+      dispatch({ type: 'UPDATE_RESPONSE', payload: updatedResponse });
+      toast.success(t('response_updated_successfully'));
+
+      return updatedResponse;
+    } catch (error: any) {
+      console.error('Error updating response:', error);
+      dispatch({ type: 'SET_ERROR', payload: error.message });
+      toast.error(isNetworkError(error) ? t('response_update_requires_connection') : error.message || t('error_updating_response'));
+      throw error;
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+    }
+  };
+
+  /**
+   * Actualiza las pendientes y rechazadas y programa el siguiente reintento
+   * (solo de las respuestas del usuario de la sesión)
+   */
+  const scheduleOutboxRetry = async () => {
+    window.clearTimeout(retryTimerRef.current);
+    if (!user) return;
+
+    const allEntries = await getOutboxEntries(user.id);
+    const entries = allEntries.filter(entry => !entry.failed);
+    const failedResponses = allEntries
+      .filter(entry => entry.failed)
+      .map(entry => ({ response: entry.response, error: entry.lastError ?? '' }));
+    dispatch({ type: 'SET_PENDING_RESPONSES', payload: entries.length });
+    dispatch({ type: 'SET_FAILED_RESPONSES', payload: failedResponses });
+
+    if (entries.length === 0) return;
+
+    const nextAttemptAt = Math.min(...entries.map(entry => entry.nextAttemptAt));
+    retryTimerRef.current = window.setTimeout(
+      () => syncOutbox(),
+      Math.max(nextAttemptAt - Date.now(), 1000)
+    );
+  };
+
+  /**
+   * Reenvía a la API las respuestas guardadas sin conexión por el usuario de la sesión
+   * (con su token: las de otros usuarios del dispositivo esperan a que ellos inicien sesión)
+   * @param force - Ignora la espera entre reintentos (p. ej. al recuperar la conexión)
+   */
+  const syncOutbox = async (force = false) => {
+    if (syncingRef.current || !navigator.onLine || !user) return;
+
+    syncingRef.current = true;
+    dispatch({ type: 'SET_SYNCING', payload: true });
+    let syncedCount = 0;
+
+    try {
+      const entries = await getOutboxEntries(user.id);
+      entries.sort((a, b) => a.response.createdAt - b.response.createdAt);
+
+      for (const entry of entries) {
+        if (entry.failed || (!force && entry.nextAttemptAt > Date.now())) continue;
+
+        // Cada archivo subido se guarda en la entrada para no volver a subirlo si falla el siguiente
+        let latestEntry = entry;
+        try {
+          const { response } = await uploadPendingFiles(entry.response, async (partialResponse, localId) => {
+            latestEntry = { ...latestEntry, response: partialResponse };
+            await updateOutboxEntry(latestEntry);
+            await removePendingFiles([localId]);
+          });
+          await responsesApi.create(response);
+          await removeFromOutbox(entry.id);
+          syncedCount++;
+        } catch (error: any) {
+          // Sesión caducada: se conserva tal cual y se reenvía al volver a iniciar sesión
+          if (error instanceof ApiError && error.status === 401) {
+            await updateOutboxEntry({ ...latestEntry, lastError: error.message });
+            break;
+          }
+
+          const attempts = entry.attempts + 1;
+
+          // Si la API rechaza su contenido, reintentarla daría el mismo error: queda a la espera del usuario
+          if (isRejectedByApi(error)) {
+            await updateOutboxEntry({ ...latestEntry, attempts, failed: true, lastError: error.message });
+            continue;
+          }
+
+          await updateOutboxEntry({
+            ...latestEntry,
+            attempts,
+            nextAttemptAt: Date.now() + getRetryDelay(attempts),
+            lastError: error.message
+          });
+
+          // Sin conexión o con la API caída no tiene sentido seguir con el resto
+          break;
+        }
       }
+    } catch (error) {
+      console.error('Error syncing offline responses:', error);
+    } finally {
+      syncingRef.current = false;
+      dispatch({ type: 'SET_SYNCING', payload: false });
+      await scheduleOutboxRetry();
+    }
+
+    if (syncedCount > 0) {
+      toast.success(t('offline_responses_synced', { count: syncedCount }));
+    }
+  };
+
+  /**
+   * Vuelve a enviar una respuesta que la API había rechazado (p. ej. tras corregir el formulario)
+   */
+  const retryFailedResponse = async (responseId: string) => {
+    if (!user) return;
+
+    const entry = await getOutboxEntry(user.id, responseId);
+    if (!entry) return;
+
+    await updateOutboxEntry({ ...entry, failed: false, attempts: 0, nextAttemptAt: Date.now() });
+    await syncOutbox(true);
+  };
+
+  /**
+   * Descarta una respuesta rechazada por la API junto con sus archivos aún no subidos
+   */
+  const discardFailedResponse = async (responseId: string) => {
+    if (!user) return;
+
+    try {
+      const entry = await getOutboxEntry(user.id, responseId);
+      if (!entry) return;
+
+      const pendingFileIds = entry.response.responses
+        .flatMap(answer => getAttachments(answer.value))
+        .filter(attachment => attachment.pending)
+        .map(attachment => attachment.id);
+
+      await removeFromOutbox(entry.id);
+      await removePendingFiles(pendingFileIds);
+      dispatch({ type: 'DELETE_RESPONSE', payload: { formId: entry.response.formId, responseId } });
+      toast.success(t('response_deleted_successfully'));
+    } catch (error) {
+      console.error('Error discarding failed response:', error);
+      toast.error(t('error_deleting_response'));
+    } finally {
+      await scheduleOutboxRetry();
+    }
+  };
+
+  /**
+   * Elimina una respuesta de formulario de la API
+   */
+  const deleteResponse = async (formId: string, responseId: string) => {
+    try {
+      dispatch({ type: 'SET_LOADING', payload: true });
       
+      await responsesApi.remove(responseId);
       dispatch({ type: 'DELETE_RESPONSE', payload: { formId, responseId } });
       toast.success(t('response_deleted_successfully'));
     } catch (error: any) {
@@ -374,19 +708,7 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const response = await fetch(`${API_BASE}/forms/import`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formsData)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || t('error_importing_forms'));
-      }
-      
+      await formsApi.import(formsData);
       await loadForms();
       toast.success(t('forms_imported_successfully'));
     } catch (error: any) {
@@ -405,18 +727,7 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const response = await fetch(`${API_BASE}/responses/import`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(responsesData)
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || t('error_importing_responses'));
-      }
+      await responsesApi.import(responsesData);
       
       // Recargar respuestas para los formularios afectados
       const formIds = new Set(responsesData.map(r => r.formId));
@@ -441,13 +752,7 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const response = await fetch(`${API_BASE}/forms/export`);
-      
-      if (!response.ok) {
-        throw new Error(t('error_exporting_forms'));
-      }
-      
-      const forms = await response.json();
+      const forms = await formsApi.export();
       toast.success(t('forms_exported_successfully'));
       return forms;
     } catch (error: any) {
@@ -467,13 +772,7 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       
-      const response = await fetch(`${API_BASE}/forms/${formId}/responses/export`);
-      
-      if (!response.ok) {
-        throw new Error(t('error_exporting_responses'));
-      }
-      
-      const responses = await response.json();
+      const responses = await responsesApi.exportByForm(formId);
       toast.success(t('responses_exported_successfully'));
       return responses;
     } catch (error: any) {
@@ -494,8 +793,15 @@ export const FormProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loadResponses,
     saveForm,
     deleteForm,
+    shareForm,
+    loadFormVersions,
+    restoreFormVersion,
     saveResponse,
+    updateResponse,
     deleteResponse,
+    syncOutbox,
+    retryFailedResponse,
+    discardFailedResponse,
     importForms,
     importResponses,
     exportForms,
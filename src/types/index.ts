@@ -1,8 +1,35 @@
 // Tipos de pregunta disponibles
-export type QuestionType = 'text' | 'number' | 'select' | 'multiselect' | 'date' | 'boolean';
+export type QuestionType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'select'
+  | 'multiselect'
+  | 'date'
+  | 'boolean'
+  | 'email'
+  | 'phone'
+  | 'url'
+  | 'rating'
+  | 'matrix'
+  | 'file'
+  | 'location'
+  | 'signature'
+  | 'calculated'
+  | 'section';
 
 // Roles de usuario
-export type UserRole = 'admin' | 'user';
+export type UserRole = 'admin' | 'editor' | 'analyst' | 'respondent';
+
+// Permisos que se pueden conceder sobre un formulario
+export type FormPermission = 'edit' | 'fill' | 'view_responses' | 'edit_responses';
+
+// Permisos concedidos a un usuario sobre un formulario
+export interface FormShare {
+  userId: string;
+  username?: string;
+  permissions: FormPermission[];
+}
 
 // Usuario
 export interface User {
@@ -10,6 +37,8 @@ export interface User {
   username: string;
   password: string;
   role: UserRole;
+  active?: boolean;
+  createdAt?: number;
 }
 
 // Opción para preguntas de selección
@@ -19,10 +48,116 @@ export interface Option {
   subQuestions?: Question[];
 }
 
+// Operadores de una condición de visibilidad
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'greater_or_equal'
+  | 'less_than'
+  | 'less_or_equal'
+  | 'before'
+  | 'after'
+  | 'is_true'
+  | 'is_false'
+  | 'is_empty'
+  | 'is_not_empty';
+
+// Condición sobre la respuesta a otra pregunta
+export interface Condition {
+  questionId: string;
+  operator: ConditionOperator;
+  value?: string | number | boolean;
+}
+
+// Grupo de condiciones combinadas con Y / O (se pueden anidar)
+export interface ConditionGroup {
+  combinator: 'and' | 'or';
+  conditions: Array<Condition | ConditionGroup>;
+}
+
+// Regla de visibilidad de una pregunta
+export interface VisibilityRule {
+  action: 'show' | 'hide';
+  when: ConditionGroup;
+}
+
+// Configuración de una escala de valoración (1…max), p. ej. Likert
+export interface RatingScale {
+  max: number; // Valor máximo de la escala (el mínimo es 1)
+  minLabel?: string; // Texto del extremo inferior (p. ej. "Muy en desacuerdo")
+  maxLabel?: string; // Texto del extremo superior (p. ej. "Muy de acuerdo")
+}
+
+// Configuración de una pregunta en matriz: la misma escala (columnas) para varios elementos (filas)
+export interface MatrixConfig {
+  rows: Option[]; // Elementos a evaluar
+  columns: Option[]; // Opciones comunes a todas las filas
+  multiple?: boolean; // Permite marcar varias columnas por fila
+}
+
+// Respuesta a una matriz: ID de columna (o columnas, si es múltiple) por ID de fila
+export type MatrixAnswer = Record<string, string | string[]>;
+
+// Restricciones de una pregunta de archivos o fotos
+export interface FileUploadConfig {
+  accept: string[]; // Tipos MIME admitidos (p. ej. `image/*`, `application/pdf`); vacío = cualquiera
+  maxSizeMb: number; // Tamaño máximo por archivo
+  maxFiles: number; // Número máximo de archivos
+}
+
+// Archivo adjunto a una respuesta
+export interface FileAttachment {
+  id: string;
+  name: string;
+  type: string; // Tipo MIME
+  size: number; // Bytes
+  url?: string; // Ruta de descarga firmada (relativa a la API); no existe hasta subirlo
+  pending?: boolean; // Guardado solo en el dispositivo, pendiente de subir
+}
+
+// Ubicación capturada en una respuesta (grados decimales WGS84)
+export interface LocationAnswer {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Precisión en metros (solo si la dio el GPS del dispositivo)
+}
+
+// Fórmula de un campo calculado (p. ej. `{q002} / ({q003} / 100) ^ 2`)
+export interface CalculationConfig {
+  expression: string; // Expresión sobre las respuestas a otras preguntas, referidas por su código
+  decimals?: number; // Decimales del resultado (2 si no se indica)
+}
+
+// Puntuación de una pregunta de evaluación (select, multiselect y boolean)
+export interface QuestionScoring {
+  points: Record<string, number>; // Puntos por ID de opción (`true`/`false` en las preguntas Sí/No)
+  correct: string[]; // Opciones correctas (en selección múltiple, el conjunto exacto a marcar)
+}
+
+// Reglas de validación de una pregunta (según su tipo)
+export interface QuestionValidation {
+  min?: number; // number: valor mínimo
+  max?: number; // number: valor máximo
+  minLength?: number; // text: longitud mínima
+  maxLength?: number; // text: longitud máxima
+  pattern?: string; // text: expresión regular que debe cumplir
+  minDate?: string; // date: fecha mínima (yyyy-mm-dd)
+  maxDate?: string; // date: fecha máxima (yyyy-mm-dd)
+  minSelections?: number; // multiselect: opciones mínimas
+  maxSelections?: number; // multiselect: opciones máximas
+  message?: string; // Mensaje de error personalizado (sustituye al predeterminado)
+}
+
 // Estructura de una pregunta
+// (los elementos de tipo `section` no son preguntas: separan el formulario en páginas)
 export interface Question {
-  id: string;
-  text: string;
+  id: string; // Identificador estable: no cambia al reordenar ni al guardar
+  code?: string; // Código legible para mostrar y para Power BI (p. ej. q001)
+  text: string; // En las secciones, el título de la página
+  description?: string; // Solo en secciones: texto introductorio de la página
   type: QuestionType;
   required: boolean;
   options?: Option[];
@@ -30,6 +165,13 @@ export interface Question {
   powerBIFieldName?: string;
   parentId?: string;
   parentOptionId?: string;
+  visibility?: VisibilityRule; // Mostrar/ocultar según respuestas a otras preguntas
+  validation?: QuestionValidation; // Reglas adicionales a `required`
+  rating?: RatingScale; // Solo para preguntas de tipo `rating`
+  matrix?: MatrixConfig; // Solo para preguntas de tipo `matrix`
+  file?: FileUploadConfig; // Solo para preguntas de tipo `file`
+  calculation?: CalculationConfig; // Solo para preguntas de tipo `calculated`
+  scoring?: QuestionScoring; // Solo en evaluaciones (select, multiselect y boolean)
 }
 
 // Estructura de un formulario
@@ -41,24 +183,109 @@ export interface Form {
   createdAt: number;
   updatedAt: number;
   version: number;
+  createdBy?: string;
+  permissions?: FormShare[];
+  passMark?: number; // Porcentaje de la puntuación máxima necesario para aprobar (solo evaluaciones)
+}
+
+// Versión inmutable de la definición de un formulario (se guarda en cada guardado)
+export interface FormVersion {
+  formId: string;
+  version: number;
+  name: string;
+  description: string;
+  questions: Question[];
+  passMark?: number;
+  createdBy?: string;
+  createdByUsername?: string;
+  createdAt: number;
 }
 
 // Respuesta a una pregunta individual
 export interface QuestionResponse {
   questionId: string;
-  value: string | string[] | number | boolean | null;
+  value: string | string[] | number | boolean | MatrixAnswer | FileAttachment[] | LocationAnswer | null;
 }
 
+// Puntuación de una respuesta a una evaluación
+export interface ResponseScore {
+  points: number; // Puntos obtenidos
+  maxPoints: number; // Puntos posibles en las preguntas respondidas o que se muestran siempre
+  passed?: boolean; // Solo si el formulario tiene nota mínima
+}
+
+// Estado de una respuesta guardada en la API: los borradores aún no se han enviado
+export type ResponseStatus = 'draft' | 'submitted';
+
 // Respuesta completa a un formulario
 export interface FormResponse {
   id: string;
   formId: string;
   formVersion: number;
+  status?: ResponseStatus; // Enviada si se omite
   responses: QuestionResponse[];
   createdAt: number;
   updatedOffline: boolean;
   userId: string;
   username: string;
+  updatedAt?: number;
+  updatedBy?: string;
+  updatedByUsername?: string;
+  score?: ResponseScore; // Solo en evaluaciones
+}
+
+// Datos necesarios para crear una respuesta (el autor se toma de la sesión si no se indica)
+export type NewFormResponse = Omit<
+  FormResponse,
+  'id' | 'createdAt' | 'userId' | 'username' | 'updatedAt' | 'updatedBy' | 'updatedByUsername'
+> & Partial<Pick<FormResponse, 'id' | 'userId' | 'username'>>;
+
+// Resultado de enviar una respuesta: la guardada en la API o, sin conexión, la que quedó en la bandeja de salida
+export interface SaveResponseResult {
+  response: FormResponse;
+  queued: boolean;
+}
+
+// Respuesta de la bandeja de salida que la API rechazó: no se reintenta sola
+export interface FailedResponse {
+  response: FormResponse;
+  error: string;
+}
+
+// Respuesta a medio completar, autoguardada en el dispositivo (y en la API si se pide)
+export interface ResponseDraft {
+  id: string; // ID que recibirá la respuesta al enviarse (el mismo del borrador en la API)
+  formId: string;
+  formName: string; // Para listar los borradores sin cargar cada formulario
+  formVersion: number;
+  userId: string;
+  answers: Record<string, QuestionResponse['value']>;
+  pageIndex: number; // Página en la que se dejó
+  createdAt: number;
+  updatedAt: number;
+  serverSavedAt?: number; // Última copia guardada en la API
+}
+
+// Cambio de un campo registrado en la auditoría
+// (`field` es el ID de la pregunta en respuestas; `name`, `description`, `question:<id>` (pregunta
+// añadida o eliminada) o `question:<id>:<propiedad>` en formularios)
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Evento de auditoría sobre un formulario o una respuesta
+export interface AuditEvent {
+  id: string;
+  entityType: 'form' | 'response';
+  entityId: string;
+  formId: string;
+  action: 'create' | 'update' | 'delete';
+  userId: string;
+  username: string;
+  changes: AuditChange[];
+  createdAt: number;
 }
 
 // Estado del contexto para gestión de formularios
@@ -66,6 +293,11 @@ export interface FormContextState {
   forms: Form[];
   currentForm: Form | null;
   responses: Record<string, FormResponse[]>;
+  formVersions: Record<string, FormVersion[]>;
+  offlineFormIds: string[];
+  pendingResponses: number;
+  failedResponses: FailedResponse[];
+  isSyncing: boolean;
   isLoading: boolean;
   error: string | null;
 }
@@ -73,6 +305,7 @@ export interface FormContextState {
 // Estado del contexto de autenticación
 export interface AuthContextState {
   user: User | null;
+  expiresAt: number | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
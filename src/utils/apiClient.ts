@@ -0,0 +1,536 @@
+import {
+  AuditChange,
+  AuditEvent,
+  FileAttachment,
+  Form,
+  FormResponse,
+  FormShare,
+  FormVersion,
+  Question,
+  QuestionResponse,
+  ResponseDraft,
+  ResponseScore,
+  ResponseStatus,
+  User,
+  UserRole
+} from '../types';
+
+// ======================
+// CONFIGURACIÓN
+// ======================
+
+export const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost/api';
+
+// Tiempo máximo de espera por petición (ms)
+const DEFAULT_TIMEOUT = 15000;
+
+// Tiempo máximo de espera para subir un archivo (ms)
+const UPLOAD_TIMEOUT = 120000;
+
+/**
+ * Error de una llamada a la API.
+ * `status` es 0 cuando la API no fue alcanzable (sin red o tiempo agotado).
+ */
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+// ======================
+// FILAS DE LA API
+// ======================
+// Filas tal como las devuelve la API PHP (snake_case). Se aceptan también los nombres en
+// camelCase; los números pueden llegar como texto (MySQL) y las fechas como texto o en ms.
+
+type ApiNumber = number | string;
+type ApiTimestamp = number | string | null;
+
+// Puntuación calculada por la API (solo en evaluaciones)
+interface ScoreRow {
+  score?: ResponseScore | ApiNumber | null;
+  maxScore?: ApiNumber | null;
+  max_score?: ApiNumber | null;
+  passed?: boolean | ApiNumber | null;
+}
+
+interface FormRow {
+  id: string;
+  name: string;
+  description?: string | null;
+  questions?: Question[] | null;
+  version?: ApiNumber;
+  created_by: string;
+  createdBy?: string;
+  created_at?: ApiTimestamp;
+  createdAt?: ApiTimestamp;
+  updated_at?: ApiTimestamp;
+  updatedAt?: ApiTimestamp;
+  permissions?: FormShare[];
+  pass_mark?: ApiNumber | null;
+  passMark?: ApiNumber | null;
+}
+
+interface FormVersionRow {
+  form_id: string;
+  formId?: string;
+  version: ApiNumber;
+  name: string;
+  description?: string | null;
+  questions?: Question[] | null;
+  pass_mark?: ApiNumber | null;
+  passMark?: ApiNumber | null;
+  created_by?: string | null;
+  createdBy?: string | null;
+  created_by_username?: string | null;
+  createdByUsername?: string | null;
+  created_at?: ApiTimestamp;
+  createdAt?: ApiTimestamp;
+}
+
+interface ResponseRow extends ScoreRow {
+  id: string;
+  form_id: string;
+  formId?: string;
+  form_version?: ApiNumber;
+  formVersion?: ApiNumber;
+  status?: ResponseStatus;
+  responses?: QuestionResponse[] | null;
+  created_at?: ApiTimestamp;
+  createdAt?: ApiTimestamp;
+  updated_offline?: boolean | ApiNumber;
+  updatedOffline?: boolean | ApiNumber;
+  user_id?: string;
+  userId?: string;
+  username?: string | null;
+  updated_at?: ApiTimestamp;
+  updatedAt?: ApiTimestamp;
+  updated_by?: string | null;
+  updatedBy?: string | null;
+  updated_by_username?: string | null;
+  updatedByUsername?: string | null;
+}
+
+// Borrador: respuesta con estado `draft` y el nombre de su formulario
+interface DraftRow extends ResponseRow {
+  form_name?: string | null;
+  formName?: string | null;
+}
+
+interface FileRow {
+  id: string;
+  name: string;
+  type?: string;
+  mime_type?: string;
+  size?: ApiNumber;
+  url: string;
+}
+
+interface UserRow {
+  id: string;
+  username: string;
+  role: UserRole;
+  active?: boolean | ApiNumber;
+  created_at?: ApiTimestamp;
+  createdAt?: ApiTimestamp;
+}
+
+interface AuditRow {
+  id: string;
+  entity_type: AuditEvent['entityType'];
+  entityType?: AuditEvent['entityType'];
+  entity_id: string;
+  entityId?: string;
+  form_id: string;
+  formId?: string;
+  action: AuditEvent['action'];
+  user_id: string;
+  userId?: string;
+  username?: string | null;
+  changes?: AuditChange[] | null;
+  created_at?: ApiTimestamp;
+  createdAt?: ApiTimestamp;
+}
+
+// Acción a ejecutar cuando la API rechaza el token de sesión (401)
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Registra la acción que se ejecuta ante un 401 de una petición autenticada
+ */
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+// ======================
+// PETICIÓN BASE
+// ======================
+
+/**
+ * Decodifica el cuerpo de la respuesta (JSON si es posible)
+ */
+const parseBody = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Realiza una petición a la API con cabecera de autenticación, tiempo límite y cancelación
+ * @param path - Ruta relativa a API_BASE (p. ej. `/forms`)
+ * @throws ApiError si la API no responde o devuelve un estado de error;
+ *         DOMException `AbortError` si la petición se canceló con `signal`
+ */
+export const apiRequest = async <T>(path: string, options: RequestOptions = {}): Promise<T> => {
+  const { method = 'GET', body, signal, timeout = DEFAULT_TIMEOUT } = options;
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timeoutId = window.setTimeout(abort, timeout);
+  signal?.addEventListener('abort', abort);
+
+  // Los FormData (subida de archivos) se envían tal cual: el navegador fija el boundary
+  const isFormData = body instanceof FormData;
+
+  const headers: Record<string, string> = {};
+  if (body !== undefined && !isFormData) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const token = localStorage.getItem('auth_token');
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      method,
+      headers,
+      body: isFormData ? body : body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new ApiError(controller.signal.aborted ? 'Request timed out' : 'Network error', 0);
+  } finally {
+    window.clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+
+  const data = await parseBody(response);
+
+  if (response.status === 401 && token) {
+    unauthorizedHandler?.();
+  }
+
+  if (!response.ok) {
+    const message = (data && typeof data === 'object' && data.message) || response.statusText || `HTTP ${response.status}`;
+    throw new ApiError(message, response.status, data);
+  }
+
+  return data as T;
+};
+
+/**
+ * Indica si un error proviene de una API inalcanzable
+ */
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine || (error instanceof ApiError && error.isNetworkError);
+
+// Estados con los que la API rechaza el contenido de una petición: reenviarla daría el mismo error
+// (los 5xx, 408, 429 y 401 son transitorios)
+const REJECTED_STATUSES = [400, 403, 404, 409, 413, 422];
+
+/**
+ * Indica si la API rechazó una petición por su contenido o por los permisos del usuario
+ */
+export const isRejectedByApi = (error: unknown) =>
+  error instanceof ApiError && REJECTED_STATUSES.includes(error.status);
+
+/**
+ * Indica si un error proviene de una petición cancelada
+ */
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// ======================
+// NORMALIZACIÓN DE DATOS
+// ======================
+
+const toTimestamp = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value) {
+    return /^\d+$/.test(value) ? Number(value) : new Date(value).getTime();
+  }
+  return 0;
+};
+
+// Nota mínima (MySQL devuelve los DECIMAL como texto)
+const toPassMark = (value: unknown) =>
+  value === null || value === undefined || value === '' ? undefined : Number(value);
+
+// Puntuación de una respuesta (solo en evaluaciones)
+const toResponseScore = (row: ScoreRow): ResponseScore | undefined => {
+  if (row.score && typeof row.score === 'object') return row.score;
+  if (row.score === null || row.score === undefined) return undefined;
+
+  const passed = row.passed ?? null;
+  return {
+    points: Number(row.score),
+    maxPoints: Number(row.maxScore ?? row.max_score ?? 0),
+    ...(passed !== null && { passed: Boolean(Number(passed)) })
+  };
+};
+
+const toForm = (row: FormRow): Form => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? '',
+  questions: row.questions ?? [],
+  createdAt: toTimestamp(row.createdAt ?? row.created_at),
+  updatedAt: toTimestamp(row.updatedAt ?? row.updated_at),
+  version: Number(row.version ?? 1),
+  createdBy: row.createdBy ?? row.created_by,
+  permissions: row.permissions ?? [],
+  passMark: toPassMark(row.passMark ?? row.pass_mark)
+});
+
+const toFormVersion = (row: FormVersionRow): FormVersion => ({
+  formId: row.formId ?? row.form_id,
+  version: Number(row.version),
+  name: row.name,
+  description: row.description ?? '',
+  questions: row.questions ?? [],
+  passMark: toPassMark(row.passMark ?? row.pass_mark),
+  createdBy: row.createdBy ?? row.created_by ?? undefined,
+  createdByUsername: row.createdByUsername ?? row.created_by_username ?? undefined,
+  createdAt: toTimestamp(row.createdAt ?? row.created_at)
+});
+
+const toFormResponse = (row: ResponseRow): FormResponse => ({
+  id: row.id,
+  formId: row.formId ?? row.form_id,
+  formVersion: Number(row.formVersion ?? row.form_version ?? 1),
+  status: row.status ?? 'submitted',
+  responses: row.responses ?? [],
+  createdAt: toTimestamp(row.createdAt ?? row.created_at),
+  updatedOffline: Boolean(row.updatedOffline ?? row.updated_offline),
+  userId: row.userId ?? row.user_id ?? '',
+  username: row.username ?? '',
+  updatedAt: (row.updatedAt ?? row.updated_at) ? toTimestamp(row.updatedAt ?? row.updated_at) : undefined,
+  updatedBy: row.updatedBy ?? row.updated_by ?? undefined,
+  updatedByUsername: row.updatedByUsername ?? row.updated_by_username ?? undefined,
+  score: toResponseScore(row)
+});
+
+// Los borradores de la API se guardan como respuestas con estado `draft`
+const toResponseDraft = (row: DraftRow): ResponseDraft => {
+  const savedAt = toTimestamp(row.updatedAt ?? row.updated_at ?? row.createdAt ?? row.created_at);
+  return {
+    id: row.id,
+    formId: row.formId ?? row.form_id,
+    formName: row.formName ?? row.form_name ?? '',
+    formVersion: Number(row.formVersion ?? row.form_version ?? 1),
+    userId: row.userId ?? row.user_id ?? '',
+    answers: Object.fromEntries(
+      (row.responses ?? []).map(response => [response.questionId, response.value])
+    ),
+    pageIndex: 0,
+    createdAt: toTimestamp(row.createdAt ?? row.created_at),
+    updatedAt: savedAt,
+    serverSavedAt: savedAt
+  };
+};
+
+const toFileAttachment = (row: FileRow): FileAttachment => ({
+  id: row.id,
+  name: row.name,
+  type: row.type ?? row.mime_type ?? '',
+  size: Number(row.size ?? 0),
+  url: row.url
+});
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  username: row.username,
+  password: '',
+  role: row.role,
+  active: row.active === undefined ? true : Boolean(row.active),
+  createdAt: toTimestamp(row.createdAt ?? row.created_at)
+});
+
+const toAuditEvent = (row: AuditRow): AuditEvent => ({
+  id: row.id,
+  entityType: row.entityType ?? row.entity_type,
+  entityId: row.entityId ?? row.entity_id,
+  formId: row.formId ?? row.form_id,
+  action: row.action,
+  userId: row.userId ?? row.user_id,
+  username: row.username ?? '',
+  changes: row.changes ?? [],
+  createdAt: toTimestamp(row.createdAt ?? row.created_at)
+});
+
+// ======================
+// RECURSOS
+// ======================
+
+// Datos editables de un formulario
+export type FormInput = Pick<Form, 'name' | 'description' | 'questions' | 'passMark'>;
+
+export const formsApi = {
+  list: (signal?: AbortSignal) =>
+    apiRequest<FormRow[]>('/forms', { signal }).then(rows => rows.map(toForm)),
+
+  get: (id: string, signal?: AbortSignal) =>
+    apiRequest<FormRow>(`/forms/${id}`, { signal }).then(toForm),
+
+  create: (form: FormInput) =>
+    apiRequest<FormRow>('/forms', { method: 'POST', body: form }).then(toForm),
+
+  update: (id: string, form: FormInput) =>
+    apiRequest<FormRow>(`/forms/${id}`, { method: 'PUT', body: form }).then(toForm),
+
+  remove: (id: string) =>
+    apiRequest<void>(`/forms/${id}`, { method: 'DELETE' }),
+
+  import: (forms: Form[]) =>
+    apiRequest<void>('/forms/import', { method: 'POST', body: forms }),
+
+  export: () =>
+    apiRequest<FormRow[]>('/forms/export').then(rows => rows.map(toForm)),
+
+  setPermissions: (id: string, shares: FormShare[]) =>
+    apiRequest<FormRow>(`/forms/${id}/permissions`, { method: 'PUT', body: shares }).then(toForm),
+
+  versions: (id: string, signal?: AbortSignal) =>
+    apiRequest<FormVersionRow[]>(`/forms/${id}/versions`, { signal }).then(rows => rows.map(toFormVersion)),
+
+  restoreVersion: (id: string, version: number) =>
+    apiRequest<FormRow>(`/forms/${id}/versions/${version}/restore`, { method: 'POST' }).then(toForm)
+};
+
+export const responsesApi = {
+  list: (signal?: AbortSignal) =>
+    apiRequest<ResponseRow[]>('/responses', { signal }).then(rows => rows.map(toFormResponse)),
+
+  listByForm: (formId: string, signal?: AbortSignal) =>
+    apiRequest<ResponseRow[]>(`/forms/${formId}/responses`, { signal }).then(rows => rows.map(toFormResponse)),
+
+  // La API devuelve la puntuación que calculó (quien solo responde no recibe la de las preguntas)
+  create: (response: FormResponse) =>
+    apiRequest<ScoreRow & { id: string }>('/responses', { method: 'POST', body: response })
+      .then((row): Pick<FormResponse, 'id' | 'score'> => ({ id: row.id, score: toResponseScore(row) })),
+
+  update: (id: string, response: Pick<FormResponse, 'formVersion' | 'responses'>) =>
+    apiRequest<ResponseRow>(`/responses/${id}`, { method: 'PUT', body: response }).then(toFormResponse),
+
+  remove: (id: string) =>
+    apiRequest<void>(`/responses/${id}`, { method: 'DELETE' }),
+
+  import: (responses: FormResponse[]) =>
+    apiRequest<void>('/responses/import', { method: 'POST', body: responses }),
+
+  // Borradores del usuario de la sesión (el ID del borrador es el de la respuesta al enviarse)
+  drafts: (signal?: AbortSignal) =>
+    apiRequest<DraftRow[]>('/responses/drafts', { signal }).then(rows => rows.map(toResponseDraft)),
+
+  saveDraft: (id: string, draft: Pick<FormResponse, 'formId' | 'formVersion' | 'responses'>) =>
+    apiRequest<DraftRow>(`/responses/drafts/${id}`, { method: 'PUT', body: draft }).then(toResponseDraft),
+
+  exportByForm: (formId: string) =>
+    apiRequest<ResponseRow[]>(`/forms/${formId}/responses/export`).then(rows => rows.map(toFormResponse))
+};
+
+export const filesApi = {
+  upload: (formId: string, questionId: string, file: Blob, name: string) => {
+    const body = new FormData();
+    body.append('formId', formId);
+    body.append('questionId', questionId);
+    body.append('file', file, name);
+
+    return apiRequest<FileRow>('/files', { method: 'POST', body, timeout: UPLOAD_TIMEOUT }).then(toFileAttachment);
+  }
+};
+
+// Respuesta de inicio de sesión: datos públicos del usuario y token firmado
+interface SessionPayload {
+  user: UserRow;
+  token: string;
+}
+
+export const authApi = {
+  login: (username: string, password: string) =>
+    apiRequest<SessionPayload>('/auth/login', { method: 'POST', body: { username, password } })
+      .then(data => ({ ...data, user: toUser(data.user) })),
+
+  register: (username: string, password: string, role: UserRole) =>
+    apiRequest<SessionPayload>('/auth/register', { method: 'POST', body: { username, password, role } })
+      .then(data => ({ ...data, user: toUser(data.user) })),
+
+  logout: () =>
+    apiRequest<void>('/auth/logout', { method: 'POST' })
+};
+
+export const usersApi = {
+  list: (signal?: AbortSignal) =>
+    apiRequest<UserRow[]>('/users', { signal }).then(rows => rows.map(toUser)),
+
+  create: (user: Omit<User, 'id'>) =>
+    apiRequest<UserRow>('/users', { method: 'POST', body: user }).then(toUser),
+
+  update: (id: string, user: Partial<User>) =>
+    apiRequest<UserRow>(`/users/${id}`, { method: 'PUT', body: user }).then(toUser),
+
+  remove: (id: string) =>
+    apiRequest<void>(`/users/${id}`, { method: 'DELETE' })
+};
+
+// Filtros del registro de auditoría (fechas como timestamp en ms)
+export interface AuditFilters {
+  userId?: string;
+  formId?: string;
+  entityType?: AuditEvent['entityType'];
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export const auditApi = {
+  list: (filters: AuditFilters = {}, signal?: AbortSignal) => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const query = params.toString();
+
+    return apiRequest<AuditRow[]>(`/audit${query ? `?${query}` : ''}`, { signal })
+      .then(rows => rows.map(toAuditEvent));
+  },
+
+  responseHistory: (responseId: string, signal?: AbortSignal) =>
+    apiRequest<AuditRow[]>(`/responses/${responseId}/history`, { signal }).then(rows => rows.map(toAuditEvent))
+};
@@ -0,0 +1,336 @@
+import {
+  Condition,
+  ConditionGroup,
+  ConditionOperator,
+  Question,
+  QuestionResponse,
+  QuestionType
+} from '../types';
+
+// ======================
+// TIPOS
+// ======================
+
+// Respuestas indexadas por ID de pregunta
+export type AnswerMap = Record<string, QuestionResponse['value'] | undefined>;
+
+const TEXT_OPERATORS: ConditionOperator[] = ['equals', 'not_equals', 'contains', 'not_contains', 'is_empty', 'is_not_empty'];
+const NUMBER_OPERATORS: ConditionOperator[] = [
+  'equals', 'not_equals', 'greater_than', 'greater_or_equal', 'less_than', 'less_or_equal', 'is_empty', 'is_not_empty'
+];
+
+// Operadores que tienen sentido para cada tipo de pregunta
+export const OPERATORS_BY_TYPE: Record<QuestionType, ConditionOperator[]> = {
+  text: TEXT_OPERATORS,
+  textarea: TEXT_OPERATORS,
+  email: TEXT_OPERATORS,
+  phone: TEXT_OPERATORS,
+  url: TEXT_OPERATORS,
+  number: NUMBER_OPERATORS,
+  rating: NUMBER_OPERATORS,
+  calculated: NUMBER_OPERATORS,
+  select: ['equals', 'not_equals', 'is_empty', 'is_not_empty'],
+  multiselect: ['contains', 'not_contains', 'is_empty', 'is_not_empty'],
+  date: ['equals', 'before', 'after', 'is_empty', 'is_not_empty'],
+  boolean: ['is_true', 'is_false', 'is_empty', 'is_not_empty'],
+  matrix: ['is_empty', 'is_not_empty'],
+  file: ['is_empty', 'is_not_empty'],
+  location: ['is_empty', 'is_not_empty'],
+  signature: ['is_empty', 'is_not_empty'],
+  section: []
+};
+
+// Operadores que no necesitan un valor de comparación
+export const UNARY_OPERATORS: ConditionOperator[] = ['is_true', 'is_false', 'is_empty', 'is_not_empty'];
+
+/**
+ * Indica si un elemento de un grupo es a su vez un grupo
+ */
+export const isConditionGroup = (item: Condition | ConditionGroup): item is ConditionGroup =>
+  'combinator' in item;
+
+// ======================
+// NORMALIZACIÓN
+// ======================
+
+/**
+ * Lista plana de preguntas en orden de presentación:
+ * cada pregunta seguida de sus subpreguntas (a cualquier profundidad).
+ * Las subpreguntas anidadas en opciones reciben `parentId`/`parentOptionId`.
+ */
+export const orderQuestions = (questions: Question[]): Question[] => {
+  const byId = new Map<string, Question>();
+
+  const collect = (list: Question[], parent?: Question, optionId?: string) => {
+    for (const question of list) {
+      if (byId.has(question.id)) continue;
+
+      byId.set(
+        question.id,
+        parent && !question.parentId ? { ...question, parentId: parent.id, parentOptionId: optionId } : question
+      );
+      for (const option of question.options ?? []) {
+        collect(option.subQuestions ?? [], question, option.id);
+      }
+    }
+  };
+  collect(questions);
+
+  const all = Array.from(byId.values());
+  const childrenOf = new Map<string, Question[]>();
+  all.forEach(question => {
+    if (question.parentId && byId.has(question.parentId)) {
+      childrenOf.set(question.parentId, [...(childrenOf.get(question.parentId) ?? []), question]);
+    }
+  });
+
+  const ordered: Question[] = [];
+  const placed = new Set<string>();
+  const place = (question: Question) => {
+    if (placed.has(question.id)) return;
+    placed.add(question.id);
+    ordered.push(question);
+    (childrenOf.get(question.id) ?? []).forEach(place);
+  };
+
+  // Raíces: sin padre o con un padre que ya no existe
+  all.filter(q => !q.parentId || !byId.has(q.parentId)).forEach(place);
+  // Restos de ciclos entre padres (datos corruptos): al final
+  all.forEach(place);
+
+  return ordered;
+};
+
+/**
+ * Convierte una lista de respuestas en un mapa {questionId: valor}
+ */
+export const toAnswerMap = (responses: QuestionResponse[]): AnswerMap =>
+  responses.reduce<AnswerMap>((map, response) => {
+    map[response.questionId] = response.value;
+    return map;
+  }, {});
+
+// ======================
+// EVALUACIÓN
+// ======================
+
+/**
+ * Indica si un valor de respuesta está vacío
+ */
+export const isEmptyAnswer = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  // Matriz o ubicación: vacía si ninguno de sus campos tiene valor
+  (typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isEmptyAnswer));
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isNaN(number) ? null : number;
+};
+
+const toTime = (value: unknown) => {
+  const time = Date.parse(String(value));
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Compara dos valores numéricos o de fecha; `false` si alguno no es comparable
+ */
+const compare = (
+  answer: unknown,
+  expected: unknown,
+  parse: (value: unknown) => number | null,
+  test: (a: number, b: number) => boolean
+) => {
+  const a = parse(answer);
+  const b = parse(expected);
+  return a !== null && b !== null && test(a, b);
+};
+
+/**
+ * Evalúa una condición contra el valor de la pregunta referenciada
+ */
+export const evaluateCondition = (condition: Condition, answer: AnswerMap[string]): boolean => {
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return isEmptyAnswer(answer);
+    case 'is_not_empty':
+      return !isEmptyAnswer(answer);
+    case 'is_true':
+      return answer === true;
+    case 'is_false':
+      return answer === false;
+    case 'equals':
+      if (Array.isArray(answer)) return answer.length === 1 && answer[0] === expected;
+      if (typeof answer === 'number' || typeof expected === 'number') {
+        return compare(answer, expected, toNumber, (a, b) => a === b);
+      }
+      return !isEmptyAnswer(answer) && String(answer) === String(expected);
+    case 'not_equals':
+      return !evaluateCondition({ ...condition, operator: 'equals' }, answer);
+    case 'contains':
+      if (Array.isArray(answer)) return (answer as string[]).includes(String(expected));
+      return !isEmptyAnswer(answer) && String(answer).toLowerCase().includes(String(expected ?? '').toLowerCase());
+    case 'not_contains':
+      return !evaluateCondition({ ...condition, operator: 'contains' }, answer);
+    case 'greater_than':
+      return compare(answer, expected, toNumber, (a, b) => a > b);
+    case 'greater_or_equal':
+      return compare(answer, expected, toNumber, (a, b) => a >= b);
+    case 'less_than':
+      return compare(answer, expected, toNumber, (a, b) => a < b);
+    case 'less_or_equal':
+      return compare(answer, expected, toNumber, (a, b) => a <= b);
+    case 'before':
+      return compare(answer, expected, toTime, (a, b) => a < b);
+    case 'after':
+      return compare(answer, expected, toTime, (a, b) => a > b);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evalúa un grupo de condiciones (anidado a cualquier profundidad).
+ * Un grupo vacío se considera verdadero.
+ * @param getAnswer - Valor efectivo de una pregunta (vacío si está oculta)
+ */
+export const evaluateGroup = (
+  group: ConditionGroup,
+  getAnswer: (questionId: string) => AnswerMap[string]
+): boolean => {
+  if (group.conditions.length === 0) return true;
+
+  const results = group.conditions.map(item =>
+    isConditionGroup(item) ? evaluateGroup(item, getAnswer) : evaluateCondition(item, getAnswer(item.questionId))
+  );
+
+  return group.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+};
+
+/**
+ * Sección a la que pertenece cada pregunta principal (la última sección anterior a ella)
+ * @param ordered - Preguntas en orden de presentación
+ */
+const getSectionIds = (ordered: Question[]): Map<string, string> => {
+  const sectionOf = new Map<string, string>();
+  let sectionId: string | undefined;
+
+  ordered.forEach(question => {
+    if (question.parentId) return;
+    if (question.type === 'section') {
+      sectionId = question.id;
+    } else if (sectionId) {
+      sectionOf.set(question.id, sectionId);
+    }
+  });
+
+  return sectionOf;
+};
+
+/**
+ * IDs de las preguntas que se muestran siempre, respondan lo que respondan:
+ * principales, sin regla de visibilidad y en una sección sin regla.
+ * Es el criterio de la API para exigir las obligatorias y puntuar.
+ */
+export const getAlwaysShownIds = (questions: Question[]): Set<string> => {
+  const ordered = orderQuestions(questions);
+  const byId = new Map(ordered.map(question => [question.id, question]));
+  const sectionOf = getSectionIds(ordered);
+
+  return new Set(
+    ordered
+      .filter(question => {
+        const section = byId.get(sectionOf.get(question.id) ?? '');
+        return !question.parentId && !question.visibility && !section?.visibility;
+      })
+      .map(question => question.id)
+  );
+};
+
+/**
+ * IDs de las preguntas visibles para un conjunto de respuestas.
+ *
+ * Una pregunta es visible si:
+ * - su pregunta padre es visible y tiene seleccionada la opción de la que depende,
+ * - la sección (página) en la que está es visible, y
+ * - su regla de visibilidad (si tiene) se cumple.
+ * Las respuestas a preguntas ocultas cuentan como vacías en las condiciones.
+ * Las dependencias circulares se resuelven ocultando las preguntas implicadas.
+ */
+export const getVisibleQuestionIds = (questions: Question[], answers: AnswerMap): Set<string> => {
+  const ordered = orderQuestions(questions);
+  const byId = new Map(ordered.map(question => [question.id, question]));
+  const sectionOf = getSectionIds(ordered);
+  const memo = new Map<string, boolean>();
+  const evaluating = new Set<string>();
+
+  const getAnswer = (questionId: string) => (isVisible(questionId) ? answers[questionId] : undefined);
+
+  function isVisible(questionId: string): boolean {
+    const cached = memo.get(questionId);
+    if (cached !== undefined) return cached;
+
+    const question = byId.get(questionId);
+    if (!question || evaluating.has(questionId)) return false;
+
+    evaluating.add(questionId);
+    let visible = true;
+
+    if (question.parentId && byId.has(question.parentId)) {
+      const parentAnswer = getAnswer(question.parentId);
+      visible = question.parentOptionId
+        ? Array.isArray(parentAnswer)
+          ? (parentAnswer as string[]).includes(question.parentOptionId)
+          : parentAnswer === question.parentOptionId
+        : isVisible(question.parentId);
+    } else if (sectionOf.has(questionId)) {
+      // Si se omite la página, se omiten todas sus preguntas
+      visible = isVisible(sectionOf.get(questionId)!);
+    }
+
+    if (visible && question.visibility) {
+      const matches = evaluateGroup(question.visibility.when, getAnswer);
+      visible = question.visibility.action === 'hide' ? !matches : matches;
+    }
+
+    evaluating.delete(questionId);
+    memo.set(questionId, visible);
+    return visible;
+  }
+
+  return new Set(ordered.filter(question => isVisible(question.id)).map(question => question.id));
+};
+
+/**
+ * Preguntas visibles en orden de presentación
+ */
+export const getVisibleQuestions = (questions: Question[], answers: AnswerMap): Question[] => {
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+  return orderQuestions(questions).filter(question => visibleIds.has(question.id));
+};
+
+/**
+ * Descarta las respuestas de preguntas que quedaron ocultas
+ */
+export const pruneHiddenAnswers = (questions: Question[], answers: AnswerMap): AnswerMap => {
+  const visibleIds = getVisibleQuestionIds(questions, answers);
+  return Object.fromEntries(Object.entries(answers).filter(([questionId]) => visibleIds.has(questionId)));
+};
+
+/**
+ * Porcentaje de preguntas visibles respondidas
+ */
+export const getCompletionPercentage = (questions: Question[], responses: QuestionResponse[]) => {
+  const answers = toAnswerMap(responses);
+  // Las secciones no se responden
+  const visible = getVisibleQuestions(questions, answers).filter(question => question.type !== 'section');
+  if (visible.length === 0) return 100;
+
+  const answered = visible.filter(question => !isEmptyAnswer(answers[question.id])).length;
+  return Math.round((answered / visible.length) * 100);
+};
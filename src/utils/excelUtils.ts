@@ -1,11 +1,34 @@
 import * as XLSX from 'xlsx';
-import { Form, FormResponse, Question } from '../types';
+import { Form, FormResponse, FormVersion } from '../types';
+import { getFormDefinitionForVersion, getResponseColumns, getVersionedResponseText } from './formVersions';
+import { getVisibleQuestionIds, toAnswerMap } from './conditionalLogic';
+import { getAttachments, getFileUrl } from './fileUploads';
+import { isValidLocation } from './location';
+import { getQuestionCode } from './questionCodes';
+import { getResponseScore, getScoreDistribution, getScorePercentage, hasScoring } from './scoring';
+
+/**
+ * Celda con los enlaces de descarga de los archivos adjuntos a una pregunta
+ * (con un solo archivo, la celda es un hipervínculo con su nombre)
+ */
+const toFileCell = (response: FormResponse, questionId: string) => {
+  const answer = response.responses.find(r => r.questionId === questionId);
+  const links = getAttachments(answer?.value)
+    .map(attachment => ({ name: attachment.name, url: getFileUrl(attachment) }))
+    .filter((link): link is { name: string; url: string } => Boolean(link.url));
+
+  if (links.length === 1) {
+    return { t: 's', v: links[0].name, l: { Target: links[0].url, Tooltip: links[0].url } };
+  }
+  return links.map(link => link.url).join('\n');
+};
 
 // Función para exportar datos a Excel
 export const exportToExcel = async (
   data: any, 
   filename: string, 
-  form?: Form
+  form?: Form,
+  versions: FormVersion[] = []
 ) => {
   // Importar xlsx dinámicamente
   const XLSX = await import('xlsx');
@@ -15,53 +38,64 @@ export const exportToExcel = async (
     // Crear una matriz para los datos
     const worksheetData: any[][] = [];
     
-    // Crear la fila de encabezados
-    const headers = ['Fecha'];
-    const questionMap = new Map<string, Question>();
+    // Preguntas principales actuales y las que solo existen en versiones anteriores
+    const columns = getResponseColumns(form, versions, data);
+    
+    // Evaluaciones: puntuación de cada respuesta tras la fecha y la versión
+    const isQuiz = hasScoring(form.questions) || data.some((response: FormResponse) => response.score);
+    const scores = isQuiz ? data.map((response: FormResponse) => getResponseScore(form, versions, response)) : [];
     
-    // Agregar solo las preguntas principales
-    form.questions.forEach(question => {
-      if (!question.parentId) {
-        headers.push(question.text);
-        questionMap.set(question.id, question);
+    // Crear la fila de encabezados (las matrices ocupan una columna por fila).
+    // El código de la pregunta identifica la columna en Power BI aunque cambie el texto
+    const headers = ['Fecha', 'Versión'];
+    if (isQuiz) {
+      headers.push('Puntuación', 'Puntuación máxima', 'Porcentaje', 'Aprobado');
+    }
+    columns.forEach(({ question, removedAfterVersion }) => {
+      const code = getQuestionCode(question);
+      const text = code ? `[${code}] ${question.text}` : question.text;
+      const header = removedAfterVersion ? `${text} (hasta v${removedAfterVersion})` : text;
+      if (question.type === 'matrix') {
+        question.matrix?.rows.forEach(row => headers.push(`${header} - ${row.text}`));
+      } else if (question.type === 'location') {
+        // Latitud y longitud en columnas numéricas separadas (para mapas en Power BI)
+        headers.push(`${header} - Latitud`, `${header} - Longitud`);
+      } else {
+        headers.push(header);
       }
     });
     
     worksheetData.push(headers);
     
-    // Procesar cada respuesta
-    data.forEach((response: FormResponse) => {
-      const row: any[] = [new Date(response.createdAt)];
+    // Procesar cada respuesta con la versión del formulario con la que se recogió
+    data.forEach((response: FormResponse, index: number) => {
+      const row: any[] = [new Date(response.createdAt), response.formVersion];
+      if (isQuiz) {
+        const score = scores[index];
+        const passed = score?.passed === undefined ? '' : score.passed ? 'Sí' : 'No';
+        row.push(score?.points ?? '', score?.maxPoints ?? '', score ? Math.round(getScorePercentage(score)) : '', passed);
+      }
+      
+      // Las preguntas que quedaron ocultas por sus condiciones se exportan vacías
+      const definition = getFormDefinitionForVersion(form, versions, response.formVersion);
+      const visibleIds = getVisibleQuestionIds(definition.questions, toAnswerMap(response.responses));
       
-      // Para cada pregunta principal
-      form.questions
-        .filter(q => !q.parentId)
-        .forEach(question => {
-          // Buscar la respuesta para esta pregunta
-          const questionResponse = response.responses.find(r => r.questionId === question.id);
-          let value = '';
-          
-          if (questionResponse) {
-            if (question.type === 'select' && question.options) {
-              // Para preguntas de selección única, mostrar el texto de la opción
-              const option = question.options.find(o => o.id === questionResponse.value);
-              value = option ? option.text : '';
-            } else if (question.type === 'multiselect' && question.options) {
-              // Para preguntas de selección múltiple
-              if (Array.isArray(questionResponse.value)) {
-                value = question.options
-                  .filter(o => questionResponse.value.includes(o.id))
-                  .map(o => o.text)
-                  .join(', ');
-              }
-            } else {
-              // Para otros tipos de preguntas
-              value = questionResponse.value;
-            }
-          }
-          
-          row.push(value);
-        });
+      columns.forEach(({ question }) => {
+        const isVisible = visibleIds.has(question.id);
+        if (question.type === 'file') {
+          row.push(isVisible ? toFileCell(response, question.id) : '');
+        } else if (question.type === 'location') {
+          const location = response.responses.find(r => r.questionId === question.id)?.value;
+          const isLocated = isVisible && isValidLocation(location);
+          row.push(isLocated ? location.latitude : '', isLocated ? location.longitude : '');
+        } else if (question.type === 'matrix') {
+          question.matrix?.rows.forEach(matrixRow => {
+            row.push(isVisible ? getVersionedResponseText(form, versions, response, question.id, matrixRow.id) : '');
+          });
+        } else {
+          row.push(isVisible ? getVersionedResponseText(form, versions, response, question.id) : '');
+        }
+      });
       
       worksheetData.push(row);
     });
@@ -73,6 +107,25 @@ export const exportToExcel = async (
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Respuestas');
     
+    // Distribución de las puntuaciones por tramos de porcentaje
+    if (isQuiz) {
+      const scored = scores.filter((score): score is NonNullable<typeof score> => Boolean(score));
+      const distribution = getScoreDistribution(scored).map(bucket => [bucket.label, bucket.count]);
+      const passedCount = scored.filter(score => score.passed).length;
+      const average = scored.length
+        ? Math.round(scored.reduce((sum, score) => sum + getScorePercentage(score), 0) / scored.length)
+        : '';
+      
+      const summary = XLSX.utils.aoa_to_sheet([
+        ['Tramo', 'Respuestas'],
+        ...distribution,
+        [],
+        ['Porcentaje medio', average],
+        ...(form.passMark !== undefined ? [['Aprobados', passedCount], ['Nota mínima (%)', form.passMark]] : [])
+      ]);
+      XLSX.utils.book_append_sheet(workbook, summary, 'Distribución');
+    }
+    
     // Guardar el archivo
     XLSX.writeFile(workbook, filename);
   } else {
@@ -0,0 +1,153 @@
+import { FileAttachment, FileUploadConfig, FormResponse, Question } from '../types';
+import { API_BASE, filesApi } from './apiClient';
+import { getPendingFile } from './offlineDb';
+
+// ======================
+// CONFIGURACIÓN
+// ======================
+
+// Límite de tamaño por archivo aceptado por la API (MB)
+export const MAX_UPLOAD_MB = 20;
+
+// Restricciones por defecto de una pregunta de archivos (cualquier tipo)
+export const DEFAULT_FILE_CONFIG: FileUploadConfig = { accept: [], maxSizeMb: 10, maxFiles: 5 };
+
+// Tipos de archivo que se pueden elegir en el editor
+export const FILE_TYPE_PRESETS: Array<{ value: string; label: string }> = [
+  { value: 'image/*', label: 'Imágenes' },
+  { value: 'application/pdf', label: 'PDF' },
+  { value: 'video/*', label: 'Vídeos' },
+  { value: 'audio/*', label: 'Audio' },
+  { value: 'text/*', label: 'Texto' }
+];
+
+/**
+ * Restricciones de una pregunta de archivos (con los valores por defecto)
+ */
+export const getFileConfig = (question: Question): FileUploadConfig => ({
+  ...DEFAULT_FILE_CONFIG,
+  ...question.file
+});
+
+// ======================
+// VALIDACIÓN Y FORMATO
+// ======================
+
+/**
+ * Indica si un tipo MIME cumple la lista de tipos admitidos (`image/*` admite cualquier imagen)
+ */
+export const matchesAccept = (type: string, accept: string[]) =>
+  accept.length === 0 ||
+  accept.some(pattern =>
+    pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern
+  );
+
+/**
+ * Comprueba los archivos elegidos contra las restricciones de la pregunta
+ * @param currentCount - Archivos ya adjuntos a la respuesta
+ * @returns Mensaje de error o `null` si se pueden adjuntar todos
+ */
+export const validateFileSelection = (question: Question, files: File[], currentCount: number): string | null => {
+  const config = getFileConfig(question);
+
+  if (currentCount + files.length > config.maxFiles) {
+    return `Puedes adjuntar como máximo ${config.maxFiles} archivo(s)`;
+  }
+
+  for (const file of files) {
+    if (!matchesAccept(file.type, config.accept)) {
+      return `Tipo de archivo no admitido: ${file.name}`;
+    }
+    if (file.size > Math.min(config.maxSizeMb, MAX_UPLOAD_MB) * 1024 * 1024) {
+      return `${file.name} supera el tamaño máximo (${Math.min(config.maxSizeMb, MAX_UPLOAD_MB)} MB)`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Archivos adjuntos de una respuesta (lista vacía si el valor no lo es)
+ */
+export const getAttachments = (value: unknown): FileAttachment[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is FileAttachment => Boolean(item) && typeof item === 'object' && 'id' in item)
+    : [];
+
+/**
+ * Tamaño legible de un archivo
+ */
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Indica si un adjunto es una imagen (se muestra como miniatura)
+ */
+export const isImageAttachment = (attachment: FileAttachment) => attachment.type.startsWith('image/');
+
+/**
+ * URL absoluta de descarga de un adjunto ya subido
+ */
+export const getFileUrl = (attachment: FileAttachment) =>
+  attachment.url ? `${API_BASE}${attachment.url}` : undefined;
+
+// ======================
+// SUBIDA
+// ======================
+
+/**
+ * Sube los adjuntos de una respuesta que solo están en el dispositivo
+ * y devuelve la respuesta con sus datos definitivos.
+ * Los archivos locales no se borran aquí: se eliminan cuando la respuesta se guarda en la API.
+ * @param onUploaded - Se llama tras cada archivo subido con la respuesta hasta ese momento, para
+ *   guardarla (p. ej. en la bandeja de salida) y no volver a subirlo si falla uno posterior
+ * @returns La respuesta actualizada y los IDs locales de los archivos subidos
+ * @throws ApiError si la subida falla (p. ej. sin conexión)
+ */
+export const uploadPendingFiles = async (
+  response: FormResponse,
+  onUploaded?: (response: FormResponse, localId: string) => Promise<void>
+) => {
+  const uploadedIds: string[] = [];
+  let current = response;
+
+  // Sustituye (o descarta, si no se pudo subir) un adjunto de una pregunta
+  const replaceAttachment = (questionId: string, localId: string, attachment: FileAttachment | null) => {
+    current = {
+      ...current,
+      responses: current.responses.map(answer =>
+        answer.questionId !== questionId
+          ? answer
+          : {
+              ...answer,
+              value: getAttachments(answer.value).flatMap(item =>
+                item.id !== localId ? [item] : attachment ? [attachment] : []
+              )
+            }
+      )
+    };
+  };
+
+  for (const answer of response.responses) {
+    for (const attachment of getAttachments(answer.value)) {
+      if (!attachment.pending) continue;
+
+      const pendingFile = await getPendingFile(attachment.id);
+      // El archivo local ya no existe (p. ej. se borraron los datos del navegador): se descarta
+      if (!pendingFile) {
+        replaceAttachment(answer.questionId, attachment.id, null);
+        continue;
+      }
+
+      const uploaded = await filesApi.upload(response.formId, answer.questionId, pendingFile.blob, pendingFile.name);
+      replaceAttachment(answer.questionId, attachment.id, uploaded);
+      uploadedIds.push(attachment.id);
+      await onUploaded?.(current, attachment.id);
+    }
+  }
+
+  return { response: current, uploadedIds };
+};
@@ -0,0 +1,119 @@
+import { Option, Question } from '../types';
+import { flattenQuestions } from './responseFormat';
+
+// Definición comparable de un formulario (un Form o una FormVersion)
+interface FormDefinition {
+  name: string;
+  description: string;
+  questions: Question[];
+}
+
+// Cambio en las opciones de una pregunta de selección
+export interface OptionChange {
+  optionId: string;
+  kind: 'added' | 'removed' | 'renamed';
+  before?: string;
+  after?: string;
+}
+
+// Pregunta presente en ambas versiones con cambios
+export interface QuestionChange {
+  questionId: string;
+  before: Question;
+  after: Question;
+  textChanged: boolean;
+  typeChanged: boolean;
+  requiredChanged: boolean;
+  formulaChanged: boolean; // Cambió la fórmula de un campo calculado
+  optionChanges: OptionChange[];
+}
+
+// Diferencias entre dos versiones de un formulario
+export interface FormDiff {
+  nameChanged: boolean;
+  descriptionChanged: boolean;
+  added: Question[];
+  removed: Question[];
+  changed: QuestionChange[];
+}
+
+/**
+ * Compara las opciones de una pregunta entre dos versiones (por ID de opción)
+ */
+const diffOptions = (before: Option[] = [], after: Option[] = []): OptionChange[] => {
+  const changes: OptionChange[] = [];
+  const afterById = new Map(after.map(option => [option.id, option]));
+  const beforeIds = new Set(before.map(option => option.id));
+
+  for (const option of before) {
+    const next = afterById.get(option.id);
+    if (!next) {
+      changes.push({ optionId: option.id, kind: 'removed', before: option.text });
+    } else if (next.text !== option.text) {
+      changes.push({ optionId: option.id, kind: 'renamed', before: option.text, after: next.text });
+    }
+  }
+
+  for (const option of after) {
+    if (!beforeIds.has(option.id)) {
+      changes.push({ optionId: option.id, kind: 'added', after: option.text });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Diferencias a nivel de pregunta entre dos definiciones de formulario.
+ * Las preguntas se emparejan por ID, incluidas las subpreguntas.
+ */
+export const diffForms = (before: FormDefinition, after: FormDefinition): FormDiff => {
+  const beforeQuestions = flattenQuestions(before.questions);
+  const afterQuestions = flattenQuestions(after.questions);
+  const beforeById = new Map(beforeQuestions.map(question => [question.id, question]));
+  const afterIds = new Set(afterQuestions.map(question => question.id));
+
+  const changed: QuestionChange[] = [];
+  for (const question of afterQuestions) {
+    const previous = beforeById.get(question.id);
+    if (!previous) continue;
+
+    const change: QuestionChange = {
+      questionId: question.id,
+      before: previous,
+      after: question,
+      textChanged: previous.text !== question.text,
+      typeChanged: previous.type !== question.type,
+      requiredChanged: Boolean(previous.required) !== Boolean(question.required),
+      formulaChanged: (previous.calculation?.expression ?? '') !== (question.calculation?.expression ?? ''),
+      // Las filas y columnas de una matriz se comparan como opciones (sus IDs son únicos)
+      optionChanges: [
+        ...diffOptions(previous.options, question.options),
+        ...diffOptions(previous.matrix?.rows, question.matrix?.rows),
+        ...diffOptions(previous.matrix?.columns, question.matrix?.columns)
+      ]
+    };
+
+    if (change.textChanged || change.typeChanged || change.requiredChanged || change.formulaChanged || change.optionChanges.length > 0) {
+      changed.push(change);
+    }
+  }
+
+  return {
+    nameChanged: before.name !== after.name,
+    descriptionChanged: (before.description || '') !== (after.description || ''),
+    added: afterQuestions.filter(question => !beforeById.has(question.id)),
+    removed: beforeQuestions.filter(question => !afterIds.has(question.id)),
+    changed
+  };
+};
+
+/**
+ * Indica si dos definiciones no tienen diferencias
+ */
+export const isEmptyDiff = (diff: FormDiff) =>
+  !diff.nameChanged &&
+  !diff.descriptionChanged &&
+  diff.added.length === 0 &&
+  diff.removed.length === 0 &&
+  diff.changed.length === 0;
@@ -0,0 +1,32 @@
+import { Question } from '../types';
+import { AnswerMap, getVisibleQuestions } from './conditionalLogic';
+import { isSection } from './questionTypes';
+
+// Página de un formulario: la sección que la inicia (la primera puede no tenerla) y sus preguntas
+export interface FormPage {
+  section?: Question;
+  questions: Question[];
+}
+
+/**
+ * Páginas de un formulario con sus preguntas visibles, en orden de presentación.
+ * Cada sección empieza una página; las secciones ocultas por su regla de visibilidad y
+ * las páginas sin ninguna pregunta visible se omiten.
+ */
+export const getFormPages = (questions: Question[], answers: AnswerMap): FormPage[] => {
+  const pages: FormPage[] = [];
+  let current: FormPage = { questions: [] };
+
+  getVisibleQuestions(questions, answers).forEach(question => {
+    if (isSection(question) && !question.parentId) {
+      pages.push(current);
+      current = { section: question, questions: [] };
+    } else {
+      current.questions.push(question);
+    }
+  });
+  pages.push(current);
+
+  const withQuestions = pages.filter(page => page.questions.length > 0);
+  return withQuestions.length > 0 ? withQuestions : [{ questions: [] }];
+};
@@ -0,0 +1,88 @@
+import { Form, FormResponse, FormVersion, Question } from '../types';
+import { findQuestion, formatMatrixRow, formatResponseValue } from './responseFormat';
+
+// Columna de la tabla/exportación de respuestas
+export interface ResponseColumn {
+  question: Question;
+  // Versión más reciente que contenía la pregunta si ya no existe en la actual
+  removedAfterVersion?: number;
+}
+
+/**
+ * Definición del formulario con la que se recogió una respuesta.
+ * Usa la instantánea de `version` si existe; si no, la definición actual.
+ */
+export const getFormDefinitionForVersion = (form: Form, versions: FormVersion[], version: number): Form => {
+  if (version === form.version) return form;
+
+  const snapshot = versions.find(v => v.version === version);
+  if (!snapshot) return form;
+
+  return {
+    ...form,
+    name: snapshot.name,
+    description: snapshot.description,
+    questions: snapshot.questions,
+    passMark: snapshot.passMark,
+    version: snapshot.version
+  };
+};
+
+/**
+ * Indica si una respuesta se recogió con una versión distinta de la actual
+ */
+export const isOutdatedResponse = (form: Form, response: FormResponse) =>
+  response.formVersion !== form.version;
+
+/**
+ * Texto legible de una respuesta resuelto contra la versión con la que se recogió
+ * (opciones renombradas o eliminadas después conservan su texto original).
+ * Con `rowId` devuelve solo esa fila de una pregunta en matriz.
+ */
+export const getVersionedResponseText = (
+  form: Form,
+  versions: FormVersion[],
+  response: FormResponse,
+  questionId: string,
+  rowId?: string
+) => {
+  const answer = response.responses.find(r => r.questionId === questionId);
+  if (!answer) return '';
+
+  const definition = getFormDefinitionForVersion(form, versions, response.formVersion);
+  const question = findQuestion(definition.questions, questionId) ?? findQuestion(form.questions, questionId);
+
+  return rowId ? formatMatrixRow(question, answer.value, rowId) : formatResponseValue(question, answer.value);
+};
+
+/**
+ * Columnas para mostrar respuestas de varias versiones: las preguntas principales actuales
+ * y, a continuación, las que solo existen en versiones anteriores usadas por alguna respuesta
+ */
+export const getResponseColumns = (
+  form: Form,
+  versions: FormVersion[],
+  responses: FormResponse[]
+): ResponseColumn[] => {
+  const columns: ResponseColumn[] = form.questions
+    .filter(q => !q.parentId && q.type !== 'section')
+    .map(question => ({ question }));
+  const seen = new Set(columns.map(column => column.question.id));
+
+  const usedVersions = Array.from(new Set(responses.map(r => r.formVersion)))
+    .filter(version => version !== form.version)
+    .sort((a, b) => b - a);
+
+  for (const version of usedVersions) {
+    const snapshot = versions.find(v => v.version === version);
+    if (!snapshot) continue;
+
+    for (const question of snapshot.questions.filter(q => !q.parentId && q.type !== 'section')) {
+      if (seen.has(question.id)) continue;
+      seen.add(question.id);
+      columns.push({ question, removedAfterVersion: version });
+    }
+  }
+
+  return columns;
+};
@@ -0,0 +1,469 @@
+import { Question } from '../types';
+import { AnswerMap, isEmptyAnswer, orderQuestions } from './conditionalLogic';
+import { getQuestionCode } from './questionCodes';
+
+// ======================
+// TIPOS
+// ======================
+
+// Valor intermedio de una fórmula (las fechas se manejan como texto yyyy-mm-dd)
+type FormulaValue = number | string | null;
+
+// Nodo del árbol sintáctico de una fórmula
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'reference'; code: string }
+  | { type: 'unary'; operator: '-' | '+' | '!'; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+/**
+ * Error de sintaxis de una fórmula (`position` es el índice del carácter donde se detectó)
+ */
+export class FormulaError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+// Decimales por defecto del resultado de un campo calculado
+export const DEFAULT_FORMULA_DECIMALS = 2;
+
+// ======================
+// FUNCIONES DISPONIBLES
+// ======================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toNumber = (value: FormulaValue): number | null => {
+  if (value === null || value === '') return null;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const toDay = (value: FormulaValue): number | null => {
+  if (value === null) return null;
+  const time = Date.parse(String(value).slice(0, 10));
+  return Number.isNaN(time) ? null : Math.floor(time / MS_PER_DAY);
+};
+
+const numbersOf = (values: FormulaValue[]) =>
+  values.map(toNumber).filter((value): value is number => value !== null);
+
+const isTruthy = (value: FormulaValue) => value !== null && value !== '' && value !== 0;
+
+// Firma y documentación de cada función (para el analizador y la ayuda del editor)
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  description: string;
+  evaluate: (args: FormulaValue[]) => FormulaValue;
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  sum: {
+    minArgs: 1, maxArgs: Infinity, description: 'Suma de los valores respondidos',
+    evaluate: args => {
+      const numbers = numbersOf(args);
+      return numbers.length ? numbers.reduce((a, b) => a + b, 0) : null;
+    }
+  },
+  avg: {
+    minArgs: 1, maxArgs: Infinity, description: 'Media de los valores respondidos',
+    evaluate: args => {
+      const numbers = numbersOf(args);
+      return numbers.length ? numbers.reduce((a, b) => a + b, 0) / numbers.length : null;
+    }
+  },
+  min: {
+    minArgs: 1, maxArgs: Infinity, description: 'Menor de los valores respondidos',
+    evaluate: args => (numbersOf(args).length ? Math.min(...numbersOf(args)) : null)
+  },
+  max: {
+    minArgs: 1, maxArgs: Infinity, description: 'Mayor de los valores respondidos',
+    evaluate: args => (numbersOf(args).length ? Math.max(...numbersOf(args)) : null)
+  },
+  round: {
+    minArgs: 1, maxArgs: 2, description: 'Redondea a n decimales: round(x, n)',
+    evaluate: ([value, decimals]) => {
+      const number = toNumber(value);
+      if (number === null) return null;
+      const factor = 10 ** (toNumber(decimals ?? 0) ?? 0);
+      return Math.round(number * factor) / factor;
+    }
+  },
+  floor: { minArgs: 1, maxArgs: 1, description: 'Redondea hacia abajo', evaluate: ([v]) => (toNumber(v) === null ? null : Math.floor(toNumber(v)!)) },
+  ceil: { minArgs: 1, maxArgs: 1, description: 'Redondea hacia arriba', evaluate: ([v]) => (toNumber(v) === null ? null : Math.ceil(toNumber(v)!)) },
+  abs: { minArgs: 1, maxArgs: 1, description: 'Valor absoluto', evaluate: ([v]) => (toNumber(v) === null ? null : Math.abs(toNumber(v)!)) },
+  sqrt: {
+    minArgs: 1, maxArgs: 1, description: 'Raíz cuadrada',
+    evaluate: ([v]) => {
+      const number = toNumber(v);
+      return number === null || number < 0 ? null : Math.sqrt(number);
+    }
+  },
+  if: {
+    minArgs: 3, maxArgs: 3, description: 'Condición: if(condición, si se cumple, si no)',
+    evaluate: ([condition, whenTrue, whenFalse]) => (isTruthy(condition) ? whenTrue : whenFalse)
+  },
+  coalesce: {
+    minArgs: 1, maxArgs: Infinity, description: 'Primer valor respondido: coalesce({q001}, 0)',
+    evaluate: args => args.find(value => value !== null && value !== '') ?? null
+  },
+  days: {
+    minArgs: 2, maxArgs: 2, description: 'Días entre dos fechas: days(desde, hasta)',
+    evaluate: ([from, to]) => {
+      const start = toDay(from);
+      const end = toDay(to);
+      return start === null || end === null ? null : end - start;
+    }
+  },
+  today: {
+    minArgs: 0, maxArgs: 0, description: 'Fecha de hoy',
+    // Fecha local (toISOString daría la de UTC: el día siguiente o anterior cerca de la medianoche)
+    evaluate: () => {
+      const now = new Date();
+      const pad = (value: number) => String(value).padStart(2, '0');
+      return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+    }
+  }
+};
+
+// Solo las funciones propias: `constructor` o `toString` no son funciones de las fórmulas
+const findFunction = (name: string): FormulaFunction | undefined =>
+  Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+
+// Funciones y su descripción, para la ayuda del editor
+export const FORMULA_FUNCTIONS: Array<{ name: string; description: string }> = Object.entries(FUNCTIONS)
+  .map(([name, fn]) => ({ name, description: fn.description }));
+
+// ======================
+// ANÁLISIS SINTÁCTICO
+// ======================
+
+interface Token {
+  kind: 'number' | 'string' | 'reference' | 'identifier' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+// Operadores de más de un carácter primero, para que `<=` no se lea como `<`
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '=', '+', '-', '*', '/', '%', '^', '!', '(', ')', ','];
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = expression.slice(index).match(/^(\d+(\.\d*)?|\.\d+)/);
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, index + 1);
+      if (end < 0) throw new FormulaError('Falta cerrar el texto entre comillas', index);
+      tokens.push({ kind: 'string', text: expression.slice(index + 1, end), position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = expression.indexOf('}', index + 1);
+      if (end < 0) throw new FormulaError('Falta cerrar la referencia con "}"', index);
+      const code = expression.slice(index + 1, end).trim();
+      if (!code) throw new FormulaError('Referencia vacía: usa {código de pregunta}', index);
+      tokens.push({ kind: 'reference', text: code, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const identifier = expression.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identifier) {
+      tokens.push({ kind: 'identifier', text: identifier[0], position: index });
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, index));
+    if (operator) {
+      tokens.push({ kind: 'operator', text: operator === '=' ? '==' : operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new FormulaError(`Carácter no válido "${char}"`, index);
+  }
+
+  tokens.push({ kind: 'end', text: '', position: expression.length });
+  return tokens;
+};
+
+// Operadores binarios por nivel de precedencia (de menor a mayor)
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!=', '<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+// Árboles ya analizados (la fórmula se vuelve a evaluar con cada respuesta)
+const parseCache = new Map<string, FormulaNode | FormulaError>();
+
+/**
+ * Analiza una fórmula (analizador descendente recursivo, sin `eval`)
+ * @throws FormulaError si la fórmula no es válida
+ */
+export const parseFormula = (expression: string): FormulaNode => {
+  const cached = parseCache.get(expression);
+  if (cached instanceof FormulaError) throw cached;
+  if (cached) return cached;
+
+  try {
+    const tokens = tokenize(expression);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const next = () => tokens[index++];
+    const expect = (text: string, message: string) => {
+      if (peek().kind !== 'operator' || peek().text !== text) throw new FormulaError(message, peek().position);
+      return next();
+    };
+
+    const parseBinary = (level: number): FormulaNode => {
+      if (level === BINARY_LEVELS.length) return parseUnary();
+
+      let left = parseBinary(level + 1);
+      while (peek().kind === 'operator' && BINARY_LEVELS[level].includes(peek().text)) {
+        const operator = next().text;
+        left = { type: 'binary', operator, left, right: parseBinary(level + 1) };
+      }
+      return left;
+    };
+
+    const parseUnary = (): FormulaNode => {
+      const token = peek();
+      if (token.kind === 'operator' && ['-', '+', '!'].includes(token.text)) {
+        next();
+        return { type: 'unary', operator: token.text as '-' | '+' | '!', operand: parseUnary() };
+      }
+      return parsePower();
+    };
+
+    // La potencia asocia por la derecha: 2^3^2 = 2^(3^2)
+    const parsePower = (): FormulaNode => {
+      const base = parsePrimary();
+      if (peek().kind === 'operator' && peek().text === '^') {
+        next();
+        return { type: 'binary', operator: '^', left: base, right: parseUnary() };
+      }
+      return base;
+    };
+
+    const parsePrimary = (): FormulaNode => {
+      const token = next();
+
+      switch (token.kind) {
+        case 'number':
+          return { type: 'number', value: Number(token.text) };
+        case 'string':
+          return { type: 'string', value: token.text };
+        case 'reference':
+          return { type: 'reference', code: token.text };
+        case 'identifier': {
+          const name = token.text.toLowerCase();
+          const fn = findFunction(name);
+          if (!fn) throw new FormulaError(`Función desconocida: ${token.text}`, token.position);
+
+          expect('(', `Falta "(" después de ${token.text}`);
+          const args: FormulaNode[] = [];
+          if (!(peek().kind === 'operator' && peek().text === ')')) {
+            args.push(parseBinary(0));
+            while (peek().kind === 'operator' && peek().text === ',') {
+              next();
+              args.push(parseBinary(0));
+            }
+          }
+          expect(')', `Falta cerrar el paréntesis de ${token.text}`);
+
+          if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+            throw new FormulaError(`Número de argumentos no válido para ${name}`, token.position);
+          }
+          return { type: 'call', name, args };
+        }
+        case 'operator':
+          if (token.text === '(') {
+            const inner = parseBinary(0);
+            expect(')', 'Falta cerrar el paréntesis');
+            return inner;
+          }
+          throw new FormulaError(`Operador inesperado "${token.text}"`, token.position);
+        default:
+          throw new FormulaError('La fórmula está incompleta', token.position);
+      }
+    };
+
+    if (peek().kind === 'end') throw new FormulaError('La fórmula está vacía', 0);
+
+    const ast = parseBinary(0);
+    if (peek().kind !== 'end') {
+      throw new FormulaError(`Sobra "${peek().text}"`, peek().position);
+    }
+
+    parseCache.set(expression, ast);
+    return ast;
+  } catch (error) {
+    if (error instanceof FormulaError) parseCache.set(expression, error);
+    throw error;
+  }
+};
+
+/**
+ * Códigos de pregunta usados en una fórmula (aunque la fórmula tenga otros errores)
+ */
+export const getFormulaReferences = (expression: string): string[] =>
+  Array.from(new Set(Array.from(expression.matchAll(/\{([^{}]+)\}/g), match => match[1].trim()).filter(Boolean)));
+
+// ======================
+// EVALUACIÓN
+// ======================
+
+/**
+ * Valor de una respuesta dentro de una fórmula:
+ * números tal cual, Sí/No como 1/0, fechas como texto y selecciones múltiples como número de opciones
+ */
+const toFormulaValue = (answer: unknown): FormulaValue => {
+  if (isEmptyAnswer(answer)) return null;
+  if (typeof answer === 'number') return answer;
+  if (typeof answer === 'boolean') return answer ? 1 : 0;
+  if (Array.isArray(answer)) return answer.length;
+  if (typeof answer === 'string') return answer.trim() !== '' && !Number.isNaN(Number(answer)) ? Number(answer) : answer;
+  return null;
+};
+
+const compareValues = (operator: string, left: FormulaValue, right: FormulaValue): FormulaValue => {
+  if (left === null || right === null) return null;
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  const [x, y] = a !== null && b !== null ? [a, b] : [String(left), String(right)];
+
+  switch (operator) {
+    case '==': return x === y ? 1 : 0;
+    case '!=': return x !== y ? 1 : 0;
+    case '<': return x < y ? 1 : 0;
+    case '<=': return x <= y ? 1 : 0;
+    case '>': return x > y ? 1 : 0;
+    default: return x >= y ? 1 : 0;
+  }
+};
+
+/**
+ * Evalúa un árbol de fórmula.
+ * Las operaciones con respuestas vacías (o no numéricas) dan vacío en lugar de error.
+ * @param resolve - Respuesta a la pregunta con un código dado
+ */
+export const evaluateFormula = (node: FormulaNode, resolve: (code: string) => unknown): FormulaValue => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+      return node.value;
+
+    case 'reference':
+      return toFormulaValue(resolve(node.code));
+
+    case 'unary': {
+      const operand = evaluateFormula(node.operand, resolve);
+      if (node.operator === '!') return isTruthy(operand) ? 0 : 1;
+      const number = toNumber(operand);
+      return number === null ? null : node.operator === '-' ? -number : number;
+    }
+
+    case 'call':
+      return FUNCTIONS[node.name].evaluate(node.args.map(arg => evaluateFormula(arg, resolve)));
+
+    case 'binary': {
+      const left = evaluateFormula(node.left, resolve);
+      const right = evaluateFormula(node.right, resolve);
+
+      if (node.operator === '&&') return isTruthy(left) && isTruthy(right) ? 1 : 0;
+      if (node.operator === '||') return isTruthy(left) || isTruthy(right) ? 1 : 0;
+      if (['==', '!=', '<', '<=', '>', '>='].includes(node.operator)) return compareValues(node.operator, left, right);
+
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+
+      let result: number;
+      switch (node.operator) {
+        case '+': result = a + b; break;
+        case '-': result = a - b; break;
+        case '*': result = a * b; break;
+        case '/': result = a / b; break;
+        case '%': result = a % b; break;
+        default: result = a ** b;
+      }
+      return Number.isFinite(result) ? result : null;
+    }
+  }
+};
+
+/**
+ * Calcula los valores de todos los campos calculados de un formulario.
+ * Los campos calculados pueden usar otros campos calculados; los ciclos y
+ * las fórmulas con errores dan vacío.
+ * @returns Las respuestas con los valores calculados actualizados
+ */
+export const computeCalculatedValues = (questions: Question[], answers: AnswerMap): AnswerMap => {
+  const ordered = orderQuestions(questions);
+  const calculated = ordered.filter(question => question.type === 'calculated');
+  if (calculated.length === 0) return answers;
+
+  const byCode = new Map<string, Question>();
+  ordered.forEach(question => {
+    const code = getQuestionCode(question).toLowerCase();
+    if (code) byCode.set(code, question);
+  });
+
+  const result: AnswerMap = { ...answers };
+  const state = new Map<string, 'computing' | 'done'>();
+
+  const compute = (question: Question): unknown => {
+    if (state.get(question.id) === 'done') return result[question.id];
+    if (state.get(question.id) === 'computing') return null;
+    state.set(question.id, 'computing');
+
+    let value: number | null = null;
+    try {
+      const output = evaluateFormula(parseFormula(question.calculation?.expression ?? ''), code => {
+        const referenced = byCode.get(code.toLowerCase());
+        if (!referenced) return null;
+        return referenced.type === 'calculated' ? compute(referenced) : result[referenced.id];
+      });
+
+      const number = toNumber(output);
+      if (number !== null) {
+        const decimals = question.calculation?.decimals ?? DEFAULT_FORMULA_DECIMALS;
+        value = Number(number.toFixed(decimals));
+      }
+    } catch {
+      value = null;
+    }
+
+    result[question.id] = value;
+    state.set(question.id, 'done');
+    return value;
+  };
+
+  calculated.forEach(compute);
+  return result;
+};
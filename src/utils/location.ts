@@ -0,0 +1,45 @@
+import { LocationAnswer } from '../types';
+
+// Decimales con los que se muestran las coordenadas (~11 cm)
+const COORDINATE_DECIMALS = 6;
+
+/**
+ * Indica si un valor es una ubicación con coordenadas válidas
+ * (latitud entre -90 y 90, longitud entre -180 y 180)
+ */
+export const isValidLocation = (value: unknown): value is LocationAnswer => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  const { latitude, longitude } = value as Record<string, unknown>;
+  return (
+    typeof latitude === 'number' && Number.isFinite(latitude) && Math.abs(latitude) <= 90 &&
+    typeof longitude === 'number' && Number.isFinite(longitude) && Math.abs(longitude) <= 180
+  );
+};
+
+/**
+ * Coordenadas legibles ("lat, lon")
+ */
+export const formatCoordinates = (location: LocationAnswer) =>
+  `${location.latitude.toFixed(COORDINATE_DECIMALS)}, ${location.longitude.toFixed(COORDINATE_DECIMALS)}`;
+
+/**
+ * Enlace a la ubicación en OpenStreetMap
+ */
+export const getMapLink = (location: LocationAnswer) =>
+  `https://www.openstreetmap.org/?mlat=${location.latitude}&mlon=${location.longitude}#map=17/${location.latitude}/${location.longitude}`;
+
+/**
+ * URL del mapa embebible de OpenStreetMap centrado en la ubicación (con marcador)
+ */
+export const getMapEmbedUrl = (location: LocationAnswer) => {
+  const delta = 0.005;
+  const bbox = [
+    location.longitude - delta,
+    location.latitude - delta,
+    location.longitude + delta,
+    location.latitude + delta
+  ].join(',');
+
+  return `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${location.latitude},${location.longitude}`;
+};
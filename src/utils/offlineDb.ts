@@ -0,0 +1,242 @@
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { Form, FormResponse, ResponseDraft } from '../types';
+
+// Respuesta guardada localmente a la espera de enviarse a la API
+export interface OutboxEntry {
+  id: string;
+  userId: string; // Usuario que la capturó: solo su sesión la reenvía
+  response: FormResponse;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  failed?: boolean; // La API la rechazó: solo se reintenta o descarta a mano
+}
+
+// Copia local de un formulario, por usuario (cada uno ve solo los que la API le permite)
+export interface CachedForm {
+  userId: string;
+  id: string; // ID del formulario
+  form: Form;
+}
+
+// Archivo adjunto guardado localmente hasta que se sube a la API
+export interface PendingFile {
+  id: string; // Mismo ID que el FileAttachment de la respuesta
+  formId: string;
+  questionId: string;
+  blob: Blob;
+  name: string;
+  createdAt: number;
+}
+
+// Esquema de la base de datos local
+interface OfflineDB extends DBSchema {
+  outbox: {
+    key: string;
+    value: OutboxEntry;
+  };
+  forms: {
+    key: [string, string]; // [userId, id]
+    value: CachedForm;
+    indexes: { 'by-user': string };
+  };
+  files: {
+    key: string;
+    value: PendingFile;
+  };
+  drafts: {
+    key: string;
+    value: ResponseDraft;
+  };
+}
+
+const DB_NAME = 'form-builder-offline';
+const DB_VERSION = 5;
+
+let dbPromise: Promise<IDBPDatabase<OfflineDB>> | null = null;
+
+/**
+ * Abre (una sola vez) la base de datos IndexedDB de la aplicación
+ */
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDB<OfflineDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          db.createObjectStore('outbox', { keyPath: 'id' });
+        }
+        if (oldVersion < 3) {
+          db.createObjectStore('files', { keyPath: 'id' });
+        }
+        if (oldVersion < 4) {
+          db.createObjectStore('drafts', { keyPath: 'id' });
+        }
+        if (oldVersion < 5) {
+          // La copia de formularios pasa a guardarse por usuario (la anterior se descarta)
+          if (db.objectStoreNames.contains('forms')) {
+            db.deleteObjectStore('forms');
+          }
+          const forms = db.createObjectStore('forms', { keyPath: ['userId', 'id'] });
+          forms.createIndex('by-user', 'userId');
+        }
+      }
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Agrega una respuesta a la bandeja de salida
+ */
+export const addToOutbox = async (response: FormResponse) => {
+  const db = await getDb();
+  await db.put('outbox', {
+    id: response.id,
+    userId: response.userId,
+    response,
+    attempts: 0,
+    nextAttemptAt: Date.now()
+  });
+};
+
+/**
+ * Obtiene las respuestas de un usuario pendientes de sincronizar.
+ * Las de otros usuarios del dispositivo esperan a que ellos inicien sesión.
+ */
+export const getOutboxEntries = async (userId: string): Promise<OutboxEntry[]> => {
+  const db = await getDb();
+  const entries = await db.getAll('outbox');
+  // Las entradas anteriores a guardar `userId` lo tienen en la respuesta
+  return entries.filter(entry => (entry.userId ?? entry.response.userId) === userId);
+};
+
+/**
+ * Obtiene una respuesta pendiente de un usuario por su ID (las de otros usuarios no se devuelven)
+ */
+export const getOutboxEntry = async (userId: string, id: string): Promise<OutboxEntry | undefined> => {
+  const db = await getDb();
+  const entry = await db.get('outbox', id);
+  return entry && (entry.userId ?? entry.response.userId) === userId ? entry : undefined;
+};
+
+/**
+ * Actualiza una entrada de la bandeja de salida (reintentos, errores)
+ */
+export const updateOutboxEntry = async (entry: OutboxEntry) => {
+  const db = await getDb();
+  await db.put('outbox', entry);
+};
+
+/**
+ * Elimina una respuesta ya sincronizada
+ */
+export const removeFromOutbox = async (id: string) => {
+  const db = await getDb();
+  await db.delete('outbox', id);
+};
+
+/**
+ * Reemplaza la copia local de formularios de un usuario por la última lista obtenida de la API
+ */
+export const cacheForms = async (userId: string, forms: Form[]) => {
+  const db = await getDb();
+  const tx = db.transaction('forms', 'readwrite');
+  const keys = await tx.store.index('by-user').getAllKeys(userId);
+  await Promise.all(keys.map(key => tx.store.delete(key)));
+  await Promise.all(forms.map(form => tx.store.put({ userId, id: form.id, form })));
+  await tx.done;
+};
+
+/**
+ * Guarda o actualiza la copia local de un formulario para un usuario
+ */
+export const cacheForm = async (userId: string, form: Form) => {
+  const db = await getDb();
+  await db.put('forms', { userId, id: form.id, form });
+};
+
+/**
+ * Elimina la copia local de un formulario de un usuario
+ */
+export const removeCachedForm = async (userId: string, id: string) => {
+  const db = await getDb();
+  await db.delete('forms', [userId, id]);
+};
+
+/**
+ * Obtiene los formularios de un usuario disponibles sin conexión
+ */
+export const getCachedForms = async (userId: string): Promise<Form[]> => {
+  const db = await getDb();
+  const cached = await db.getAllFromIndex('forms', 'by-user', userId);
+  return cached.map(entry => entry.form);
+};
+
+/**
+ * Obtiene la copia local de un formulario de un usuario
+ */
+export const getCachedForm = async (userId: string, id: string): Promise<Form | undefined> => {
+  const db = await getDb();
+  const cached = await db.get('forms', [userId, id]);
+  return cached?.form;
+};
+
+/**
+ * Descarta la copia local de formularios de todos los usuarios (al cerrar sesión).
+ * La bandeja de salida y los borradores se conservan: son de cada usuario.
+ */
+export const clearCachedForms = async () => {
+  const db = await getDb();
+  await db.clear('forms');
+};
+
+/**
+ * Guarda un archivo adjunto a la espera de subirlo
+ */
+export const savePendingFile = async (file: PendingFile) => {
+  const db = await getDb();
+  await db.put('files', file);
+};
+
+/**
+ * Obtiene un archivo pendiente de subir
+ */
+export const getPendingFile = async (id: string): Promise<PendingFile | undefined> => {
+  const db = await getDb();
+  return db.get('files', id);
+};
+
+/**
+ * Elimina archivos ya subidos o descartados
+ */
+export const removePendingFiles = async (ids: string[]) => {
+  const db = await getDb();
+  const tx = db.transaction('files', 'readwrite');
+  await Promise.all(ids.map(id => tx.store.delete(id)));
+  await tx.done;
+};
+
+/**
+ * Guarda o actualiza un borrador de respuesta
+ */
+export const saveDraft = async (draft: ResponseDraft) => {
+  const db = await getDb();
+  await db.put('drafts', draft);
+};
+
+/**
+ * Obtiene los borradores guardados en el dispositivo por un usuario
+ */
+export const getDrafts = async (userId: string): Promise<ResponseDraft[]> => {
+  const db = await getDb();
+  const drafts = await db.getAll('drafts');
+  return drafts.filter(draft => draft.userId === userId);
+};
+
+/**
+ * Elimina un borrador enviado o descartado
+ */
+export const removeDraft = async (id: string) => {
+  const db = await getDb();
+  await db.delete('drafts', id);
+};
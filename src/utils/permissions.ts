@@ -0,0 +1,68 @@
+import { Form, FormPermission, User, UserRole } from '../types';
+
+// ======================
+// MODELO DE PERMISOS
+// (mismo modelo que api/middleware/permissions.php)
+// ======================
+
+export const FORM_PERMISSIONS: FormPermission[] = ['edit', 'fill', 'view_responses', 'edit_responses'];
+
+/**
+ * Permisos máximos de cada rol sobre un formulario.
+ * Un permiso concedido fuera de este límite no tiene efecto.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, FormPermission[]> = {
+  admin: FORM_PERMISSIONS,
+  editor: FORM_PERMISSIONS,
+  analyst: ['fill', 'view_responses'],
+  respondent: ['fill']
+};
+
+export const USER_ROLES: UserRole[] = ['admin', 'editor', 'analyst', 'respondent'];
+
+// Etiquetas (claves de traducción) de roles y permisos
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrador',
+  editor: 'Editor',
+  analyst: 'Analista',
+  respondent: 'Encuestador'
+};
+
+export const FORM_PERMISSION_LABELS: Record<FormPermission, string> = {
+  edit: 'Editar formulario',
+  fill: 'Completar',
+  view_responses: 'Ver respuestas',
+  edit_responses: 'Editar respuestas'
+};
+
+/**
+ * Indica si el usuario puede crear formularios nuevos
+ */
+export const canCreateForms = (user: User | null) =>
+  user?.role === 'admin' || user?.role === 'editor';
+
+/**
+ * Indica si el usuario puede eliminar el formulario y decidir con quién se comparte
+ * (administradores y el creador del formulario)
+ */
+export const canManageForm = (user: User | null, form: Form) =>
+  !!user && (user.role === 'admin' || (!!form.createdBy && form.createdBy === user.id));
+
+/**
+ * Permisos efectivos del usuario sobre un formulario
+ */
+export const getFormPermissions = (user: User | null, form: Form): FormPermission[] => {
+  if (!user) return [];
+  if (canManageForm(user, form)) return ROLE_PERMISSIONS[user.role] ?? [];
+
+  const share = form.permissions?.find(p => p.userId === user.id);
+  if (!share) return [];
+
+  return share.permissions.filter(permission => ROLE_PERMISSIONS[user.role]?.includes(permission));
+};
+
+/**
+ * Indica si el usuario tiene un permiso concreto sobre un formulario
+ */
+export const hasFormPermission = (user: User | null, form: Form, permission: FormPermission) =>
+  getFormPermissions(user, form).includes(permission);
@@ -0,0 +1,49 @@
+import { Question } from '../types';
+
+// Formato de los códigos generados (y de los IDs posicionales que se usaban antes)
+const CODE_PATTERN = /^q(\d+)$/i;
+
+/**
+ * Código legible de una pregunta.
+ * Las preguntas guardadas antes de existir `code` usaban el código como ID (q001, q002…).
+ */
+export const getQuestionCode = (question: Question) =>
+  question.code || (CODE_PATTERN.test(question.id) ? question.id : '');
+
+/**
+ * Asigna un código a las preguntas que no lo tienen, sin tocar los existentes ni los IDs.
+ * Los nuevos códigos continúan la numeración más alta usada en el formulario.
+ * Las secciones no llevan código: no tienen respuesta.
+ */
+export const assignQuestionCodes = (questions: Question[]): Question[] => {
+  let lastNumber = questions.reduce((max, question) => {
+    const match = getQuestionCode(question).match(CODE_PATTERN);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+
+  return questions.map(question => {
+    const code = getQuestionCode(question);
+    if (code) return { ...question, code };
+    if (question.type === 'section') return question;
+
+    lastNumber += 1;
+    return { ...question, code: `q${lastNumber.toString().padStart(3, '0')}` };
+  });
+};
+
+/**
+ * Códigos repetidos entre las preguntas (deben ser únicos dentro de un formulario)
+ */
+export const findDuplicateCodes = (questions: Question[]) => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+
+  questions.forEach(question => {
+    const code = getQuestionCode(question).trim().toLowerCase();
+    if (!code) return;
+    if (seen.has(code)) duplicates.add(code);
+    seen.add(code);
+  });
+
+  return Array.from(duplicates);
+};
@@ -0,0 +1,45 @@
+import { Question, QuestionType } from '../types';
+
+// Nombres legibles de los tipos de pregunta (en el orden del selector del editor)
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  text: 'Texto',
+  textarea: 'Texto largo',
+  number: 'Número',
+  select: 'Selección',
+  multiselect: 'Selección Múltiple',
+  date: 'Fecha',
+  boolean: 'Sí/No',
+  email: 'Correo electrónico',
+  phone: 'Teléfono',
+  url: 'Enlace (URL)',
+  rating: 'Valoración',
+  matrix: 'Matriz',
+  file: 'Archivo / foto',
+  location: 'Ubicación',
+  signature: 'Firma',
+  calculated: 'Calculado',
+  section: 'Sección'
+};
+
+/**
+ * Indica si un elemento es un salto de sección (inicio de una página) y no una pregunta
+ */
+export const isSection = (question: Question) => question.type === 'section';
+
+// Tipos cuya respuesta es texto libre
+export const TEXT_TYPES: QuestionType[] = ['text', 'textarea', 'email', 'phone', 'url'];
+
+// Ejemplos de formato para los campos de contacto
+export const INPUT_PLACEHOLDERS: Partial<Record<QuestionType, string>> = {
+  email: 'nombre@ejemplo.com',
+  phone: '+34 600 000 000',
+  url: 'https://'
+};
+
+// Escala por defecto de las preguntas de valoración
+export const DEFAULT_RATING_MAX = 5;
+
+/**
+ * Valor máximo de la escala de una pregunta de valoración
+ */
+export const getRatingMax = (question: Question) => question.rating?.max ?? DEFAULT_RATING_MAX;
@@ -0,0 +1,164 @@
+import { MatrixAnswer, Question, QuestionResponse } from '../types';
+import { AnswerMap, getVisibleQuestions, isEmptyAnswer } from './conditionalLogic';
+import { getRatingMax } from './questionTypes';
+import { getAttachments, getFileConfig } from './fileUploads';
+import { isValidLocation } from './location';
+import { SIGNATURE_MAX_LENGTH, isSignatureImage } from './signature';
+
+// Formatos de los tipos con validación incorporada
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const PHONE_MIN_DIGITS = 7;
+const PHONE_MAX_DIGITS = 15;
+
+/**
+ * Indica si un texto es un enlace http(s) válido
+ */
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// yyyy-mm-dd → dd/mm/yyyy
+const formatDay = (date: string) => date.split('-').reverse().join('/');
+
+/**
+ * Compila el patrón de una pregunta; `null` si no es una expresión regular válida
+ */
+export const compilePattern = (pattern: string) => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Valida el valor de una pregunta: obligatoriedad y reglas de su tipo.
+ * Las mismas reglas se vuelven a comprobar en la API al guardar la respuesta.
+ * @returns Mensaje de error o `null` si el valor es válido
+ */
+export const validateAnswer = (question: Question, value: QuestionResponse['value'] | undefined): string | null => {
+  // Los campos calculados no los escribe el usuario y las secciones no se responden
+  if (question.type === 'calculated' || question.type === 'section') return null;
+
+  if (isEmptyAnswer(value)) {
+    if (!question.required) return null;
+    return question.type === 'multiselect' ? 'Selecciona al menos una opción' : 'Este campo es obligatorio';
+  }
+
+  const rules = question.validation ?? {};
+  const fail = (message: string) => rules.message || message;
+
+  switch (question.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (Number.isNaN(number)) return 'Introduce un número válido';
+      if (rules.min !== undefined && number < rules.min) return fail(`El valor mínimo es ${rules.min}`);
+      if (rules.max !== undefined && number > rules.max) return fail(`El valor máximo es ${rules.max}`);
+      return null;
+    }
+
+    case 'text':
+    case 'textarea': {
+      const text = String(value);
+      if (rules.minLength !== undefined && text.length < rules.minLength) {
+        return fail(`Debe tener al menos ${rules.minLength} caracteres`);
+      }
+      if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+        return fail(`Debe tener como máximo ${rules.maxLength} caracteres`);
+      }
+      if (rules.pattern) {
+        const pattern = compilePattern(rules.pattern);
+        if (pattern && !pattern.test(text)) return fail('El formato no es válido');
+      }
+      return null;
+    }
+
+    case 'date': {
+      const date = String(value);
+      if (rules.minDate && date < rules.minDate) {
+        return fail(`La fecha debe ser igual o posterior al ${formatDay(rules.minDate)}`);
+      }
+      if (rules.maxDate && date > rules.maxDate) {
+        return fail(`La fecha debe ser igual o anterior al ${formatDay(rules.maxDate)}`);
+      }
+      return null;
+    }
+
+    case 'multiselect': {
+      const count = Array.isArray(value) ? value.length : 0;
+      if (rules.minSelections !== undefined && count < rules.minSelections) {
+        return fail(`Selecciona al menos ${rules.minSelections} opciones`);
+      }
+      if (rules.maxSelections !== undefined && count > rules.maxSelections) {
+        return fail(`Selecciona como máximo ${rules.maxSelections} opciones`);
+      }
+      return null;
+    }
+
+    case 'email':
+      return EMAIL_PATTERN.test(String(value).trim()) ? null : 'Introduce un correo electrónico válido';
+
+    case 'phone': {
+      const phone = String(value).trim();
+      const digits = phone.replace(/\D/g, '').length;
+      return PHONE_PATTERN.test(phone) && digits >= PHONE_MIN_DIGITS && digits <= PHONE_MAX_DIGITS
+        ? null
+        : 'Introduce un teléfono válido';
+    }
+
+    case 'url':
+      return isValidUrl(String(value).trim()) ? null : 'Introduce un enlace válido (http:// o https://)';
+
+    case 'rating': {
+      const rating = Number(value);
+      const max = getRatingMax(question);
+      return Number.isInteger(rating) && rating >= 1 && rating <= max ? null : `Elige un valor entre 1 y ${max}`;
+    }
+
+    case 'file': {
+      const { maxFiles } = getFileConfig(question);
+      return getAttachments(value).length > maxFiles ? `Puedes adjuntar como máximo ${maxFiles} archivo(s)` : null;
+    }
+
+    case 'location':
+      return isValidLocation(value)
+        ? null
+        : 'Introduce una latitud entre -90 y 90 y una longitud entre -180 y 180';
+
+    case 'signature':
+      if (!isSignatureImage(value)) return 'Firma no válida';
+      return value.length > SIGNATURE_MAX_LENGTH ? 'La firma es demasiado grande; bórrala y vuelve a firmar' : null;
+
+    case 'matrix': {
+      // Obligatoria: todas las filas deben tener respuesta
+      if (!question.required) return null;
+      const answers = value as MatrixAnswer;
+      const unanswered = (question.matrix?.rows ?? []).filter(row => isEmptyAnswer(answers[row.id]));
+      return unanswered.length === 0 ? null : 'Responde todas las filas';
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Valida todas las preguntas visibles de un formulario
+ * @returns Errores por ID de pregunta (vacío si todo es válido)
+ */
+export const validateAnswers = (questions: Question[], answers: AnswerMap): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  getVisibleQuestions(questions, answers).forEach(question => {
+    const error = validateAnswer(question, answers[question.id]);
+    if (error) errors[question.id] = error;
+  });
+
+  return errors;
+};
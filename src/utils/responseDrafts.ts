@@ -0,0 +1,100 @@
+import { QuestionResponse, ResponseDraft } from '../types';
+import { isEmptyAnswer } from './conditionalLogic';
+import { getAttachments } from './fileUploads';
+import { getDrafts, removeDraft, removePendingFiles, saveDraft } from './offlineDb';
+import { isNetworkError, responsesApi } from './apiClient';
+
+/**
+ * Indica si un borrador tiene alguna respuesta (los vacíos no se guardan ni se ofrecen)
+ */
+export const hasDraftAnswers = (draft: Pick<ResponseDraft, 'answers'>) =>
+  Object.values(draft.answers).some(value => !isEmptyAnswer(value));
+
+/**
+ * Borradores de un usuario, del más reciente al más antiguo: los del dispositivo
+ * más los guardados en la API desde este u otro dispositivo.
+ *
+ * - Si la copia de la API es más reciente que la última que se guardó desde aquí
+ *   (se siguió en otro dispositivo), sustituye a la local.
+ * - Si un borrador que se guardó en la API ya no está allí (se envió o descartó en
+ *   otro dispositivo), se elimina del dispositivo.
+ * - Sin conexión solo se devuelven los del dispositivo.
+ */
+export const listDrafts = async (userId: string): Promise<ResponseDraft[]> => {
+  const localDrafts = await getDrafts(userId);
+
+  let remoteDrafts: ResponseDraft[] | null = null;
+  if (navigator.onLine) {
+    try {
+      remoteDrafts = await responsesApi.drafts();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  if (!remoteDrafts) {
+    return localDrafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  const remoteIds = new Set(remoteDrafts.map(draft => draft.id));
+  const byId = new Map<string, ResponseDraft>();
+  for (const draft of localDrafts) {
+    if (draft.serverSavedAt && !remoteIds.has(draft.id)) {
+      await removeDraft(draft.id);
+    } else {
+      byId.set(draft.id, draft);
+    }
+  }
+
+  for (const remote of remoteDrafts) {
+    const local = byId.get(remote.id);
+    if (!local || (remote.serverSavedAt ?? 0) > (local.serverSavedAt ?? 0)) {
+      // La página en la que se dejó solo se conoce en el dispositivo
+      const draft = { ...remote, pageIndex: local?.pageIndex ?? 0 };
+      await saveDraft(draft);
+      byId.set(remote.id, draft);
+    }
+  }
+
+  return Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Guarda una copia del borrador en la API para poder seguirlo en otro dispositivo.
+ * Los archivos adjuntos aún no subidos se quedan en este dispositivo (se suben al enviar).
+ * @returns El borrador con la fecha de la copia en la API (también guardado en el dispositivo)
+ * @throws ApiError si la API no es alcanzable o rechaza el borrador
+ */
+export const saveDraftToServer = async (draft: ResponseDraft): Promise<ResponseDraft> => {
+  const responses: QuestionResponse[] = Object.entries(draft.answers).map(([questionId, value]) => ({
+    questionId,
+    value: value ?? null
+  }));
+
+  const saved = await responsesApi.saveDraft(draft.id, {
+    formId: draft.formId,
+    formVersion: draft.formVersion,
+    responses
+  });
+
+  const updated = { ...draft, serverSavedAt: saved.serverSavedAt };
+  await saveDraft(updated);
+  return updated;
+};
+
+/**
+ * Descarta un borrador: del dispositivo (con sus adjuntos sin subir) y, si tenía copia, de la API
+ * @throws ApiError si no se pudo borrar la copia de la API (el borrador local se conserva)
+ */
+export const discardDraft = async (draft: ResponseDraft) => {
+  if (draft.serverSavedAt) {
+    await responsesApi.remove(draft.id);
+  }
+
+  const pendingFileIds = Object.values(draft.answers)
+    .flatMap(value => getAttachments(value))
+    .filter(attachment => attachment.pending)
+    .map(attachment => attachment.id);
+
+  await removePendingFiles(pendingFileIds);
+  await removeDraft(draft.id);
+};
@@ -0,0 +1,120 @@
+import { Form, MatrixAnswer, Question, QuestionResponse } from '../types';
+import { getRatingMax } from './questionTypes';
+import { getAttachments } from './fileUploads';
+import { formatCoordinates, isValidLocation } from './location';
+import { isSignatureImage } from './signature';
+
+/**
+ * Busca una pregunta por ID, incluidas las subpreguntas anidadas en opciones
+ */
+export const findQuestion = (questions: Question[], questionId: string): Question | undefined => {
+  for (const question of questions) {
+    if (question.id === questionId) return question;
+
+    for (const option of question.options ?? []) {
+      const found = findQuestion(option.subQuestions ?? [], questionId);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Lista plana de preguntas, incluidas las subpreguntas anidadas en opciones (sin duplicados)
+ */
+export const flattenQuestions = (questions: Question[]): Question[] => {
+  const result: Question[] = [];
+  const seen = new Set<string>();
+
+  const visit = (list: Question[]) => {
+    for (const question of list) {
+      if (!seen.has(question.id)) {
+        seen.add(question.id);
+        result.push(question);
+      }
+      for (const option of question.options ?? []) {
+        visit(option.subQuestions ?? []);
+      }
+    }
+  };
+
+  visit(questions);
+  return result;
+};
+
+/**
+ * Texto de las columnas marcadas en una fila de una pregunta en matriz
+ */
+export const formatMatrixRow = (question: Question | undefined, value: unknown, rowId: string): string => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return '';
+
+  const selected = (value as MatrixAnswer)[rowId];
+  const columnIds = Array.isArray(selected) ? selected : selected ? [selected] : [];
+
+  return columnIds
+    .map(columnId => question?.matrix?.columns.find(c => c.id === columnId)?.text ?? columnId)
+    .join(', ');
+};
+
+/**
+ * Convierte el valor de una respuesta en texto legible
+ * (IDs de opción a su texto, booleanos a Sí/No, listas separadas por comas)
+ */
+export const formatResponseValue = (
+  question: Question | undefined,
+  value: QuestionResponse['value'] | unknown
+): string => {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (question?.type) {
+    case 'select': {
+      const option = question.options?.find(o => o.id === value);
+      return option ? option.text : String(value);
+    }
+
+    case 'multiselect':
+      if (!Array.isArray(value)) return '';
+      return value
+        .map(optionId => question.options?.find(o => o.id === optionId)?.text ?? String(optionId))
+        .join(', ');
+
+    case 'boolean':
+      return value === true ? 'Sí' : value === false ? 'No' : '';
+
+    case 'rating':
+      return `${value}/${getRatingMax(question)}`;
+
+    case 'location':
+      return isValidLocation(value) ? formatCoordinates(value) : '';
+
+    // La imagen no cabe en texto (Excel, auditoría): solo se indica que está firmada
+    case 'signature':
+      return isSignatureImage(value) ? 'Firmado' : '';
+
+    case 'file':
+      return getAttachments(value).map(attachment => attachment.name).join(', ');
+
+    case 'matrix':
+      // Una línea compacta "fila: columna" por cada fila respondida
+      return (question.matrix?.rows ?? [])
+        .map(row => {
+          const text = formatMatrixRow(question, value, row.id);
+          return text ? `${row.text}: ${text}` : '';
+        })
+        .filter(Boolean)
+        .join('; ');
+
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+};
+
+/**
+ * Texto legible del valor de una pregunta dentro de una lista de respuestas
+ */
+export const getResponseText = (form: Form, responses: QuestionResponse[], questionId: string) => {
+  const response = responses.find(r => r.questionId === questionId);
+  if (!response) return '';
+
+  return formatResponseValue(findQuestion(form.questions, questionId), response.value);
+};
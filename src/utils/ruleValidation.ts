@@ -0,0 +1,198 @@
+import { Condition, ConditionGroup, Question, QuestionType } from '../types';
+import { OPERATORS_BY_TYPE, UNARY_OPERATORS, isConditionGroup, orderQuestions } from './conditionalLogic';
+import { FormulaError, getFormulaReferences, parseFormula } from './formula';
+import { getQuestionCode } from './questionCodes';
+
+// Arista del grafo de dependencias: `to` depende de la respuesta a `from`
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: 'parent' | 'rule' | 'formula';
+}
+
+// Tipos de pregunta que una fórmula puede usar (números, fechas, Sí/No y número de opciones marcadas)
+export const FORMULA_SOURCE_TYPES: QuestionType[] = ['number', 'rating', 'date', 'boolean', 'multiselect', 'calculated'];
+
+/**
+ * Condiciones de un grupo, incluidas las de sus subgrupos
+ */
+export const collectConditions = (group: ConditionGroup): Condition[] =>
+  group.conditions.flatMap(item => (isConditionGroup(item) ? collectConditions(item) : [item]));
+
+/**
+ * Preguntas por código (en minúsculas), para resolver las referencias de las fórmulas
+ */
+const getQuestionsByCode = (questions: Question[]) => {
+  const byCode = new Map<string, Question>();
+  questions.forEach(question => {
+    const code = getQuestionCode(question).trim().toLowerCase();
+    if (code) byCode.set(code, question);
+  });
+  return byCode;
+};
+
+/**
+ * Aristas de dependencia entre preguntas (subpregunta → padre, reglas de visibilidad y fórmulas)
+ */
+export const getDependencyEdges = (questions: Question[]): DependencyEdge[] => {
+  const edges: DependencyEdge[] = [];
+  const byCode = getQuestionsByCode(questions);
+
+  orderQuestions(questions).forEach(question => {
+    if (question.parentId) {
+      edges.push({ from: question.parentId, to: question.id, kind: 'parent' });
+    }
+
+    const referenced = new Set(
+      question.visibility ? collectConditions(question.visibility.when).map(c => c.questionId) : []
+    );
+    referenced.forEach(questionId => {
+      if (questionId) edges.push({ from: questionId, to: question.id, kind: 'rule' });
+    });
+
+    if (question.type === 'calculated' && question.calculation) {
+      getFormulaReferences(question.calculation.expression).forEach(code => {
+        const source = byCode.get(code.toLowerCase());
+        if (source) edges.push({ from: source.id, to: question.id, kind: 'formula' });
+      });
+    }
+  });
+
+  return edges;
+};
+
+/**
+ * IDs de las preguntas que forman parte de algún ciclo de dependencias
+ */
+export const findCyclicQuestions = (questions: Question[]): Set<string> => {
+  const edges = getDependencyEdges(questions);
+  const dependents = new Map<string, string[]>();
+  edges.forEach(edge => dependents.set(edge.from, [...(dependents.get(edge.from) ?? []), edge.to]));
+
+  const cyclic = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (questionId: string) => {
+    if (state.get(questionId) === 'done') return;
+    if (state.get(questionId) === 'visiting') {
+      stack.slice(stack.indexOf(questionId)).forEach(id => cyclic.add(id));
+      return;
+    }
+
+    state.set(questionId, 'visiting');
+    stack.push(questionId);
+    (dependents.get(questionId) ?? []).forEach(visit);
+    stack.pop();
+    state.set(questionId, 'done');
+  };
+
+  questions.forEach(question => visit(question.id));
+  return cyclic;
+};
+
+/**
+ * Preguntas que una pregunta puede usar en sus condiciones:
+ * las anteriores en el orden de presentación, sin contar sus propias subpreguntas ni las secciones
+ */
+export const getReferenceableQuestions = (questions: Question[], questionId: string): Question[] => {
+  const ordered = orderQuestions(questions);
+  const index = ordered.findIndex(q => q.id === questionId);
+  const previous = index < 0 ? ordered.filter(q => q.id !== questionId) : ordered.slice(0, index);
+  return previous.filter(q => q.type !== 'section');
+};
+
+/**
+ * Errores de las reglas de visibilidad, por ID de pregunta.
+ * Detecta condiciones incompletas, referencias a preguntas eliminadas o posteriores y ciclos.
+ */
+export const validateVisibilityRules = (questions: Question[]): Record<string, string[]> => {
+  const ordered = orderQuestions(questions);
+  const position = new Map(ordered.map((question, index) => [question.id, index]));
+  const byId = new Map(ordered.map(question => [question.id, question]));
+  const cyclic = findCyclicQuestions(questions);
+  const errors: Record<string, string[]> = {};
+
+  const addError = (questionId: string, message: string) => {
+    errors[questionId] = [...(errors[questionId] ?? []), message];
+  };
+
+  ordered.forEach(question => {
+    if (!question.visibility) return;
+
+    const conditions = collectConditions(question.visibility.when);
+    if (conditions.length === 0) {
+      addError(question.id, 'La regla no tiene condiciones');
+    }
+
+    conditions.forEach(condition => {
+      if (!condition.questionId) {
+        addError(question.id, 'Hay una condición sin pregunta seleccionada');
+        return;
+      }
+
+      const referenced = byId.get(condition.questionId);
+      if (!referenced) {
+        addError(question.id, 'Una condición usa una pregunta que ya no existe');
+        return;
+      }
+
+      if (referenced.id === question.id || position.get(referenced.id)! > position.get(question.id)!) {
+        addError(question.id, `La condición sobre "${referenced.text || referenced.id}" debe usar una pregunta anterior`);
+      }
+
+      if (!OPERATORS_BY_TYPE[referenced.type]?.includes(condition.operator)) {
+        addError(question.id, `El operador no es válido para "${referenced.text || referenced.id}"`);
+      } else if (!UNARY_OPERATORS.includes(condition.operator) && (condition.value === undefined || condition.value === '')) {
+        addError(question.id, `Falta el valor de la condición sobre "${referenced.text || referenced.id}"`);
+      }
+    });
+
+    if (cyclic.has(question.id)) {
+      addError(question.id, 'La regla forma una dependencia circular');
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Errores de las fórmulas de los campos calculados, por ID de pregunta.
+ * Detecta errores de sintaxis, códigos inexistentes, referencias a preguntas sin valor numérico y ciclos.
+ */
+export const validateFormulas = (questions: Question[]): Record<string, string[]> => {
+  const byCode = getQuestionsByCode(questions);
+  const cyclic = findCyclicQuestions(questions);
+  const errors: Record<string, string[]> = {};
+
+  const addError = (questionId: string, message: string) => {
+    errors[questionId] = [...(errors[questionId] ?? []), message];
+  };
+
+  questions.forEach(question => {
+    if (question.type !== 'calculated') return;
+
+    const expression = question.calculation?.expression ?? '';
+    try {
+      parseFormula(expression);
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      addError(question.id, `${error.message} (posición ${error.position + 1})`);
+    }
+
+    getFormulaReferences(expression).forEach(code => {
+      const referenced = byCode.get(code.toLowerCase());
+      if (!referenced) {
+        addError(question.id, `No existe ninguna pregunta con el código {${code}}`);
+      } else if (!FORMULA_SOURCE_TYPES.includes(referenced.type)) {
+        addError(question.id, `La pregunta {${code}} no tiene un valor que se pueda calcular`);
+      }
+    });
+
+    if (cyclic.has(question.id)) {
+      addError(question.id, 'La fórmula forma una dependencia circular');
+    }
+  });
+
+  return errors;
+};
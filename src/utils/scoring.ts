@@ -0,0 +1,156 @@
+import { Form, FormResponse, FormVersion, Question, QuestionType, ResponseScore } from '../types';
+import { AnswerMap, getAlwaysShownIds, isEmptyAnswer, toAnswerMap } from './conditionalLogic';
+import { getFormDefinitionForVersion } from './formVersions';
+import { flattenQuestions } from './responseFormat';
+
+// Tipos de pregunta que se pueden puntuar
+export const SCORABLE_TYPES: QuestionType[] = ['select', 'multiselect', 'boolean'];
+
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+/**
+ * Opciones puntuables de una pregunta: IDs de opción, o `true`/`false` en las de Sí/No
+ */
+export const getScoringKeys = (question: Question): Array<{ key: string; text: string }> =>
+  question.type === 'boolean'
+    ? [{ key: 'true', text: 'Sí' }, { key: 'false', text: 'No' }]
+    : (question.options ?? []).map(option => ({ key: option.id, text: option.text }));
+
+/**
+ * Indica si una pregunta cuenta para la puntuación (tiene puntos u opciones correctas)
+ */
+export const isScoredQuestion = (question: Question) =>
+  SCORABLE_TYPES.includes(question.type) &&
+  Boolean(question.scoring) &&
+  (Object.values(question.scoring!.points).some(points => points !== 0) || question.scoring!.correct.length > 0);
+
+/**
+ * Indica si un formulario es una evaluación (alguna pregunta puntúa)
+ */
+export const hasScoring = (questions: Question[]) => flattenQuestions(questions).some(isScoredQuestion);
+
+/**
+ * Puntos máximos de una pregunta: la mejor opción, o la suma de las positivas en selección múltiple
+ */
+export const getMaxPoints = (question: Question): number => {
+  if (!question.scoring) return 0;
+
+  const points = getScoringKeys(question).map(({ key }) => question.scoring!.points[key] ?? 0);
+  return question.type === 'multiselect'
+    ? roundPoints(points.filter(value => value > 0).reduce((sum, value) => sum + value, 0))
+    : Math.max(0, ...points);
+};
+
+/**
+ * Opciones elegidas en una respuesta, como claves de puntuación
+ */
+const getAnswerKeys = (value: unknown): string[] => {
+  if (typeof value === 'boolean') return [String(value)];
+  if (Array.isArray(value)) return value.map(String);
+  return isEmptyAnswer(value) ? [] : [String(value)];
+};
+
+/**
+ * Puntos obtenidos en una pregunta (nunca negativos, aunque haya opciones que resten)
+ */
+export const getQuestionPoints = (question: Question, value: unknown): number => {
+  if (!question.scoring) return 0;
+
+  const points = getAnswerKeys(value).reduce((sum, key) => sum + (question.scoring!.points[key] ?? 0), 0);
+  return Math.max(0, roundPoints(points));
+};
+
+/**
+ * Indica si la respuesta a una pregunta es correcta.
+ * En selección múltiple deben marcarse exactamente las opciones correctas.
+ * @returns `null` si la pregunta no tiene respuestas correctas definidas
+ */
+export const isCorrectAnswer = (question: Question, value: unknown): boolean | null => {
+  const correct = question.scoring?.correct ?? [];
+  if (correct.length === 0) return null;
+
+  const chosen = getAnswerKeys(value);
+  if (question.type === 'multiselect') {
+    return chosen.length === correct.length && chosen.every(key => correct.includes(key));
+  }
+  return chosen.length === 1 && correct.includes(chosen[0]);
+};
+
+/**
+ * Puntuación de una respuesta.
+ * Cuentan las preguntas respondidas y las que se muestran siempre (sin padre ni regla
+ * de visibilidad, propia o de su sección); es el mismo criterio que aplica la API al guardar.
+ * @param passMark - Porcentaje mínimo para aprobar (opcional)
+ * @returns `undefined` si el formulario no tiene preguntas puntuadas
+ */
+export const computeScore = (
+  questions: Question[],
+  answers: AnswerMap,
+  passMark?: number
+): ResponseScore | undefined => {
+  const scored = flattenQuestions(questions).filter(isScoredQuestion);
+  if (scored.length === 0) return undefined;
+
+  const alwaysShown = getAlwaysShownIds(questions);
+  let points = 0;
+  let maxPoints = 0;
+  scored.forEach(question => {
+    const value = answers[question.id];
+    if (isEmptyAnswer(value) && !alwaysShown.has(question.id)) return;
+
+    points += getQuestionPoints(question, value);
+    maxPoints += getMaxPoints(question);
+  });
+
+  const score: ResponseScore = { points: roundPoints(points), maxPoints: roundPoints(maxPoints) };
+  if (passMark !== undefined && passMark !== null) {
+    score.passed = getScorePercentage(score) >= passMark;
+  }
+  return score;
+};
+
+/**
+ * Puntuación de una respuesta: la guardada o, si no la tiene (p. ej. anterior a la
+ * evaluación o pendiente de enviar), la calculada con la versión con la que se recogió
+ */
+export const getResponseScore = (
+  form: Form,
+  versions: FormVersion[],
+  response: FormResponse
+): ResponseScore | undefined => {
+  if (response.score) return response.score;
+
+  const definition = getFormDefinitionForVersion(form, versions, response.formVersion);
+  return computeScore(definition.questions, toAnswerMap(response.responses), definition.passMark);
+};
+
+/**
+ * Porcentaje de la puntuación máxima obtenido (sin redondear)
+ */
+export const getScorePercentage = (score: ResponseScore) =>
+  score.maxPoints > 0 ? (score.points / score.maxPoints) * 100 : 0;
+
+/**
+ * Puntuación como texto: "7/10 (70%)"
+ */
+export const formatScore = (score: ResponseScore) =>
+  `${score.points}/${score.maxPoints} (${Math.round(getScorePercentage(score))}%)`;
+
+/**
+ * Distribución de las puntuaciones en tramos de porcentaje (0–9 %, 10–19 %… 90–100 %)
+ */
+export const getScoreDistribution = (scores: ResponseScore[], bucketSize = 10) => {
+  const bucketCount = Math.ceil(100 / bucketSize);
+  const buckets = Array.from({ length: bucketCount }, (_, index) => {
+    const from = index * bucketSize;
+    const to = index === bucketCount - 1 ? 100 : from + bucketSize - 1;
+    return { label: `${from}–${to} %`, count: 0 };
+  });
+
+  scores.forEach(score => {
+    const index = Math.min(Math.floor(getScorePercentage(score) / bucketSize), bucketCount - 1);
+    buckets[index].count += 1;
+  });
+
+  return buckets;
+};
@@ -0,0 +1,11 @@
+// Prefijo de las firmas guardadas como imagen PNG en la respuesta
+const SIGNATURE_PREFIX = 'data:image/png;base64,';
+
+// Tamaño máximo de una firma codificada (la API aplica el mismo límite)
+export const SIGNATURE_MAX_LENGTH = 300 * 1024;
+
+/**
+ * Indica si un valor es una firma (imagen PNG codificada en base64)
+ */
+export const isSignatureImage = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(SIGNATURE_PREFIX);
@@ -0,0 +1,80 @@
+// ======================
+// TIPOS
+// ======================
+
+// Historial para deshacer y rehacer cambios sobre un estado inmutable
+export interface UndoHistory<T> {
+  past: T[]; // Estados anteriores (el último es el más reciente)
+  present: T;
+  future: T[]; // Estados deshechos (el primero es el siguiente a rehacer)
+  lastKey?: string; // Clave del último cambio (para agrupar los consecutivos)
+  lastAt?: number; // Momento del último cambio
+}
+
+// Estados anteriores que se conservan como máximo
+export const MAX_HISTORY = 100;
+
+// Los cambios con la misma clave separados por menos de este tiempo (ms) se deshacen juntos
+const GROUP_WINDOW = 1000;
+
+// ======================
+// OPERACIONES
+// ======================
+
+/**
+ * Historial vacío con un estado inicial
+ */
+export const createHistory = <T>(present: T): UndoHistory<T> => ({ past: [], present, future: [] });
+
+/**
+ * Registra un nuevo estado y descarta lo que se había deshecho.
+ * Los cambios seguidos con la misma `groupKey` (p. ej. cada tecla al escribir el texto
+ * de una pregunta) se agrupan en un solo paso de deshacer.
+ */
+export const pushHistory = <T>(
+  history: UndoHistory<T>,
+  present: T,
+  groupKey?: string,
+  now = Date.now()
+): UndoHistory<T> => {
+  if (present === history.present) return history;
+
+  const grouped =
+    groupKey !== undefined &&
+    groupKey === history.lastKey &&
+    now - (history.lastAt ?? 0) < GROUP_WINDOW;
+
+  return {
+    past: grouped ? history.past : [...history.past, history.present].slice(-MAX_HISTORY),
+    present,
+    future: [],
+    lastKey: groupKey,
+    lastAt: now
+  };
+};
+
+/**
+ * Vuelve al estado anterior (sin cambios si no hay nada que deshacer)
+ */
+export const undoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.past.length === 0) return history;
+
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+/**
+ * Rehace el último cambio deshecho (sin cambios si no hay nada que rehacer)
+ */
+export const redoHistory = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.future.length === 0) return history;
+
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
@@ -0,0 +1,7 @@
+-- MySQL: user management
+-- Adds an `active` flag so admins can deactivate accounts without deleting them
+
+USE form_builder;
+
+ALTER TABLE users
+    ADD COLUMN active BOOLEAN NOT NULL DEFAULT TRUE AFTER role;
@@ -0,0 +1,25 @@
+-- MySQL: fine-grained roles and per-form permissions
+-- Replaces the generic `user` role with editor / analyst / respondent
+-- and stores who can edit, fill, view or edit the responses of each form
+
+USE form_builder;
+
+-- Widen the enum first so existing rows can be migrated
+ALTER TABLE users
+    MODIFY role ENUM('admin', 'user', 'editor', 'analyst', 'respondent') NOT NULL DEFAULT 'respondent';
+
+UPDATE users SET role = 'respondent' WHERE role = 'user';
+
+ALTER TABLE users
+    MODIFY role ENUM('admin', 'editor', 'analyst', 'respondent') NOT NULL DEFAULT 'respondent';
+
+-- Form permissions table (one row per granted permission)
+CREATE TABLE IF NOT EXISTS form_permissions (
+    form_id VARCHAR(36) NOT NULL,
+    user_id VARCHAR(36) NOT NULL,
+    permission ENUM('edit', 'fill', 'view_responses', 'edit_responses') NOT NULL,
+    PRIMARY KEY (form_id, user_id, permission),
+    INDEX idx_user_id (user_id),
+    FOREIGN KEY (form_id) REFERENCES forms(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
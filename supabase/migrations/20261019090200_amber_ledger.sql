@@ -0,0 +1,10 @@
+-- MySQL: response editing
+-- Records when a response was last edited and by whom, so edits update the
+-- original row (same id, creation time and author) instead of adding a new one
+
+USE form_builder;
+
+ALTER TABLE responses
+    ADD COLUMN updated_at TIMESTAMP NULL DEFAULT NULL AFTER created_at,
+    ADD COLUMN updated_by VARCHAR(36) NULL DEFAULT NULL AFTER updated_at,
+    ADD CONSTRAINT fk_responses_updated_by FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL;
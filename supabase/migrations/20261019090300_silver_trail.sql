@@ -0,0 +1,22 @@
+-- MySQL: audit trail
+-- One row per create/update/delete of a form or response, with the actor and a
+-- field-level diff in `changes` ([{ "field": ..., "before": ..., "after": ... }]).
+-- No foreign keys, so the history survives the deletion of forms, responses and users.
+
+USE form_builder;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id VARCHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    entity_type ENUM('form', 'response') NOT NULL,
+    entity_id VARCHAR(36) NOT NULL,
+    form_id VARCHAR(36) NOT NULL,
+    action ENUM('create', 'update', 'delete') NOT NULL,
+    user_id VARCHAR(36) NOT NULL,
+    username VARCHAR(255) NOT NULL,
+    changes JSON NOT NULL,
+    created_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    INDEX idx_entity (entity_type, entity_id),
+    INDEX idx_form_id (form_id),
+    INDEX idx_user_id (user_id),
+    INDEX idx_created_at (created_at)
+) ENGINE=InnoDB CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,22 @@
+-- MySQL: form version history
+-- Every save of a form stores an immutable snapshot of its definition, so old
+-- responses can be read against the questions they were collected with
+
+USE form_builder;
+
+CREATE TABLE IF NOT EXISTS form_versions (
+    form_id VARCHAR(36) NOT NULL,
+    version INT NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    questions JSON NOT NULL,
+    created_by VARCHAR(36) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (form_id, version),
+    FOREIGN KEY (form_id) REFERENCES forms(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+) ENGINE=InnoDB CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Earlier versions were overwritten; keep at least the current definition of each form
+INSERT IGNORE INTO form_versions (form_id, version, name, description, questions, created_by, created_at)
+SELECT id, version, name, description, questions, created_by, updated_at FROM forms;
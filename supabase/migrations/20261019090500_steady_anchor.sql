@@ -0,0 +1,75 @@
+-- MySQL: repair responses mis-linked by question renumbering (where a snapshot allows it)
+-- The form builder used to rename every question to q001, q002… by position on
+-- save, so reordering or inserting a question re-pointed the answers of older
+-- responses to the wrong question. Question ids are now kept across saves.
+--
+-- Only versions with a snapshot of their own can be repaired: for each one
+-- whose questions all reappear in the current definition with the same text
+-- and type (and no text is ambiguous), the answers of responses collected with
+-- that version are moved to the current ids and the response is linked to the
+-- current version. That covers versions saved between the snapshot migration
+-- (20261019090400_stone_archive.sql) and this one.
+--
+-- Responses collected before snapshots existed are NOT repaired: the snapshot
+-- migration only kept the current definition of each form, and the question
+-- order those responses were collected with was never stored, so there is
+-- nothing reliable to map their answers back to. They keep the ids (and
+-- therefore the questions) they point to today.
+
+USE form_builder;
+
+-- Old id → current id, per form version
+CREATE TABLE question_id_repairs (
+    form_id VARCHAR(36) NOT NULL,
+    version INT NOT NULL,
+    old_id VARCHAR(64) NOT NULL,
+    new_id VARCHAR(64) NOT NULL,
+    INDEX idx_repair (form_id, version, old_id)
+) ENGINE=InnoDB;
+
+INSERT INTO question_id_repairs (form_id, version, old_id, new_id)
+SELECT v.form_id, v.version, old_q.id, new_q.id
+FROM form_versions v
+JOIN forms f ON f.id = v.form_id AND f.version <> v.version
+JOIN JSON_TABLE(v.questions, '$[*]' COLUMNS (
+    id VARCHAR(64) PATH '$.id',
+    text VARCHAR(1000) PATH '$.text',
+    type VARCHAR(32) PATH '$.type'
+)) old_q
+JOIN JSON_TABLE(f.questions, '$[*]' COLUMNS (
+    id VARCHAR(64) PATH '$.id',
+    text VARCHAR(1000) PATH '$.text',
+    type VARCHAR(32) PATH '$.type'
+)) new_q ON new_q.text = old_q.text AND new_q.type = old_q.type;
+
+-- Versions with a complete, one-to-one mapping where at least one id moved
+CREATE TABLE question_repair_versions ENGINE=InnoDB AS
+SELECT r.form_id, r.version
+FROM question_id_repairs r
+JOIN form_versions v ON v.form_id = r.form_id AND v.version = r.version
+GROUP BY r.form_id, r.version
+HAVING COUNT(*) = ANY_VALUE(JSON_LENGTH(v.questions))
+   AND COUNT(DISTINCT r.old_id) = COUNT(*)
+   AND COUNT(DISTINCT r.new_id) = COUNT(*)
+   AND SUM(r.old_id <> r.new_id) > 0;
+
+UPDATE responses r
+JOIN forms f ON f.id = r.form_id
+JOIN (
+    SELECT rr.id,
+           JSON_ARRAYAGG(JSON_OBJECT('questionId', COALESCE(m.new_id, a.question_id), 'value', a.value)) AS responses
+    FROM responses rr
+    JOIN question_repair_versions rv ON rv.form_id = rr.form_id AND rv.version = rr.form_version
+    JOIN JSON_TABLE(rr.responses, '$[*]' COLUMNS (
+        question_id VARCHAR(64) PATH '$.questionId',
+        value JSON PATH '$.value'
+    )) a
+    LEFT JOIN question_id_repairs m
+        ON m.form_id = rr.form_id AND m.version = rr.form_version AND m.old_id = a.question_id
+    GROUP BY rr.id
+) fixed ON fixed.id = r.id
+SET r.responses = fixed.responses,
+    r.form_version = f.version;
+
+DROP TABLE question_repair_versions;
+DROP TABLE question_id_repairs;
@@ -0,0 +1,16 @@
+-- MySQL: scored quizzes
+-- Optional pass mark (percentage of the maximum score) on forms and their version
+-- snapshots, and the score of each response computed by the API when it is saved.
+
+USE form_builder;
+
+ALTER TABLE forms
+    ADD COLUMN pass_mark DECIMAL(5,2) NULL DEFAULT NULL AFTER questions;
+
+ALTER TABLE form_versions
+    ADD COLUMN pass_mark DECIMAL(5,2) NULL DEFAULT NULL AFTER questions;
+
+ALTER TABLE responses
+    ADD COLUMN score DECIMAL(10,2) NULL DEFAULT NULL AFTER responses,
+    ADD COLUMN max_score DECIMAL(10,2) NULL DEFAULT NULL AFTER score,
+    ADD COLUMN passed BOOLEAN NULL DEFAULT NULL AFTER max_score;
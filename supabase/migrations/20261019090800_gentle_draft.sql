@@ -0,0 +1,10 @@
+-- MySQL: response drafts
+-- Respondents can keep an in-progress response on the server and resume it later,
+-- on any device. Drafts are skipped by validation, scoring, listings and the audit
+-- log until they are submitted.
+
+USE form_builder;
+
+ALTER TABLE responses
+    ADD COLUMN status ENUM('draft', 'submitted') NOT NULL DEFAULT 'submitted' AFTER form_version,
+    ADD INDEX idx_user_status (user_id, status);